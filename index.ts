@@ -23,12 +23,91 @@ export { MACType } from './src/MACType';
 export { MACImpl } from './src/MACImpl';
 export { KeyEncoding } from './src/KeyEncoding';
 export { Network } from './src/Network';
+export { NetworkRegistry } from './src/NetworkRegistry';
 export { Cryptography } from './src/Cryptography';
 export { HasherInterface } from './src/HasherInterface';
 export { CatapultECC } from './src/CatapultECC';
 export { NodeInterface } from './src/NodeInterface';
 export { DeterministicKey } from './src/Compat/DeterministicKey';
 export { NodeEd25519 } from './src/Curves/NodeEd25519';
-export { MnemonicPassPhrase } from './src/MnemonicPassPhrase';
+export { NodeEd25519BIP32 } from './src/Curves/NodeEd25519BIP32';
+export { NodeNist256p1 } from './src/Curves/NodeNist256p1';
+export {
+    CurveNode,
+    CurveProviderInterface,
+} from './src/CurveProviderInterface';
+export { CurveRegistry } from './src/CurveRegistry';
+export { CancellationToken } from './src/CancellationToken';
+export { TestDRBG } from './src/TestDRBG';
+export {
+    EntropyPolicy,
+    EntropyPolicyOptions,
+    EntropyTest,
+    EntropyWarning,
+} from './src/EntropyPolicy';
+export { PhysicalEntropy } from './src/PhysicalEntropy';
+export {
+    EntropyMixer,
+    EntropySource,
+    EntropySourceRecord,
+    EntropyMixRecord,
+} from './src/EntropyMixer';
+export { WordlistRegistry } from './src/WordlistRegistry';
+export {
+    SeedProfile,
+    SeedKdf,
+} from './src/SeedProfile';
+export {
+    MnemonicPassPhrase,
+    SeedDerivationOptions,
+} from './src/MnemonicPassPhrase';
+export {
+    MnemonicRepair,
+    MnemonicDiagnostics,
+    MnemonicWordDiagnostic,
+    MnemonicRepairCandidate,
+    MnemonicRepairOperation,
+} from './src/MnemonicRepair';
+export {
+    QRCode,
+    QRErrorCorrection,
+    QRSegment,
+} from './src/QR/QRCode';
+export {
+    QRRenderer,
+    QRSVGOptions,
+} from './src/QR/QRRenderer';
+export { SeedQR } from './src/SeedQR';
+export { ShamirShare } from './src/ShamirShare';
+export { ShamirMnemonic } from './src/ShamirMnemonic';
+export { SeedXOR } from './src/SeedXOR';
 export { ExtendedKey } from './src/ExtendedKey';
+export {
+    Keystore,
+    KeystoreContents,
+    KeystoreFile,
+    KeystoreKdf,
+    KeystoreOptions,
+    KeystoreType,
+} from './src/Keystore';
 export { Wallet } from './src/Wallet';
+export {
+    RecoverySpace,
+    RecoverySpec,
+    RecoveryCandidate,
+} from './src/RecoverySpace';
+export {
+    RecoverySearch,
+    RecoveryTarget,
+    RecoveryProgress,
+    RecoveryOptions,
+} from './src/RecoverySearch';
+export {
+    PaperWallet,
+    PaperWalletOptions,
+    PaperWalletSheet,
+} from './src/PaperWallet';
+export {
+    BackupChallenge,
+    BackupChallengeAnswer,
+} from './src/BackupChallenge';
@@ -0,0 +1,235 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {
+    createHmac,
+    timingSafeEqual,
+} from 'crypto';
+
+// internal dependencies
+import {
+    ExtendedKey,
+    MnemonicPassPhrase,
+    Network,
+} from '../index';
+
+/**
+ * Interface `BackupChallengeAnswer` describes a word entered
+ * by the user for a `position` (starting at 1) of the challenge.
+ */
+export interface BackupChallengeAnswer {
+    position: number;
+    word: string;
+}
+
+/**
+ * Normalize a word before comparison: NFKD form, trimmed
+ * and lower case.
+ *
+ * @param   word    {string}
+ * @return  {string}
+ */
+const normalizeWord = (
+    word: string
+): string => {
+    return word.normalize('NFKD').trim().toLowerCase();
+};
+
+/**
+ * Class `BackupChallenge` describes a backup confirmation challenge:
+ * after creating a mnemonic pass phrase, the user is asked to enter the
+ * words at randomly picked positions to prove that the words were written
+ * down.
+ *
+ * The challenge keeps keyed digests of the expected words instead of the
+ * plain words, but the key is kept with the challenge and each word is one
+ * of 2048 wordlist entries: the words are recovered by trying all of them.
+ * The digests are not a secrecy boundary, a challenge must be kept as secret
+ * as the mnemonic pass phrase itself. Answers are accepted in any order and
+ * compared in constant time.
+ *
+ * The "offline verification" mode compares a re-entered mnemonic pass phrase
+ * with a stored master key fingerprint, see `getFingerprint()`, such that the
+ * words do not need to be kept at all.
+ *
+ * @example Usage of backup confirmation challenges
+ *
+ * ```typescript
+ * const mnemonic = MnemonicPassPhrase.createRandom();
+ * const challenge = BackupChallenge.create(mnemonic);
+ *
+ * // ask the user for words at challenge.positions
+ * const valid = challenge.verify([{position: 7, word: 'alpha'}, ...]);
+ * ```
+ *
+ * @since 0.5.0
+ */
+export class BackupChallenge {
+
+    /**
+     * Default number of words asked.
+     * @var {number}
+     */
+    public static DEFAULT_SIZE = 3;
+
+    /**
+     * Construct a `BackupChallenge` object.
+     *
+     * @param   positions   {number[]}
+     * @param   key         {Buffer}
+     * @param   digests     {Buffer[]}
+     */
+    constructor(/**
+                 * The word positions asked (starting at 1).
+                 * @var {number[]}
+                 */
+                public readonly positions: number[],
+                /**
+                 * The key of the word digests.
+                 * @var {Buffer}
+                 */
+                protected readonly key: Buffer,
+                /**
+                 * The digests of the expected words, in the
+                 * order of `positions`.
+                 * @var {Buffer[]}
+                 */
+                protected readonly digests: Buffer[]) {
+
+    }
+
+    /**
+     * Create a challenge with `size` random word positions
+     * of `mnemonic`.
+     *
+     * @param   mnemonic    {MnemonicPassPhrase}    The mnemonic pass phrase to confirm.
+     * @param   size        {number}    (Optional) The number of words asked.
+     * @param   rng         {function}  (Optional) Random Number Generator to be used.
+     * @return  {BackupChallenge}
+     * @throws  {Error}     On invalid `size` argument.
+     */
+    public static create(
+        mnemonic: MnemonicPassPhrase,
+        size: number = BackupChallenge.DEFAULT_SIZE,
+        rng: (size: number) => Buffer = MnemonicPassPhrase.CATAPULT_RNG
+    ): BackupChallenge {
+        const words = mnemonic.toArray();
+        if (size < 1 || size > words.length || size % 1 !== 0) {
+            throw new Error('Invalid challenge size, must be between 1 and ' + words.length + '.');
+        }
+
+        // pick distinct positions uniformly (rejection sampling)
+        const limit = 65536 - (65536 % words.length);
+        const positions: number[] = [];
+        while (positions.length < size) {
+            const random = rng(2).readUInt16BE(0);
+            const position = random % words.length + 1;
+            if (random < limit && positions.indexOf(position) === -1) {
+                positions.push(position);
+            }
+        }
+
+        const key = rng(32);
+        const digests = positions.map((position) => BackupChallenge.digest(key, words[position - 1]));
+        return new BackupChallenge(positions, key, digests);
+    }
+
+    /**
+     * Verify the `answers` of the user. Answers can be given in any
+     * order but every position must be answered exactly once.
+     *
+     * @param   answers     {BackupChallengeAnswer[]}
+     * @return  {boolean}   Whether all answers are correct.
+     */
+    public verify(
+        answers: BackupChallengeAnswer[]
+    ): boolean {
+        let valid = answers.length === this.positions.length;
+
+        // compare all positions, no early exit
+        this.positions.forEach((position, i) => {
+            const matching = answers.filter((answer) => answer.position === position);
+            const word = matching.length === 1 ? matching[0].word : '';
+            const equal = timingSafeEqual(BackupChallenge.digest(this.key, word), this.digests[i]);
+            valid = equal && matching.length === 1 && valid;
+        });
+
+        return valid;
+    }
+
+    /**
+     * Get the hexadecimal master key fingerprint of `mnemonic`,
+     * to be stored for offline verification.
+     *
+     * @see {BackupChallenge}.verifyFingerprint
+     * @param   mnemonic    {MnemonicPassPhrase}
+     * @param   password    {string}    (Optional) The BIP39 password.
+     * @param   network     {Network}   (Optional) The network of the master key.
+     * @return  {string}
+     */
+    public static getFingerprint(
+        mnemonic: MnemonicPassPhrase,
+        password: string = '',
+        network: Network = Network.BITCOIN
+    ): string {
+        const xkey = ExtendedKey.createFromSeed(mnemonic.toSeed(password).toString('hex'), network);
+        return xkey.node.fingerprint.toString('hex');
+    }
+
+    /**
+     * Verify a re-entered `mnemonic` against a stored master key
+     * `fingerprint` (hexadecimal), in constant time.
+     *
+     * @see {BackupChallenge}.getFingerprint
+     * @param   mnemonic    {MnemonicPassPhrase}
+     * @param   fingerprint {string}
+     * @param   password    {string}    (Optional) The BIP39 password.
+     * @param   network     {Network}   (Optional) The network of the master key.
+     * @return  {boolean}   Whether the mnemonic pass phrase matches the fingerprint.
+     */
+    public static verifyFingerprint(
+        mnemonic: MnemonicPassPhrase,
+        fingerprint: string,
+        password: string = '',
+        network: Network = Network.BITCOIN
+    ): boolean {
+        const expected = Buffer.from(fingerprint, 'hex');
+        const actual = Buffer.from(BackupChallenge.getFingerprint(mnemonic, password, network), 'hex');
+
+        return expected.length === actual.length
+            && timingSafeEqual(expected, actual)
+            && mnemonic.isValid();
+    }
+
+    /**
+     * Get the keyed digest of a normalized `word`.
+     *
+     * @internal
+     * @param   key     {Buffer}
+     * @param   word    {string}
+     * @return  {Buffer}
+     */
+    protected static digest(
+        key: Buffer,
+        word: string
+    ): Buffer {
+        return createHmac('sha256', key).update(normalizeWord(word), 'utf8').digest();
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+
+/**
+ * Class `CancellationToken` lets the caller of a long running asynchronous
+ * operation, such as `MnemonicPassPhrase.toSeedAsync`, cancel it.
+ *
+ * @example Cancelling an asynchronous seed derivation
+ *
+ * ```typescript
+ * const token = new CancellationToken();
+ * const promise = mnemonic.toSeedAsync('password', {cancellation: token});
+ * token.cancel(); // promise rejects with 'Operation was cancelled.'
+ * ```
+ *
+ * @since 0.5.0
+ */
+export class CancellationToken {
+
+    /**
+     * Whether `cancel()` was called.
+     * @var {boolean}
+     */
+    protected cancelled: boolean = false;
+
+    /**
+     * Request cancellation of the operation(s) using this token.
+     *
+     * @return  {void}
+     */
+    public cancel(): void {
+        this.cancelled = true;
+    }
+
+    /**
+     * Return whether cancellation was requested.
+     *
+     * @return  {boolean}
+     */
+    public isCancelled(): boolean {
+        return this.cancelled;
+    }
+
+    /**
+     * Throw if cancellation was requested.
+     *
+     * @return  {void}
+     * @throws  {Error}     On requested cancellation.
+     */
+    public throwIfCancelled(): void {
+        if (this.cancelled) {
+            throw new Error('Operation was cancelled.');
+        }
+    }
+}
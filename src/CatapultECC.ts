@@ -120,6 +120,32 @@ export class CatapultECC {
         hasher.finalize(d);
         CatapultECC.clamp(d);
 
+        return CatapultECC.signExpanded(m, pk, d, hasher);
+    }
+
+    /**
+     * Sign `m` with an expanded private key `d` (64 bytes), of which
+     * the left half is the scalar and the right half is the nonce
+     * prefix.
+     *
+     * This is used by BIP32-Ed25519 keys that have no 32 bytes
+     * private key to expand.
+     *
+     * @param   m       {Uint8Array}    The data to sign.
+     * @param   pk      {Uint8Array}    The public key (32 bytes).
+     * @param   d       {Uint8Array}    The expanded private key (64 bytes).
+     * @param   hasher  {HasherInterface}
+     * @return  {Uint8Array}
+     * @since 0.5.0
+     */
+    public static signExpanded(
+        m: Uint8Array,
+        pk: Uint8Array,
+        d: Uint8Array,
+        hasher: HasherInterface
+    ): Uint8Array {
+        const c = nacl_catapult;
+
         const r = new Uint8Array(CatapultECC.HASH_SIZE);
         hasher.reset();
         hasher.update(d.subarray(CatapultECC.HALF_HASH_SIZE));
@@ -155,6 +181,80 @@ export class CatapultECC {
         return signature;
     }
 
+    /**
+     * Multiply the base point with scalar `s` (32 bytes, little-endian)
+     * and return the encoded point.
+     *
+     * @param   s   {Uint8Array}
+     * @return  {Uint8Array}
+     * @since 0.5.0
+     */
+    public static scalarMultBase(
+        s: Uint8Array
+    ): Uint8Array {
+        const c = nacl_catapult;
+        const p = [c.gf(), c.gf(), c.gf(), c.gf()];
+        const pk = new Uint8Array(CatapultECC.KEY_SIZE);
+        c.scalarbase(p, s);
+        c.pack(pk, p);
+        return pk;
+    }
+
+    /**
+     * Add the base point multiplied with scalar `s` to the
+     * encoded point `pk` and return the encoded sum.
+     *
+     * @param   pk  {Uint8Array}    The encoded point (32 bytes).
+     * @param   s   {Uint8Array}    The scalar (32 bytes, little-endian).
+     * @return  {Uint8Array}
+     * @throws  {Error}     On invalid encoded point.
+     * @since 0.5.0
+     */
+    public static addScalarMultBase(
+        pk: Uint8Array,
+        s: Uint8Array
+    ): Uint8Array {
+        const c = nacl_catapult;
+        const p = [c.gf(), c.gf(), c.gf(), c.gf()];
+        const q = [c.gf(), c.gf(), c.gf(), c.gf()];
+
+        if (! CatapultECC.isValidPublicKey(pk) || c.unpack(p, pk)) {
+            throw new Error('Invalid public key, not a point of the ed25519 curve.');
+        }
+
+        const sum = new Uint8Array(CatapultECC.KEY_SIZE);
+        c.scalarbase(q, s);
+        c.add(p, q);
+        c.pack(sum, p);
+        return sum;
+    }
+
+    /**
+     * Return whether `pk` is a valid encoded public key: a 32 bytes
+     * encoding of a point of the ed25519 curve that can be
+     * decompressed and that is not the identity point.
+     *
+     * @param   pk  {Uint8Array}
+     * @return  {boolean}
+     * @since 0.5.0
+     */
+    public static isValidPublicKey(
+        pk: Uint8Array
+    ): boolean {
+        if (pk.length !== CatapultECC.KEY_SIZE)
+            return false;
+
+        // reject identity (x = 0, y = 1), with or without sign bit
+        const y = new Uint8Array(pk);
+        y[CatapultECC.KEY_SIZE - 1] &= 0x7f;
+        if (y[0] === 1 && array.isZeroFilled(y.subarray(1)))
+            return false;
+
+        const c = nacl_catapult;
+        const q = [c.gf(), c.gf(), c.gf(), c.gf()];
+        return 0 === c.unpackneg(q, pk);
+    }
+
     public static verify(
         pk: Uint8Array,
         m: Uint8Array,
@@ -335,7 +335,8 @@ export abstract class DeterministicKey implements NodeInterface {
      * `version || depth || parent || index || chain code || priv/pub`
      * 
      * Private keys are prepended with `0x00`, public keys are encoded
-     * in X9.62 format.
+     * in X9.62 format. Ed25519 public keys (32 bytes) are prepended
+     * with `0x00` as described in SLIP-10.
      *
      * @see https://github.com/bitcoinjs/bip32/blob/master/src/bip32.js#L73
      * @access  public
@@ -348,8 +349,8 @@ export abstract class DeterministicKey implements NodeInterface {
             ? this.network.privateKeyPrefix
             : this.network.publicKeyPrefix;
 
-        // prepare extended key buffer
-        const buffer = Buffer.allocUnsafe(78);
+        // prepare zero-filled extended key buffer, no byte is left uninitialized
+        const buffer = Buffer.alloc(78);
 
         // 4 bytes: version bytes
         buffer.writeUInt32BE(version, 0);
@@ -373,6 +374,11 @@ export abstract class DeterministicKey implements NodeInterface {
             buffer.writeUInt8(0, 45);
             this.privateKey.copy(buffer, 46);
         }
+        else if (this.publicKey.byteLength === 32) {
+            // 0x00 + A for ed25519 public keys (SLIP-10)
+            buffer.writeUInt8(0, 45);
+            this.publicKey.copy(buffer, 46);
+        }
         else {
             // X9.62 encoding for public keys
             this.publicKey.copy(buffer, 45);
@@ -28,4 +28,6 @@
 export enum CurveAlgorithm {
     secp256k1 = 0,
     ed25519 = 1,
+    ed25519_bip32 = 2,
+    nist256p1 = 3,
 }
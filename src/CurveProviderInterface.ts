@@ -0,0 +1,114 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import { BIP32 } from 'bip32';
+
+// internal dependencies
+import {
+    MACType,
+    Network,
+    NodeInterface,
+} from '../index';
+
+/**
+ * Type `CurveNode` describes the hyper-deterministic nodes
+ * that can be used with `ExtendedKey`.
+ *
+ * @since 0.5.0
+ */
+export type CurveNode = BIP32 | NodeInterface;
+
+/**
+ * Interface `CurveProviderInterface` defines the factories that
+ * `ExtendedKey` uses to create and derive the hyper-deterministic
+ * nodes of one curve algorithm.
+ *
+ * Providers are registered in `CurveRegistry`, indexed by the
+ * curve algorithm of `Network.curve`.
+ *
+ * @see {CurveRegistry}
+ * @since 0.5.0
+ */
+export interface CurveProviderInterface {
+    /**
+     * The node type name (e.g. `NodeEd25519`), used in error messages.
+     * @var {string}
+     */
+    readonly name: string;
+
+    /**
+     * Create the master node of `seed`.
+     *
+     * @param   seed        {Buffer}    The seed, e.g. of a mnemonic pass phrase.
+     * @param   network     {Network}   The network of the node, its' curve is the provider curve.
+     * @param   macType     {MACType}   The MAC type, providers without `MACType` support may ignore it.
+     * @return  {CurveNode}
+     * @throws  {Error}     On invalid seed.
+     */
+    fromSeed(seed: Buffer, network: Network, macType: MACType): CurveNode;
+
+    /**
+     * Create a node out of its' base58 `payload`.
+     *
+     * @param   payload     {string}    The base58 extended key.
+     * @param   network     {Network}   The network of the payload, its' curve is the provider curve.
+     * @param   macType     {MACType}   The MAC type, providers without `MACType` support may ignore it.
+     * @param   legacy      {boolean}   Whether to accept payloads with `Network.BITCOIN` version bytes
+     *                                  (legacy CATAPULT keys), providers without legacy payloads may ignore it.
+     * @return  {CurveNode}
+     * @throws  {Error}     On invalid payload or version bytes not matching `network`.
+     */
+    fromBase58(payload: string, network: Network, macType: MACType, legacy: boolean): CurveNode;
+
+    /**
+     * Return the neutered (public only) copy of `node`.
+     *
+     * @param   node    {CurveNode}     A node of this provider.
+     * @return  {CurveNode}
+     */
+    neutered(node: CurveNode): CurveNode;
+
+    /**
+     * Derive the child node of `node` at `path`, e.g. `m/44'/43'/0'`.
+     *
+     * @param   node    {CurveNode}     A node of this provider.
+     * @param   path    {string}        The derivation path.
+     * @return  {CurveNode}
+     * @throws  {Error}     On invalid path or derivation not supported by the node.
+     */
+    derivePath(node: CurveNode, path: string): CurveNode;
+
+    /**
+     * Return whether `node` is a node of this provider.
+     *
+     * @param   node    {CurveNode}
+     * @return  {boolean}
+     */
+    isNode(node: CurveNode): boolean;
+
+    /**
+     * Return the MAC type of `node`, or undefined when the
+     * node does not use `MACType` for key derivation.
+     *
+     * @param   node    {CurveNode}     A node of this provider.
+     * @return  {MACType | undefined}
+     */
+    getMACType(node: CurveNode): MACType | undefined;
+}
@@ -0,0 +1,285 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import * as bip32 from 'bip32';
+import { BIP32 } from 'bip32';
+
+// internal dependencies
+import {
+    CurveAlgorithm,
+    CurveNode,
+    CurveProviderInterface,
+    DeterministicKey,
+    Network,
+    NodeEd25519,
+    NodeEd25519BIP32,
+    NodeNist256p1,
+} from '../index';
+
+/**
+ * Convert a secp256k1 `network` to the network object of
+ * the `bitcoinjs/bip32` package.
+ *
+ * The WIF prefix is not part of extended keys, the BITCOIN
+ * mainnet prefix is used for all networks.
+ *
+ * @param   network     {Network}
+ * @return  {Object}
+ */
+const toBIP32Network = (
+    network: Network
+): {wif: number, bip32: {public: number, private: number}} => {
+    return {
+        wif: 0x80,
+        bip32: {
+            public: network.publicKeyPrefix,
+            private: network.privateKeyPrefix,
+        },
+    };
+};
+
+/**
+ * Provider of `bitcoinjs/bip32` nodes (secp256k1).
+ *
+ * The `bitcoinjs/bip32` package does not use `MACType`, nodes
+ * that do not extend `DeterministicKey` are `bitcoinjs/bip32`
+ * nodes.
+ *
+ * @var {CurveProviderInterface}
+ */
+const secp256k1Provider: CurveProviderInterface = {
+    name: 'BIP32',
+    fromSeed: (seed, network) => bip32.fromSeed(seed, toBIP32Network(network)),
+    fromBase58: (payload, network) => bip32.fromBase58(payload, toBIP32Network(network)),
+    neutered: (node) => (node as BIP32).neutered(),
+    derivePath: (node, path) => (node as BIP32).derivePath(path),
+    isNode: (node) => ! (node instanceof DeterministicKey),
+    getMACType: () => undefined,
+};
+
+/**
+ * Provider of `NodeEd25519` nodes (SLIP-10 ed25519).
+ *
+ * @var {CurveProviderInterface}
+ */
+const ed25519Provider: CurveProviderInterface = {
+    name: 'NodeEd25519',
+    fromSeed: (seed, network, macType) => NodeEd25519.fromSeed(seed, network, macType),
+    fromBase58: (payload, network, macType, legacy) => NodeEd25519.fromBase58(payload, network, legacy, macType),
+    neutered: (node) => (node as NodeEd25519).neutered(),
+    derivePath: (node, path) => (node as NodeEd25519).derivePath(path),
+    isNode: (node) => node instanceof NodeEd25519,
+    getMACType: (node) => (node as NodeEd25519).macType,
+};
+
+/**
+ * Provider of `NodeEd25519BIP32` nodes (BIP32-Ed25519).
+ *
+ * @var {CurveProviderInterface}
+ */
+const ed25519BIP32Provider: CurveProviderInterface = {
+    name: 'NodeEd25519BIP32',
+    fromSeed: (seed, network, macType) => NodeEd25519BIP32.fromSeed(seed, network, macType),
+    fromBase58: (payload, network, macType) => NodeEd25519BIP32.fromBase58(payload, network, macType),
+    neutered: (node) => (node as NodeEd25519BIP32).neutered(),
+    derivePath: (node, path) => (node as NodeEd25519BIP32).derivePath(path),
+    isNode: (node) => node instanceof NodeEd25519BIP32,
+    getMACType: (node) => (node as NodeEd25519BIP32).macType,
+};
+
+/**
+ * Provider of `NodeNist256p1` nodes (SLIP-10 nist256p1).
+ *
+ * @var {CurveProviderInterface}
+ */
+const nist256p1Provider: CurveProviderInterface = {
+    name: 'NodeNist256p1',
+    fromSeed: (seed, network, macType) => NodeNist256p1.fromSeed(seed, network, macType),
+    fromBase58: (payload, network, macType) => NodeNist256p1.fromBase58(payload, network, macType),
+    neutered: (node) => (node as NodeNist256p1).neutered(),
+    derivePath: (node, path) => (node as NodeNist256p1).derivePath(path),
+    isNode: (node) => node instanceof NodeNist256p1,
+    getMACType: (node) => (node as NodeNist256p1).macType,
+};
+
+/**
+ * Class `CurveRegistry` holds the curve providers that `ExtendedKey`
+ * uses to create and derive hyper-deterministic nodes, indexed by
+ * curve algorithm (see `Network.curve`).
+ *
+ * The registry is initialized with providers for the `CurveAlgorithm`
+ * curves. Third-party curves can be added with `CurveRegistry.register()`
+ * using a curve identifier that is not part of `CurveAlgorithm`.
+ *
+ * @example Usage of a third-party curve
+ *
+ * ```typescript
+ * CurveRegistry.register(100, {
+ *     name: 'NodeSecp256r1',
+ *     fromSeed: (seed, network, macType) => NodeSecp256r1.fromSeed(seed, network, macType),
+ *     fromBase58: (payload, network, macType) => NodeSecp256r1.fromBase58(payload, network, macType),
+ *     neutered: (node) => node.neutered(),
+ *     derivePath: (node, path) => node.derivePath(path),
+ *     isNode: (node) => node instanceof NodeSecp256r1,
+ *     getMACType: (node) => (node as NodeSecp256r1).macType,
+ * });
+ *
+ * const xkey = ExtendedKey.createFromSeed(seed, new Network(0x0488b21e, 0x0488ade4, 100));
+ * ```
+ *
+ * @see {CurveProviderInterface}
+ * @since 0.5.0
+ */
+export class CurveRegistry {
+
+    /**
+     * The registered curve providers.
+     * @var {Object}
+     */
+    private static readonly providers: {[curve: number]: CurveProviderInterface} = {
+        [CurveAlgorithm.secp256k1]: secp256k1Provider,
+        [CurveAlgorithm.ed25519]: ed25519Provider,
+        [CurveAlgorithm.ed25519_bip32]: ed25519BIP32Provider,
+        [CurveAlgorithm.nist256p1]: nist256p1Provider,
+    };
+
+    /**
+     * The curves of `CurveAlgorithm`, these cannot
+     * be overwritten or unregistered.
+     * @var {number[]}
+     */
+    private static readonly builtins: number[] = CurveRegistry.getCurves();
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Register a curve `provider` for the curve identified by `curve`.
+     *
+     * @param   curve       {number}                    The curve identifier (non-negative integer).
+     * @param   provider    {CurveProviderInterface}    The curve provider.
+     * @return  {void}
+     * @throws  {Error}     On invalid curve identifier or built-in curve.
+     */
+    public static register(
+        curve: CurveAlgorithm | number,
+        provider: CurveProviderInterface
+    ): void {
+        if (! Number.isInteger(curve) || curve < 0) {
+            throw new Error('Curve identifier must be a non-negative integer.');
+        }
+
+        if (CurveRegistry.isBuiltIn(curve)) {
+            throw new Error('Curve ' + curve + ' is built-in and cannot be overwritten.');
+        }
+
+        CurveRegistry.providers[curve] = provider;
+    }
+
+    /**
+     * Remove the provider of the third-party curve `curve`.
+     *
+     * @param   curve   {number}
+     * @return  {void}
+     * @throws  {Error}     On built-in curve.
+     */
+    public static unregister(
+        curve: CurveAlgorithm | number
+    ): void {
+        if (CurveRegistry.isBuiltIn(curve)) {
+            throw new Error('Curve ' + curve + ' is built-in and cannot be unregistered.');
+        }
+
+        delete CurveRegistry.providers[curve];
+    }
+
+    /**
+     * Return whether a provider is registered for `curve`.
+     *
+     * @param   curve   {number}
+     * @return  {boolean}
+     */
+    public static has(
+        curve: CurveAlgorithm | number
+    ): boolean {
+        return CurveRegistry.providers.hasOwnProperty(curve);
+    }
+
+    /**
+     * Return whether `curve` is part of `CurveAlgorithm`.
+     *
+     * @param   curve   {number}
+     * @return  {boolean}
+     */
+    public static isBuiltIn(
+        curve: CurveAlgorithm | number
+    ): boolean {
+        return CurveRegistry.builtins.indexOf(curve) !== -1;
+    }
+
+    /**
+     * Get the provider registered for `curve`.
+     *
+     * @param   curve   {number}
+     * @return  {CurveProviderInterface}
+     * @throws  {Error}     On unknown `curve` argument.
+     */
+    public static get(
+        curve: CurveAlgorithm | number
+    ): CurveProviderInterface {
+        if (! CurveRegistry.has(curve)) {
+            throw new Error('No curve provider registered for curve ' + curve + '.');
+        }
+
+        return CurveRegistry.providers[curve];
+    }
+
+    /**
+     * Get the list of registered curves, in ascending order.
+     *
+     * @return  {number[]}
+     */
+    public static getCurves(): number[] {
+        return Object.keys(CurveRegistry.providers).map((curve) => parseInt(curve, 10));
+    }
+
+    /**
+     * Find the curve of the first registered provider that
+     * accepts `node` (see `CurveProviderInterface.isNode`).
+     *
+     * Third-party providers are tried first, such that their
+     * nodes are never mistaken for `bitcoinjs/bip32` nodes.
+     * Returns undefined when no provider accepts `node`.
+     *
+     * @param   node    {CurveNode}
+     * @return  {number | undefined}
+     */
+    public static findByNode(
+        node: CurveNode
+    ): CurveAlgorithm | number | undefined {
+        // third-party providers first
+        const curves = CurveRegistry.getCurves().filter((curve) => ! CurveRegistry.isBuiltIn(curve))
+                                 .concat(CurveRegistry.builtins);
+
+        return curves.filter((curve) => CurveRegistry.providers[curve].isNode(node))[0];
+    }
+}
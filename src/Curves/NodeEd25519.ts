@@ -45,6 +45,10 @@ import {
  * Difference to BIP32:
  *  - Using 64-bytes master private key instead 32-bytes.
  *
+ * The child node inherits the network and MAC type of `parent`,
+ * its' depth is incremented and its' parent fingerprint is the
+ * fingerprint of `parent`.
+ *
  * @see https://cardanolaunch.com/assets/Ed25519_BIP.pdf
  * @see https://github.com/satoshilabs/slips/blob/master/slip-0010.md
  * @see https://github.com/alepop/ed25519-hd-key/blob/master/src/index.ts#L36
@@ -56,7 +60,7 @@ import {
 const CKDPriv = (
     parent: NodeEd25519,
     index: number,
-    macType: MACType = MACType.HMAC
+    macType: MACType = parent.macType
 ): NodeEd25519 => {
     const indexBuffer = Buffer.allocUnsafe(4);
     indexBuffer.writeUInt32BE(index, 0);
@@ -73,7 +77,16 @@ const CKDPriv = (
     const IR = I.slice(32);
 
     // IL = privateKey ; IR = chainCode
-    return new NodeEd25519(IL, undefined, IR);
+    return new NodeEd25519(
+        IL,
+        undefined,
+        IR,
+        parent.network,
+        parent.getDepth() + 1,
+        index,
+        parent.fingerprint.readUInt32BE(0),
+        macType
+    );
 };
 
 /**
@@ -104,6 +117,49 @@ export class NodeEd25519 extends DeterministicKey implements NodeInterface {
      */
     public static readonly HIGHEST_BIT = 0x80000000;
 
+    /**
+     * Construct a `NodeEd25519` object.
+     *
+     * @param privateKey        {Buffer|undefined}  The private key of the node.
+     * @param publicKey         {Buffer|undefined}  The public key of the node.
+     * @param chainCode         {Buffer}            The chain code of the node (32 bytes).
+     * @param network           {Network}           The network of the node, defaults to `Network.CATAPULT`.
+     * @param depth             {number}            The depth of the node (0 for master).
+     * @param index             {number}            The account index (0 for master).
+     * @param parentFingerprint {number}            The parent fingerprint (0x00000000 for master)
+     * @param macType           {MACType}           The MAC type of child key derivation, defaults to `MACType.HMAC`.
+     * @throws  {TypeError}     On invalid public key or public key that does not match the private key.
+     */
+    public constructor(
+        privateKey: Buffer | undefined,
+        publicKey: Buffer | undefined,
+        chainCode: Buffer,
+        network: Network = Network.CATAPULT,
+        depth: number = 0,
+        index: number = 0,
+        parentFingerprint: number = 0x00000000,
+        /**
+         * The Message Authentication Code type of child key derivation.
+         * @var {MACType}
+         */
+        public readonly macType: MACType = MACType.HMAC
+    ) {
+        super(privateKey, publicKey, chainCode, network, depth, index, parentFingerprint);
+
+        if (publicKey === undefined) {
+            return;
+        }
+
+        if (! CatapultECC.isValidPublicKey(publicKey)) {
+            throw new TypeError('Public key must be a valid ed25519 point other than the identity.');
+        }
+
+        if (privateKey !== undefined
+            && ! publicKey.equals(Buffer.from(CatapultECC.extractPublicKey(privateKey, Cryptography.sha3Hash)))) {
+            throw new TypeError('Public key does not match private key.');
+        }
+    }
+
     /**
      * Create a hyper-deterministic ED25519 node from a
      * binary seed.
@@ -132,7 +188,7 @@ export class NodeEd25519 extends DeterministicKey implements NodeInterface {
         const kR = I.slice(32);
 
         // kL = privateKey ; kR = chainCode
-        return new NodeEd25519(kL, undefined, kR, network);
+        return new NodeEd25519(kL, undefined, kR, network, 0, 0, 0x00000000, macType);
     }
 
     /**
@@ -143,16 +199,26 @@ export class NodeEd25519 extends DeterministicKey implements NodeInterface {
      * uses read fields to initialize a BIP32-ED25519
      * hyper-deterministic node.
      *
-     * No ED25519 changes have been done here.
+     * Public keys are serialized as `0x00 || A` as described in SLIP-10,
+     * they must be valid ed25519 points other than the identity.
+     *
+     * When `legacy` is set, payloads with the `Network.BITCOIN` version
+     * bytes (`xprv` and `xpub`), as exported before v0.5.0, are accepted
+     * as well. Legacy public keys are serialized as `A || 0x00`. The
+     * resulting node uses `network` for serialization.
      *
      * @see https://github.com/bitcoinjs/bip32/blob/master/ts-src/bip32.ts#L286
      * @param   inString    {string}    The base58 payload of the extended key.
      * @param   network     {Network}   (Optional) The network of the key, default to `Network.CATAPULT`.
+     * @param   legacy      {boolean}   (Optional) Whether to accept `Network.BITCOIN` version bytes, default to `false`.
+     * @param   macType     {MACType}   (Optional) The MAC type of child key derivation, default to `MACType.HMAC`.
      * @return  {NodeEd25519}
      */
     public static fromBase58(
         inString: string,
         network: Network = Network.CATAPULT,
+        legacy: boolean = false,
+        macType: MACType = MACType.HMAC,
     ): NodeEd25519 {
 
         // decode base58
@@ -163,10 +229,14 @@ export class NodeEd25519 extends DeterministicKey implements NodeInterface {
 
         // 4 bytes: version bytes
         const version = buffer.readUInt32BE(0);
-        if (version !== Network.CATAPULT.privateKeyPrefix
-         && version !== Network.CATAPULT.publicKeyPrefix) {
-            throw new TypeError('Payload Version must be one of: ' + Network.CATAPULT.privateKeyPrefix
-                              + ' or ' + Network.CATAPULT.publicKeyPrefix + '.');
+        const isPrivate = version === network.privateKeyPrefix
+                      || (legacy && version === Network.BITCOIN.privateKeyPrefix);
+        const isPublic = version === network.publicKeyPrefix
+                     || (legacy && version === Network.BITCOIN.publicKeyPrefix);
+
+        if (!isPrivate && !isPublic) {
+            throw new TypeError('Payload Version must be one of: ' + network.privateKeyPrefix
+                              + ' or ' + network.publicKeyPrefix + '.');
         }
 
         // 1 byte: depth: 0x00 for master nodes, 0x01 for level-1 descendants, ...
@@ -193,7 +263,7 @@ export class NodeEd25519 extends DeterministicKey implements NodeInterface {
         const chainCode = buffer.slice(13, 45);
         let hd: NodeEd25519;
 
-        if (version === Network.CATAPULT.privateKeyPrefix) {
+        if (isPrivate) {
         // 33 bytes: private key data (0x00 + k)
 
             if (buffer.readUInt8(45) !== 0x00) {
@@ -204,16 +274,27 @@ export class NodeEd25519 extends DeterministicKey implements NodeInterface {
             const k = buffer.slice(46, 78);
 
             // k = privateKey (createFromPrivateKey)
-            hd = new NodeEd25519(k, undefined, chainCode, network, depth, index, parentFingerprint);
+            hd = new NodeEd25519(k, undefined, chainCode, network, depth, index, parentFingerprint, macType);
 
         } else {
-        // 33 bytes: public key data (0x02 + X or 0x03 + X)
+        // 33 bytes: public key data (0x00 + A)
+
+            let A: Buffer;
+            if (version === network.publicKeyPrefix) {
+                if (buffer.readUInt8(45) !== 0x00) {
+                    throw new TypeError('Public key must be prepended by 0x00.');
+                }
 
-            // extract public key (33 bytes)
-            const X = buffer.slice(45, 78);
+                // extract public key (32 bytes)
+                A = buffer.slice(46, 78);
+            }
+            else {
+                // legacy payloads (before v0.5.0) store A at offset 45
+                A = buffer.slice(45, 77);
+            }
 
-            // X = publicKey
-            hd = new NodeEd25519(undefined, X, chainCode, network, depth, index, parentFingerprint);
+            // A = publicKey
+            hd = new NodeEd25519(undefined, A, chainCode, network, depth, index, parentFingerprint, macType);
         }
 
         return hd;
@@ -255,6 +336,7 @@ export class NodeEd25519 extends DeterministicKey implements NodeInterface {
             this.getDepth(),
             this.getIndex(),
             this.getParentFingerprint(),
+            this.macType,
         );
     }
 
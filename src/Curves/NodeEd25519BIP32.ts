@@ -0,0 +1,604 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+const bs58check = require('bs58check');
+
+// internal dependencies
+import {
+    NodeInterface,
+    Network,
+    Cryptography,
+    CatapultECC,
+    DeterministicKey,
+    MACType,
+    MACImpl,
+} from '../../index';
+
+/**
+ * The order of the ed25519 base point (little-endian).
+ * @var {Buffer}
+ */
+const CURVE_ORDER = Buffer.from('edd3f55c1a631258d69cf7a2def9de1400000000000000000000000000000010', 'hex');
+
+/**
+ * Return whether the scalar `k` (32 bytes, little-endian) is a
+ * multiple of the curve order.
+ *
+ * @param   k   {Buffer}
+ * @return  {boolean}
+ */
+const isMultipleOfOrder = (
+    k: Buffer
+): boolean => {
+    // k is smaller than 2^255 < 16 * order, subtract the order until below
+    let remainder = Buffer.from(k);
+    while (compareLE(remainder, CURVE_ORDER) >= 0) {
+        remainder = subtractLE(remainder, CURVE_ORDER);
+    }
+
+    return remainder.every((byte) => byte === 0);
+};
+
+/**
+ * Compare little-endian integers `a` and `b` of the same size.
+ *
+ * @param   a   {Buffer}
+ * @param   b   {Buffer}
+ * @return  {number}    Negative, zero or positive.
+ */
+const compareLE = (
+    a: Buffer,
+    b: Buffer
+): number => {
+    for (let i = a.length - 1; i >= 0; i--) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+
+    return 0;
+};
+
+/**
+ * Subtract little-endian integer `b` from `a` (with `a` >= `b`).
+ *
+ * @param   a   {Buffer}
+ * @param   b   {Buffer}
+ * @return  {Buffer}
+ */
+const subtractLE = (
+    a: Buffer,
+    b: Buffer
+): Buffer => {
+    const result = Buffer.alloc(a.length);
+    let borrow = 0;
+    for (let i = 0; i < a.length; i++) {
+        const difference = a[i] - b[i] - borrow;
+        borrow = difference < 0 ? 1 : 0;
+        result[i] = difference & 0xff;
+    }
+
+    return result;
+};
+
+/**
+ * Add little-endian integers `8 * zL` (28 bytes) and `kL` (32 bytes).
+ *
+ * @param   zL  {Buffer}
+ * @param   kL  {Buffer}
+ * @return  {Buffer}
+ */
+const add28Mul8 = (
+    zL: Buffer,
+    kL: Buffer
+): Buffer => {
+    const result = Buffer.alloc(32);
+    let carry = 0;
+    for (let i = 0; i < 32; i++) {
+        const z = i < 28 ? zL[i] : 0;
+        const previous = i > 0 && i <= 28 ? zL[i - 1] : 0;
+        const sum = kL[i] + ((z << 3) & 0xff) + (previous >> 5) + carry;
+        result[i] = sum & 0xff;
+        carry = sum >> 8;
+    }
+
+    return result;
+};
+
+/**
+ * Add little-endian integers `a` and `b` (32 bytes) modulo 2^256.
+ *
+ * @param   a   {Buffer}
+ * @param   b   {Buffer}
+ * @return  {Buffer}
+ */
+const add256 = (
+    a: Buffer,
+    b: Buffer
+): Buffer => {
+    const result = Buffer.alloc(32);
+    let carry = 0;
+    for (let i = 0; i < 32; i++) {
+        const sum = a[i] + b[i] + carry;
+        result[i] = sum & 0xff;
+        carry = sum >> 8;
+    }
+
+    return result;
+};
+
+/**
+ * Serialize `index` in little-endian (4 bytes).
+ *
+ * @param   index   {number}
+ * @return  {Buffer}
+ */
+const serializeIndex = (
+    index: number
+): Buffer => {
+    const indexBuffer = Buffer.allocUnsafe(4);
+    indexBuffer.writeUInt32LE(index, 0);
+    return indexBuffer;
+};
+
+/**
+ * Implementation of the private child key derivation of
+ * BIP32-Ed25519 (private parent key -> private child key).
+ *
+ * Hardened children use `0x00 || kL || kR || index`, other children
+ * use `0x02 || A || index` with `A` the parent public key. Chain codes
+ * use the prefixes `0x01` and `0x03` respectively.
+ *
+ * @see https://cardanolaunch.com/assets/Ed25519_BIP.pdf
+ * @param   parent      {NodeEd25519BIP32}
+ * @param   index       {number}
+ * @return  {NodeEd25519BIP32}
+ * @throws  {Error}     On child key multiple of the curve order.
+ */
+const CKDPriv = (
+    parent: NodeEd25519BIP32,
+    index: number
+): NodeEd25519BIP32 => {
+    const kL = parent.privateKey.slice(0, 32);
+    const kR = parent.privateKey.slice(32);
+    const isHardened = index >= NodeEd25519BIP32.HIGHEST_BIT;
+
+    const data = isHardened ? Buffer.concat([parent.privateKey, serializeIndex(index)])
+                            : Buffer.concat([parent.publicKey, serializeIndex(index)]);
+
+    const Z = MACImpl.create(parent.macType, parent.chainCode, Buffer.concat([Buffer.from([isHardened ? 0x00 : 0x02]), data]));
+    const C = MACImpl.create(parent.macType, parent.chainCode, Buffer.concat([Buffer.from([isHardened ? 0x01 : 0x03]), data]));
+
+    // kL' = 8 * ZL + kL ; kR' = ZR + kR (mod 2^256)
+    const childKL = add28Mul8(Z.slice(0, 28), kL);
+    const childKR = add256(Z.slice(32), kR);
+
+    if (isMultipleOfOrder(childKL)) {
+        throw new Error('Invalid child key at index ' + index + ', please use the next index.');
+    }
+
+    return new NodeEd25519BIP32(
+        Buffer.concat([childKL, childKR]),
+        undefined,
+        C.slice(32),
+        parent.network,
+        parent.getDepth() + 1,
+        index,
+        parent.fingerprint.readUInt32BE(0),
+        parent.macType
+    );
+};
+
+/**
+ * Implementation of the public child key derivation of
+ * BIP32-Ed25519 (public parent key -> public child key).
+ *
+ * The child public key is `A + 8 * ZL * B` with `B` the base
+ * point, it is equal to the public key of the private child.
+ *
+ * @see https://cardanolaunch.com/assets/Ed25519_BIP.pdf
+ * @param   parent      {NodeEd25519BIP32}
+ * @param   index       {number}
+ * @return  {NodeEd25519BIP32}
+ * @throws  {Error}     On child key equal to the identity point.
+ */
+const CKDPub = (
+    parent: NodeEd25519BIP32,
+    index: number
+): NodeEd25519BIP32 => {
+    const data = Buffer.concat([parent.publicKey, serializeIndex(index)]);
+    const Z = MACImpl.create(parent.macType, parent.chainCode, Buffer.concat([Buffer.from([0x02]), data]));
+    const C = MACImpl.create(parent.macType, parent.chainCode, Buffer.concat([Buffer.from([0x03]), data]));
+
+    // A' = A + 8 * ZL * B
+    const scalar = add28Mul8(Z.slice(0, 28), Buffer.alloc(32));
+    const publicKey = Buffer.from(CatapultECC.addScalarMultBase(parent.publicKey, scalar));
+
+    if (publicKey.equals(NodeEd25519BIP32.IDENTITY)) {
+        throw new Error('Invalid child key at index ' + index + ', please use the next index.');
+    }
+
+    return new NodeEd25519BIP32(
+        undefined,
+        publicKey,
+        C.slice(32),
+        parent.network,
+        parent.getDepth() + 1,
+        index,
+        parent.fingerprint.readUInt32BE(0),
+        parent.macType
+    );
+};
+
+/**
+ * Class `NodeEd25519BIP32` describes a hyper-deterministic node
+ * implementation of BIP32-Ed25519 as described in following paper
+ * by Khovratovich and Law:
+ *
+ *     https://cardanolaunch.com/assets/Ed25519_BIP.pdf
+ *
+ * Contrary to `NodeEd25519` (SLIP-10), this scheme permits
+ * non-hardened child key derivation with extended public keys,
+ * which is needed for watch-only wallets.
+ *
+ * The scheme is adapted to Catapult's SHA3 key expansion: the master
+ * extended private key `kL || kR` is the SHA3-512 hash of the 32 bytes
+ * master key, with `kL` clamped. The master public key is therefore
+ * the Catapult public key of the master key. Child extended private
+ * keys have no 32 bytes private key, `privateKey` holds `kL || kR`
+ * (64 bytes) and signatures are created with the expanded key.
+ *
+ * Extended private keys are serialized on 110 bytes with the private
+ * key field `0x00 || kL || kR`, extended public keys on 78 bytes with
+ * the public key field `0x00 || A`.
+ *
+ * @see https://cardanolaunch.com/assets/Ed25519_BIP.pdf
+ * @see https://github.com/satoshilabs/slips/blob/master/slip-0010.md
+ * @since 0.5.0
+ */
+export class NodeEd25519BIP32 extends DeterministicKey implements NodeInterface {
+
+    /**
+     * Hardened key derivation uses HIGHEST_BIT.
+     * @var number
+     */
+    public static readonly HIGHEST_BIT = 0x80000000;
+
+    /**
+     * Encoding of the identity point of the ed25519 curve.
+     * @var {Buffer}
+     */
+    public static readonly IDENTITY = Buffer.concat([Buffer.from([0x01]), Buffer.alloc(31)]);
+
+    /**
+     * Construct a `NodeEd25519BIP32` object.
+     *
+     * @param privateKey        {Buffer|undefined}  The extended private key `kL || kR` of the node (64 bytes).
+     * @param publicKey         {Buffer|undefined}  The public key of the node.
+     * @param chainCode         {Buffer}            The chain code of the node (32 bytes).
+     * @param network           {Network}           The network of the node, defaults to `Network.CATAPULT_ED25519_BIP32`.
+     * @param depth             {number}            The depth of the node (0 for master).
+     * @param index             {number}            The account index (0 for master).
+     * @param parentFingerprint {number}            The parent fingerprint (0x00000000 for master)
+     * @param macType           {MACType}           The MAC type of child key derivation, defaults to `MACType.HMAC`.
+     */
+    public constructor(
+        privateKey: Buffer | undefined,
+        publicKey: Buffer | undefined,
+        chainCode: Buffer,
+        network: Network = Network.CATAPULT_ED25519_BIP32,
+        depth: number = 0,
+        index: number = 0,
+        parentFingerprint: number = 0x00000000,
+        /**
+         * The Message Authentication Code type of child key derivation.
+         * @var {MACType}
+         */
+        public readonly macType: MACType = MACType.HMAC
+    ) {
+        super(privateKey, publicKey, chainCode, network, depth, index, parentFingerprint);
+    }
+
+    /**
+     * Create a hyper-deterministic BIP32-Ed25519 node from a
+     * binary seed.
+     *
+     * The 32 bytes master key and the chain code are created like
+     * SLIP-10 ed25519 master keys. When the third highest bit of
+     * the expanded `kL` is set, the MAC is applied again on its'
+     * own output until a valid master key is found.
+     *
+     * @param   seed    {Buffer}
+     * @param   network {Network}
+     * @param   macType {MACType}
+     * @return  {NodeEd25519BIP32}
+     */
+    public static fromSeed(
+        seed: Buffer,
+        network: Network = Network.CATAPULT_ED25519_BIP32,
+        macType: MACType = MACType.HMAC
+    ): NodeEd25519BIP32 {
+
+        if (seed.length < 16) throw new TypeError('Seed should be at least 128 bits');
+        if (seed.length > 64) throw new TypeError('Seed should be at most 512 bits');
+
+        let I = MACImpl.create(macType, Buffer.from('ed25519 seed', 'utf8'), seed);
+        let k = Buffer.from(Cryptography.sha3Hash(new Uint8Array(64), I.slice(0, 32)));
+        while (k[31] & 0x20) {
+            I = MACImpl.create(macType, Buffer.from('ed25519 seed', 'utf8'), I);
+            k = Buffer.from(Cryptography.sha3Hash(new Uint8Array(64), I.slice(0, 32)));
+        }
+
+        // clamp kL like Catapult private keys
+        k[0] &= 248;
+        k[31] &= 127;
+        k[31] |= 64;
+
+        return new NodeEd25519BIP32(k, undefined, I.slice(32), network, 0, 0, 0x00000000, macType);
+    }
+
+    /**
+     * Decode a base58 extended key payload into its'
+     * `NodeEd25519BIP32` object representation.
+     *
+     * @param   inString    {string}    The base58 payload of the extended key.
+     * @param   network     {Network}   (Optional) The network of the key, default to `Network.CATAPULT_ED25519_BIP32`.
+     * @param   macType     {MACType}   (Optional) The MAC type of child key derivation, default to `MACType.HMAC`.
+     * @return  {NodeEd25519BIP32}
+     */
+    public static fromBase58(
+        inString: string,
+        network: Network = Network.CATAPULT_ED25519_BIP32,
+        macType: MACType = MACType.HMAC,
+    ): NodeEd25519BIP32 {
+
+        // decode base58
+        const buffer = bs58check.decode(inString);
+        const version = buffer.readUInt32BE(0);
+
+        if (version !== network.privateKeyPrefix
+         && version !== network.publicKeyPrefix) {
+            throw new TypeError('Payload Version must be one of: ' + network.privateKeyPrefix
+                              + ' or ' + network.publicKeyPrefix + '.');
+        }
+
+        const isPrivate = version === network.privateKeyPrefix;
+        const expected = isPrivate ? 110 : 78;
+        if (buffer.length !== expected) {
+            throw new TypeError('Base58 payload must be exactly ' + expected + ' bytes, but got: ' + buffer.length + ' bytes.');
+        }
+
+        // 1 byte: depth ; 4 bytes: parent fingerprint ; 4 bytes: index
+        const depth = buffer[4];
+        const parentFingerprint = buffer.readUInt32BE(5);
+        const index = buffer.readUInt32BE(9);
+
+        if (depth === 0 && (parentFingerprint !== 0x00000000 || index !== 0)) {
+            throw new TypeError('Expected master node with parentFingerprint and index 0 given depth 0.');
+        }
+
+        // 32 bytes: the chain code
+        const chainCode = buffer.slice(13, 45);
+
+        if (buffer.readUInt8(45) !== 0x00) {
+            throw new TypeError('Key data must be prepended by 0x00.');
+        }
+
+        if (isPrivate) {
+            // 65 bytes: 0x00 || kL || kR
+            return new NodeEd25519BIP32(buffer.slice(46, 110), undefined, chainCode, network, depth, index, parentFingerprint, macType);
+        }
+
+        // 33 bytes: 0x00 || A
+        if (! CatapultECC.isValidPublicKey(buffer.slice(46, 78))) {
+            throw new TypeError('Public key must be a valid ed25519 point other than the identity.');
+        }
+
+        return new NodeEd25519BIP32(undefined, buffer.slice(46, 78), chainCode, network, depth, index, parentFingerprint, macType);
+    }
+
+    /**
+     * Getter for the `publicKey` of the key.
+     *
+     * The public key is `kL * B`, `kL` is not hashed.
+     *
+     * @access public
+     * @return {Buffer}
+     */
+    public get publicKey(): Buffer {
+
+        if (this.getQ() !== undefined) {
+            return this.getQ()!;
+        }
+
+        return Buffer.from(CatapultECC.scalarMultBase(this.privateKey.slice(0, 32)));
+    }
+
+    /**
+     * Get the neutered node.
+     *
+     * @access public
+     * @return {NodeInterface}
+     */
+    public neutered(): NodeInterface {
+        return new NodeEd25519BIP32(
+            undefined,
+            this.publicKey,
+            this.chainCode,
+            this.network,
+            this.getDepth(),
+            this.getIndex(),
+            this.getParentFingerprint(),
+            this.macType,
+        );
+    }
+
+    /**
+     * Generic child derivation.
+     *
+     * Path levels ending with `'` use hardened derivation, other
+     * levels use non-hardened derivation which is also available
+     * with neutered nodes.
+     *
+     * @param   path    {string}
+     * @return  {NodeInterface}
+     */
+    public derivePath(
+        path: string
+    ): NodeInterface {
+        if (! this.isValidPath(path)) {
+            throw new TypeError('Invalid BIP32 derivation path provided.');
+        }
+
+        let splitPath = path.split('/');
+
+        // check whether current node is a master node,
+        // if not: "m/" derivation is not possible.
+        if (splitPath[0] === 'm' && this.getParentFingerprint()) {
+            throw new TypeError('Expected master node with "m" derivation, but got child with parentFingerprint.');
+        }
+
+        // drop first level path "m"
+        if (splitPath[0] === 'm') {
+            splitPath = splitPath.slice(1);
+        }
+
+        return splitPath.reduce(
+            (prevHd, indexStr) => {
+                const index = parseInt(indexStr.replace(/'$/, ''), 10);
+                return /'$/.test(indexStr) ? prevHd.deriveHardened(index) : prevHd.derive(index);
+            },
+            this as NodeInterface,
+        );
+    }
+
+    /**
+     * Hardened child derivation (derives private key).
+     *
+     * @internal Do not use this method directly, please use the `derivePath()` method instead.
+     * @param   index   {number}
+     * @return  {NodeInterface}
+     */
+    public deriveHardened(
+        index: number
+    ): NodeInterface {
+        if (index >= NodeEd25519BIP32.HIGHEST_BIT) {
+            throw new TypeError('Hardened derivation maximum index overflow.');
+        }
+
+        return this.derive(index + NodeEd25519BIP32.HIGHEST_BIT);
+    }
+
+    /**
+     * Derive a child node with `index`.
+     *
+     * Extended private keys derive extended private keys with
+     * `CKDPriv`, extended public keys derive non-hardened extended
+     * public keys with `CKDPub`.
+     *
+     * @internal Do not use this method directly, please use the `derivePath()` method instead.
+     * @param   index   {number}
+     * @return  {NodeInterface}
+     */
+    public derive(
+        index: number
+    ): NodeInterface {
+        if (index >= NodeEd25519BIP32.HIGHEST_BIT && this.isNeutered()) {
+            throw new TypeError('Missing private key for hardened child key derivation.');
+        }
+
+        if (! this.isNeutered()) {
+            return CKDPriv(this, index);
+        }
+
+        return CKDPub(this, index);
+    }
+
+    /**
+     * Sign binary data with current node.
+     *
+     * Uses the expanded private key `kL || kR` with
+     * Catapult's SHA3-512 signature scheme.
+     *
+     * @param   hash    {Buffer}    The binary data to sign.
+     * @return  {Buffer}
+     */
+    public sign(
+        hash: Buffer
+    ): Buffer {
+        const hasher = Cryptography.createSha3Hasher(64);
+        const signature = CatapultECC.signExpanded(hash, this.publicKey, this.privateKey, hasher);
+
+        return Buffer.from(signature);
+    }
+
+    /**
+     * Verify a signature `signature` for data
+     * `hash` with the current node.
+     *
+     * @param   hash        {Buffer}    The binary data that was supposedly signed.
+     * @param   signature   {Buffer}    The signature binary data that needs to be verified.
+     * @return  {boolean}   Returns true for a valid signature, false otherwise.
+     */
+    public verify(
+        hash: Buffer,
+        signature: Buffer
+    ): boolean {
+        const hasher = Cryptography.createSha3Hasher(64);
+        return CatapultECC.verify(this.publicKey, hash, signature, hasher);
+    }
+
+    /**
+     * Get the Base58 representation of said key.
+     *
+     * Extended private keys are laid on 110 bytes (`0x00 || kL || kR`),
+     * extended public keys on 78 bytes (`0x00 || A`).
+     *
+     * @access  public
+     * @return  {string}
+     */
+    public toBase58(): string {
+        const keyData = this.isNeutered() ? this.publicKey : this.privateKey;
+        const buffer = Buffer.alloc(46 + keyData.length);
+
+        buffer.writeUInt32BE(this.isNeutered() ? this.network.publicKeyPrefix : this.network.privateKeyPrefix, 0);
+        buffer.writeUInt8(this.getDepth(), 4);
+        buffer.writeUInt32BE(this.getParentFingerprint(), 5);
+        buffer.writeUInt32BE(this.getIndex(), 9);
+        this.chainCode.copy(buffer, 13);
+        buffer.writeUInt8(0, 45);
+        keyData.copy(buffer, 46);
+
+        return bs58check.encode(buffer);
+    }
+
+    /**
+     * Validate a BIP32/BIP44 path by regular expression.
+     *
+     * @see https://github.com/bitcoinjs/bip32/blob/master/src/bip32.js#L26
+     * @param   path    {string}
+     * @return  {boolean}
+     */
+    protected isValidPath(
+        path: string
+    ): boolean {
+        return path.match(/^(m\/)?(\d+'?\/)*\d+'?$/) !== null;
+    }
+}
@@ -0,0 +1,493 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+const bs58check = require('bs58check');
+const EC = require('elliptic').ec;
+
+// internal dependencies
+import {
+    NodeInterface,
+    Network,
+    DeterministicKey,
+    MACType,
+    MACImpl,
+} from '../../index';
+
+/**
+ * The NIST P-256 elliptic curve (also known as secp256r1
+ * or prime256v1).
+ * @var {Object}
+ */
+const p256 = new EC('p256');
+
+/**
+ * Interface `BN` describes the methods of the `bn.js` big
+ * numbers of `elliptic` used for scalar arithmetic.
+ */
+interface BN {
+    add(b: BN): BN;
+    umod(b: BN): BN;
+    cmp(b: BN): number;
+    isZero(): boolean;
+    toArrayLike(type: typeof Buffer, endian: 'be' | 'le', length: number): Buffer;
+}
+
+/**
+ * Read the big-endian scalar `buffer`.
+ *
+ * @param   buffer  {Buffer}
+ * @return  {BN}    The big number.
+ */
+const toScalar = (
+    buffer: Buffer
+): BN => {
+    return new p256.n.constructor(buffer);
+};
+
+/**
+ * Return the scalar `IL` of the MAC output `I` when it is
+ * a valid tweak, or `undefined` when it is not smaller than
+ * the curve order.
+ *
+ * @param   I   {Buffer}
+ * @return  {BN|undefined}
+ */
+const readTweak = (
+    I: Buffer
+): BN | undefined => {
+    const IL = toScalar(I.slice(0, 32));
+    return IL.cmp(p256.n) < 0 ? IL : undefined;
+};
+
+/**
+ * Implementation of the CKDPriv() and CKDPub() functions as described
+ * in SLIP-10 for the nist256p1 curve.
+ *
+ * Difference to BIP32:
+ *  - When the resulting key is invalid, the MAC is computed again
+ *    with `0x01 || IR || index` instead of skipping to the next index.
+ *
+ * The child node inherits the network and MAC type of `parent`,
+ * its' depth is incremented and its' parent fingerprint is the
+ * fingerprint of `parent`.
+ *
+ * @see https://github.com/satoshilabs/slips/blob/master/slip-0010.md
+ * @param   parent      {NodeNist256p1}
+ * @param   index       {number}
+ * @return  {NodeNist256p1}
+ */
+const CKD = (
+    parent: NodeNist256p1,
+    index: number
+): NodeNist256p1 => {
+    const isHardened = index >= NodeNist256p1.HIGHEST_BIT;
+    const indexBuffer = Buffer.allocUnsafe(4);
+    indexBuffer.writeUInt32BE(index, 0);
+
+    // 0x00 || privateKey || index for hardened children, publicKey || index otherwise
+    const data = isHardened ? Buffer.concat([Buffer.alloc(1, 0), parent.privateKey, indexBuffer])
+                            : Buffer.concat([parent.publicKey, indexBuffer]);
+
+    let I = MACImpl.create(parent.macType, parent.chainCode, data);
+    for (;;) {
+        const IR = I.slice(32);
+        const IL = readTweak(I);
+
+        if (IL !== undefined && ! parent.isNeutered()) {
+        // (1) Private parent key -> private child key
+
+            // k = IL + kpar (mod n)
+            const k = IL.add(toScalar(parent.privateKey)).umod(p256.n);
+            if (! k.isZero()) {
+                return new NodeNist256p1(
+                    k.toArrayLike(Buffer, 'be', 32),
+                    undefined,
+                    IR,
+                    parent.network,
+                    parent.getDepth() + 1,
+                    index,
+                    parent.fingerprint.readUInt32BE(0),
+                    parent.macType
+                );
+            }
+        }
+        else if (IL !== undefined) {
+        // (2) Public parent key -> public child key
+
+            // K = IL * G + Kpar
+            const K = p256.g.mul(IL).add(p256.keyFromPublic(parent.publicKey).getPublic());
+            if (! K.isInfinity()) {
+                return new NodeNist256p1(
+                    undefined,
+                    Buffer.from(K.encode('array', true)),
+                    IR,
+                    parent.network,
+                    parent.getDepth() + 1,
+                    index,
+                    parent.fingerprint.readUInt32BE(0),
+                    parent.macType
+                );
+            }
+        }
+
+        // invalid key, retry with 0x01 || IR || index
+        I = MACImpl.create(parent.macType, parent.chainCode, Buffer.concat([Buffer.alloc(1, 1), IR, indexBuffer]));
+    }
+};
+
+/**
+ * Class `NodeNist256p1` describes a hyper-deterministic BIP32 node
+ * implementation, compatible with the NIST P-256 EC-curve as described
+ * in SLIP-10.
+ *
+ * Contrary to ed25519 nodes, hardened and non-hardened child key
+ * derivation are both possible and signatures use ECDSA with
+ * deterministic nonces (RFC 6979).
+ *
+ * Extended keys are serialized with `Network.NIST256P1`, which uses
+ * the `nprv` and `npub` version bytes.
+ *
+ * @see https://github.com/satoshilabs/slips/blob/master/slip-0010.md
+ * @see https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki
+ * @since 0.5.0
+ */
+export class NodeNist256p1 extends DeterministicKey implements NodeInterface {
+
+    /**
+     * Hardened key derivation uses HIGHEST_BIT.
+     * @var number
+     */
+    public static readonly HIGHEST_BIT = 0x80000000;
+
+    /**
+     * Construct a `NodeNist256p1` object.
+     *
+     * @param privateKey        {Buffer|undefined}  The private key of the node.
+     * @param publicKey         {Buffer|undefined}  The compressed public key of the node (33 bytes).
+     * @param chainCode         {Buffer}            The chain code of the node (32 bytes).
+     * @param network           {Network}           The network of the node, defaults to `Network.NIST256P1`.
+     * @param depth             {number}            The depth of the node (0 for master).
+     * @param index             {number}            The account index (0 for master).
+     * @param parentFingerprint {number}            The parent fingerprint (0x00000000 for master)
+     * @param macType           {MACType}           The MAC type of child key derivation, defaults to `MACType.HMAC`.
+     */
+    public constructor(
+        privateKey: Buffer | undefined,
+        publicKey: Buffer | undefined,
+        chainCode: Buffer,
+        network: Network = Network.NIST256P1,
+        depth: number = 0,
+        index: number = 0,
+        parentFingerprint: number = 0x00000000,
+        /**
+         * The Message Authentication Code type of child key derivation.
+         * @var {MACType}
+         */
+        public readonly macType: MACType = MACType.HMAC
+    ) {
+        super(privateKey, publicKey, chainCode, network, depth, index, parentFingerprint);
+    }
+
+    /**
+     * Create a hyper-deterministic nist256p1 node from a
+     * binary seed.
+     *
+     * When the master private key is zero or not smaller than
+     * the curve order, the MAC is applied again on its' own
+     * output.
+     *
+     * @see https://github.com/satoshilabs/slips/blob/master/slip-0010.md#master-key-generation
+     * @param   seed    {Buffer}
+     * @param   network {Network}
+     * @param   macType {MACType}
+     * @return  {NodeNist256p1}
+     */
+    public static fromSeed(
+        seed: Buffer,
+        network: Network = Network.NIST256P1,
+        macType: MACType = MACType.HMAC
+    ): NodeNist256p1 {
+
+        if (seed.length < 16) throw new TypeError('Seed should be at least 128 bits');
+        if (seed.length > 64) throw new TypeError('Seed should be at most 512 bits');
+
+        let I = MACImpl.create(macType, Buffer.from('Nist256p1 seed', 'utf8'), seed);
+        let IL = readTweak(I);
+        while (IL === undefined || IL.isZero()) {
+            I = MACImpl.create(macType, Buffer.from('Nist256p1 seed', 'utf8'), I);
+            IL = readTweak(I);
+        }
+
+        // IL = privateKey ; IR = chainCode
+        return new NodeNist256p1(I.slice(0, 32), undefined, I.slice(32), network, 0, 0, 0x00000000, macType);
+    }
+
+    /**
+     * Decode a base58 extended key payload into its'
+     * `NodeNist256p1` object representation.
+     *
+     * Private keys must be smaller than the curve order and
+     * public keys must be valid compressed curve points.
+     *
+     * @see https://github.com/bitcoinjs/bip32/blob/master/ts-src/bip32.ts#L286
+     * @param   inString    {string}    The base58 payload of the extended key.
+     * @param   network     {Network}   (Optional) The network of the key, default to `Network.NIST256P1`.
+     * @param   macType     {MACType}   (Optional) The MAC type of child key derivation, default to `MACType.HMAC`.
+     * @return  {NodeNist256p1}
+     */
+    public static fromBase58(
+        inString: string,
+        network: Network = Network.NIST256P1,
+        macType: MACType = MACType.HMAC,
+    ): NodeNist256p1 {
+
+        // decode base58
+        const buffer = bs58check.decode(inString);
+        if (buffer.length !== 78) {
+            throw new TypeError('Base58 payload must be exactly 78 bytes, but got: ' + buffer.length + ' bytes.');
+        }
+
+        // 4 bytes: version bytes
+        const version = buffer.readUInt32BE(0);
+        if (version !== network.privateKeyPrefix && version !== network.publicKeyPrefix) {
+            throw new TypeError('Payload Version must be one of: ' + network.privateKeyPrefix
+                              + ' or ' + network.publicKeyPrefix + '.');
+        }
+
+        // 1 byte: depth ; 4 bytes: parent fingerprint ; 4 bytes: index
+        const depth = buffer[4];
+        const parentFingerprint = buffer.readUInt32BE(5);
+        const index = buffer.readUInt32BE(9);
+
+        if (depth === 0 && parentFingerprint !== 0x00000000) {
+            throw new TypeError('Expected master node but got child with parentFingerprint: ' + parentFingerprint + '.');
+        }
+
+        if (depth === 0 && index !== 0) {
+            throw new TypeError('Expected index 0 with depth 0 but got index: ' + index + '.');
+        }
+
+        // 32 bytes: the chain code
+        const chainCode = buffer.slice(13, 45);
+
+        if (version === network.privateKeyPrefix) {
+        // 33 bytes: private key data (0x00 + k)
+
+            if (buffer.readUInt8(45) !== 0x00) {
+                throw new TypeError('Private key must start be prepended by 0x00.');
+            }
+
+            const k = buffer.slice(46, 78);
+            const d = toScalar(k);
+            if (d.isZero() || d.cmp(p256.n) >= 0) {
+                throw new TypeError('Private key must be in range [1, n - 1].');
+            }
+
+            return new NodeNist256p1(k, undefined, chainCode, network, depth, index, parentFingerprint, macType);
+        }
+
+        // 33 bytes: public key data (0x02 + X or 0x03 + X)
+        const X = buffer.slice(45, 78);
+        if (X[0] !== 0x02 && X[0] !== 0x03) {
+            throw new TypeError('Public key must be a compressed point.');
+        }
+
+        try {
+            if (! p256.keyFromPublic(X).validate().result) {
+                throw new TypeError();
+            }
+        }
+        catch (e) {
+            throw new TypeError('Public key must be a point of the nist256p1 curve.');
+        }
+
+        return new NodeNist256p1(undefined, X, chainCode, network, depth, index, parentFingerprint, macType);
+    }
+
+    /**
+     * Getter for the `publicKey` of the key.
+     *
+     * Public keys are compressed points (33 bytes).
+     *
+     * @access public
+     * @return {Buffer}
+     */
+    public get publicKey(): Buffer {
+
+        if (this.getQ() !== undefined) {
+            return this.getQ()!;
+        }
+
+        return Buffer.from(p256.keyFromPrivate(this.privateKey).getPublic(true, 'array'));
+    }
+
+    /**
+     * Get the neutered node.
+     *
+     * @access public
+     * @return {NodeInterface}
+     */
+    public neutered(): NodeInterface {
+        return new NodeNist256p1(
+            undefined,
+            this.publicKey,
+            this.chainCode,
+            this.network,
+            this.getDepth(),
+            this.getIndex(),
+            this.getParentFingerprint(),
+            this.macType,
+        );
+    }
+
+    /**
+     * Generic child derivation.
+     *
+     * Path levels ending with `'` use hardened derivation, other
+     * levels use non-hardened derivation.
+     *
+     * Derivation paths starting with `m/` are only possible
+     * with master nodes (for example created from seed).
+     *
+     * @param   path    {string}
+     * @return  {NodeInterface}
+     */
+    public derivePath(
+        path: string
+    ): NodeInterface {
+        if (! this.isValidPath(path)) {
+            throw new TypeError('Invalid BIP32 derivation path provided.');
+        }
+
+        let splitPath = path.split('/');
+
+        // check whether current node is a master node,
+        // if not: "m/" derivation is not possible.
+        if (splitPath[0] === 'm' && this.getParentFingerprint()) {
+            throw new TypeError('Expected master node with "m" derivation, but got child with parentFingerprint.');
+        }
+
+        // drop first level path "m"
+        if (splitPath[0] === 'm') {
+            splitPath = splitPath.slice(1);
+        }
+
+        return splitPath.reduce(
+            (prevHd, indexStr) => {
+                const index = parseInt(indexStr.replace(/'$/, ''), 10);
+                return /'$/.test(indexStr) ? prevHd.deriveHardened(index) : prevHd.derive(index);
+            },
+            this as NodeInterface,
+        );
+    }
+
+    /**
+     * Hardened child derivation (derives private key).
+     *
+     * @internal Do not use this method directly, please use the `derivePath()` method instead.
+     * @param   index   {number}
+     * @return  {NodeInterface}
+     */
+    public deriveHardened(
+        index: number
+    ): NodeInterface {
+        if (index >= NodeNist256p1.HIGHEST_BIT) {
+            throw new TypeError('Hardened derivation maximum index overflow.');
+        }
+
+        return this.derive(index + NodeNist256p1.HIGHEST_BIT);
+    }
+
+    /**
+     * Derive a child node with `index`.
+     *
+     * When the node is *not neutered*, an extended private
+     * key will be created and when the node is *neutered*,
+     * an extended public key will be created.
+     *
+     * @internal Do not use this method directly, please use the `derivePath()` method instead.
+     * @param   index   {number}
+     * @return  {NodeInterface}
+     */
+    public derive(
+        index: number
+    ): NodeInterface {
+        if (index >= NodeNist256p1.HIGHEST_BIT && this.isNeutered()) {
+            throw new TypeError('Missing private key for hardened child key derivation.');
+        }
+
+        return CKD(this, index);
+    }
+
+    /**
+     * Sign binary data with current node.
+     *
+     * Uses ECDSA with deterministic nonces (RFC 6979) and low-S
+     * normalization. The signature is laid on 64 bytes (`r || s`).
+     *
+     * @param   hash    {Buffer}    The binary data to sign (32 bytes).
+     * @return  {Buffer}
+     */
+    public sign(
+        hash: Buffer
+    ): Buffer {
+        const signature = p256.keyFromPrivate(this.privateKey).sign(hash, {canonical: true});
+
+        return Buffer.concat([
+            signature.r.toArrayLike(Buffer, 'be', 32),
+            signature.s.toArrayLike(Buffer, 'be', 32),
+        ]);
+    }
+
+    /**
+     * Verify a signature `signature` for data
+     * `hash` with the current node.
+     *
+     * @param   hash        {Buffer}    The binary data that was supposedly signed.
+     * @param   signature   {Buffer}    The signature binary data that needs to be verified (64 bytes).
+     * @return  {boolean}   Returns true for a valid signature, false otherwise.
+     */
+    public verify(
+        hash: Buffer,
+        signature: Buffer
+    ): boolean {
+        if (signature.byteLength !== 64) {
+            return false;
+        }
+
+        return p256.keyFromPublic(this.publicKey).verify(hash, {
+            r: signature.slice(0, 32),
+            s: signature.slice(32),
+        });
+    }
+
+    /**
+     * Validate a BIP32/BIP44 path by regular expression.
+     *
+     * @see https://github.com/bitcoinjs/bip32/blob/master/src/bip32.js#L26
+     * @param   path    {string}
+     * @return  {boolean}
+     */
+    protected isValidPath(
+        path: string
+    ): boolean {
+        return path.match(/^(m\/)?(\d+'?\/)*\d+'?$/) !== null;
+    }
+}
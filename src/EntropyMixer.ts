@@ -0,0 +1,295 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {
+    createHmac,
+    randomBytes,
+} from 'crypto';
+
+// internal dependencies
+import {
+    MnemonicPassPhrase,
+} from '../index';
+
+/**
+ * Interface `EntropySource` describes a named source of
+ * random bytes.
+ */
+export interface EntropySource {
+    name: string;
+    read: (size: number) => Buffer;
+}
+
+/**
+ * Interface `EntropySourceRecord` describes the contribution of
+ * a source to a mix: the number of bytes, or the error if the
+ * source failed.
+ */
+export interface EntropySourceRecord {
+    name: string;
+    bytes: number;
+    error: string | null;
+}
+
+/**
+ * Interface `EntropyMixRecord` describes an auditable record
+ * of one call to `EntropyMixer.read()`.
+ */
+export interface EntropyMixRecord {
+    extractor: string;
+    size: number;
+    sources: EntropySourceRecord[];
+}
+
+/**
+ * Name of the extractor in records.
+ * @var {string}
+ */
+const EXTRACTOR = 'hkdf-hmac-sha512';
+
+/**
+ * Salt of the HKDF extraction step.
+ * @var {Buffer}
+ */
+const EXTRACT_SALT = Buffer.from('nem2-hd-wallets entropy mixer', 'utf8');
+
+/**
+ * Encode `data` with a 4 bytes big-endian length prefix.
+ *
+ * @param   data    {Buffer}
+ * @return  {Buffer}
+ */
+const lengthPrefixed = (
+    data: Buffer
+): Buffer => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length, 0);
+    return Buffer.concat([length, data]);
+};
+
+/**
+ * Class `EntropyMixer` combines several entropy sources with a hash
+ * based extractor, such that a single compromised or broken source
+ * does not weaken the result as long as one source is good.
+ *
+ * Each source is read for the requested number of bytes (user supplied
+ * entropy is used as is). The contributions are length-prefixed with
+ * the source name and concatenated as input keying material of HKDF
+ * with HMAC-SHA512 (RFC 5869). The requested size is bound to the
+ * extraction, such that reads of different sizes are independent.
+ *
+ * Each call to `read()` adds a record of the contributing sources to
+ * `getRecords()`: only the name and number of bytes of each source.
+ * Records hold neither the bytes nor a hash of the bytes, because the
+ * hash of low entropy user input (e.g. few dice rolls or a typed phrase)
+ * can be brute-forced.
+ *
+ * By default, `nem2-sdk`'s `Crypto.randomBytes` (`CATAPULT_RNG`) and
+ * Node's `crypto.randomBytes` are used.
+ *
+ * @example Usage of entropy mixers
+ *
+ * ```typescript
+ * const mixer = new EntropyMixer();
+ * mixer.addEntropy('dice', '3615242...');
+ *
+ * const mnemonic = MnemonicPassPhrase.createRandom('english', 256, mixer.toRng());
+ * const records = mixer.getRecords();
+ * ```
+ *
+ * @see https://tools.ietf.org/html/rfc5869
+ * @since 0.5.0
+ */
+export class EntropyMixer {
+
+    /**
+     * Random number generator of `nem2-sdk` (`MnemonicPassPhrase.CATAPULT_RNG`).
+     * @var {EntropySource}
+     */
+    public static readonly CATAPULT_SOURCE: EntropySource = {
+        name: 'nem2-sdk',
+        read: (size: number) => MnemonicPassPhrase.CATAPULT_RNG(size),
+    };
+
+    /**
+     * Random number generator of Node.js (`crypto.randomBytes`).
+     * @var {EntropySource}
+     */
+    public static readonly NODE_SOURCE: EntropySource = {
+        name: 'node-crypto',
+        read: (size: number) => randomBytes(size),
+    };
+
+    /**
+     * The entropy sources.
+     * @var {EntropySource[]}
+     */
+    protected readonly sources: EntropySource[] = [];
+
+    /**
+     * The records of all reads.
+     * @var {EntropyMixRecord[]}
+     */
+    protected readonly records: EntropyMixRecord[] = [];
+
+    /**
+     * Construct an `EntropyMixer` object.
+     *
+     * @param   sources     {EntropySource[]}   (Optional) The entropy sources.
+     * @param   minSources  {number}    (Optional) The number of sources which must not fail.
+     * @throws  {Error}     On duplicate source names.
+     */
+    constructor(sources: EntropySource[] = [
+                    EntropyMixer.CATAPULT_SOURCE,
+                    EntropyMixer.NODE_SOURCE,
+                ],
+                /**
+                 * The number of sources which must not fail.
+                 * @var {number}
+                 */
+                public readonly minSources: number = 2) {
+        sources.forEach((source) => this.addSource(source));
+    }
+
+    /**
+     * Add an entropy source.
+     *
+     * @param   source  {EntropySource}
+     * @return  {EntropyMixer}
+     * @throws  {Error}     On duplicate source name.
+     */
+    public addSource(
+        source: EntropySource
+    ): EntropyMixer {
+        if (this.sources.some((s) => s.name === source.name)) {
+            throw new Error('Entropy source "' + source.name + '" already exists.');
+        }
+
+        this.sources.push(source);
+        return this;
+    }
+
+    /**
+     * Add user supplied entropy, e.g. dice rolls or keyboard input,
+     * which is contributed as is to every read.
+     *
+     * @param   name    {string}
+     * @param   entropy {Buffer|string}     The entropy, strings are UTF-8 encoded.
+     * @return  {EntropyMixer}
+     * @throws  {Error}     On empty entropy or duplicate source name.
+     */
+    public addEntropy(
+        name: string,
+        entropy: Buffer | string
+    ): EntropyMixer {
+        const data = typeof entropy === 'string' ? Buffer.from(entropy, 'utf8') : Buffer.from(entropy);
+        if (!data.length) {
+            throw new Error('User supplied entropy must not be empty.');
+        }
+
+        return this.addSource({name: name, read: () => data});
+    }
+
+    /**
+     * Get the names of the entropy sources.
+     *
+     * @return  {string[]}
+     */
+    public getSources(): string[] {
+        return this.sources.map((source) => source.name);
+    }
+
+    /**
+     * Read `size` bytes mixed from all sources.
+     *
+     * @param   size    {number}    The number of bytes (1 to 16320).
+     * @return  {Buffer}
+     * @throws  {Error}     On invalid size, or when less than `minSources` sources succeed.
+     */
+    public read(
+        size: number
+    ): Buffer {
+        if (!(size >= 1 && size <= 255 * 64) || size % 1 !== 0) {
+            throw new Error('Invalid size of entropy: ' + size + '.');
+        }
+
+        const inputs: Buffer[] = [];
+        const record: EntropyMixRecord = {extractor: EXTRACTOR, size: size, sources: []};
+
+        this.sources.forEach((source) => {
+            try {
+                const data = source.read(size);
+                if (!Buffer.isBuffer(data) || !data.length) {
+                    throw new Error('Entropy source returned no data.');
+                }
+
+                inputs.push(lengthPrefixed(Buffer.from(source.name, 'utf8')), lengthPrefixed(data));
+                record.sources.push({
+                    name: source.name,
+                    bytes: data.length,
+                    error: null,
+                });
+            }
+            catch (e) {
+                record.sources.push({name: source.name, bytes: 0, error: e.message});
+            }
+        });
+
+        this.records.push(record);
+
+        const contributed = record.sources.filter((source) => source.error === null).length;
+        if (contributed < this.minSources) {
+            throw new Error('Not enough entropy sources: ' + contributed + ' of ' + this.minSources + ' required.');
+        }
+
+        // HKDF extract with the size bound to the salt, then expand
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(size, 0);
+        const prk = createHmac('sha512', Buffer.concat([EXTRACT_SALT, length])).update(Buffer.concat(inputs)).digest();
+
+        let block = Buffer.alloc(0);
+        const blocks: Buffer[] = [];
+        for (let i = 1; blocks.length * 64 < size; i++) {
+            block = createHmac('sha512', prk).update(Buffer.concat([block, Buffer.from([i])])).digest();
+            blocks.push(block);
+        }
+
+        return Buffer.concat(blocks).slice(0, size);
+    }
+
+    /**
+     * Get a random number generator function reading from this mixer,
+     * e.g. for `MnemonicPassPhrase.createRandom`.
+     *
+     * @return  {function}
+     */
+    public toRng(): (size: number) => Buffer {
+        return (size: number) => this.read(size);
+    }
+
+    /**
+     * Get the records of all reads.
+     *
+     * @return  {EntropyMixRecord[]}
+     */
+    public getRecords(): EntropyMixRecord[] {
+        return this.records.slice();
+    }
+}
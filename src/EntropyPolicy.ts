@@ -0,0 +1,240 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+
+/**
+ * Type `EntropyTest` describes the name of an entropy health check.
+ */
+export type EntropyTest = 'blocklist' | 'repetition' | 'monobit' | 'runs';
+
+/**
+ * Interface `EntropyWarning` describes a failed entropy health check.
+ */
+export interface EntropyWarning {
+    test: EntropyTest;
+    message: string;
+}
+
+/**
+ * Interface `EntropyPolicyOptions` describes the configuration
+ * of an `EntropyPolicy`. All fields are optional.
+ */
+export interface EntropyPolicyOptions {
+    strict?: boolean;
+    tests?: EntropyTest[];
+    blocklist?: string[];
+    maxBitRun?: number;
+    monobitThreshold?: number;
+    runsThreshold?: number;
+}
+
+/**
+ * Class `EntropyPolicy` describes health checks for the entropy of
+ * mnemonic pass phrases, whether generated with a random number
+ * generator or imported.
+ *
+ * Following checks are available:
+ *
+ * - `blocklist`: The entropy is a publicly known value, such as the
+ *   all-zero entropy of "abandon abandon ... about" or a BIP39 test
+ *   vector.
+ * - `repetition`: The entropy repeats a byte pattern, or contains a
+ *   run of identical bits longer than `maxBitRun`.
+ * - `monobit`: The proportion of ones and zeros deviates by more than
+ *   `monobitThreshold` standard deviations (NIST SP 800-22, 2.1).
+ * - `runs`: The number of runs of identical bits deviates by more than
+ *   `runsThreshold` standard deviations (NIST SP 800-22, 2.3).
+ *
+ * Entropy of 128 to 256 bits is too short for statistical tests to prove
+ * randomness, default thresholds are chosen so that random entropy fails
+ * a check with a probability below 1 in 10000. The checks only detect
+ * broken random number generators and hand-crafted patterns.
+ *
+ * In `strict` mode, `enforce()` throws an error instead of returning
+ * the warnings.
+ *
+ * @see https://csrc.nist.gov/publications/detail/sp/800-22/rev-1a/final
+ * @since 0.5.0
+ */
+export class EntropyPolicy {
+
+    /**
+     * Publicly known entropy values (hexadecimal) that must never
+     * be used for wallets: all-zero, all-one, 0x7f and 0x80 filled
+     * entropy, the BIP39 reference test vectors, and the mnemonic
+     * pass phrase used in this package's documentation.
+     *
+     * @see https://github.com/trezor/python-mnemonic/blob/master/vectors.json
+     * @var {string[]}
+     */
+    public static readonly DEFAULT_BLOCKLIST: string[] = [16, 24, 32]
+        .map((size) => ['00', '7f', '80', 'ff'].map((byte) => byte.repeat(size)))
+        .reduce((all, list) => all.concat(list), [])
+        .concat([
+            '9e885d952ad362caeb4efe34a8e91bd2',
+            '6610b25967cdcca9d59875f5cb50b0ea75433311869e930b',
+            '68a79eaca2324873eacc50cb9c6eca8cc68ea5d936f98787c60c7ebc74e6ce7c',
+            'c0ba5a8e914111210f2bd131f3d5e08d',
+            '6d9be1ee6ebd27a258115aad99b7317b9c8d28b6d76431c3',
+            '9f6a2878b2520799a44ef18bc7df394e7061a224d2c33cd015b157d746869863',
+            '23db8160a31d3e97b9b9a7e48f1f6d84',
+            'f30f8c1da665478f49b001d94c5fc452',
+            'c10ec20dc3cd9f652c7fac2f1230f7a3c828389a14392f05',
+            'f585c11aec520db57dd353c69554b21a89b20fb0650966fa0a9d6f74fd989d8f',
+            '07142acb81df09ed6cb16830957cebf865a2267ea2bae7aafac51c037474929c',
+        ]);
+
+    /**
+     * Whether `enforce()` throws on failed checks.
+     * @var {boolean}
+     */
+    public readonly strict: boolean;
+
+    /**
+     * The enabled checks.
+     * @var {EntropyTest[]}
+     */
+    public readonly tests: EntropyTest[];
+
+    /**
+     * The blocked entropy values (hexadecimal).
+     * @var {string[]}
+     */
+    public readonly blocklist: string[];
+
+    /**
+     * The maximum length of a run of identical bits.
+     * @var {number}
+     */
+    public readonly maxBitRun: number;
+
+    /**
+     * The maximum deviation of the monobit test statistic.
+     * @var {number}
+     */
+    public readonly monobitThreshold: number;
+
+    /**
+     * The maximum deviation of the runs test statistic.
+     * @var {number}
+     */
+    public readonly runsThreshold: number;
+
+    /**
+     * Construct an `EntropyPolicy` object.
+     *
+     * @param   options     {EntropyPolicyOptions}  (Optional) The policy configuration.
+     */
+    constructor(
+        options: EntropyPolicyOptions = {}
+    ) {
+        this.strict = options.strict || false;
+        this.tests = options.tests || ['blocklist', 'repetition', 'monobit', 'runs'];
+        this.blocklist = (options.blocklist || EntropyPolicy.DEFAULT_BLOCKLIST).map((hex) => hex.toLowerCase());
+        this.maxBitRun = options.maxBitRun || 24;
+        this.monobitThreshold = options.monobitThreshold || 4.5;
+        this.runsThreshold = options.runsThreshold || 4.5;
+    }
+
+    /**
+     * Run the enabled health checks on `entropy`.
+     *
+     * @param   entropy     {Buffer|string}     The entropy (binary or hexadecimal).
+     * @return  {EntropyWarning[]}  The failed checks (empty for healthy entropy).
+     */
+    public check(
+        entropy: Buffer | string
+    ): EntropyWarning[] {
+        const buffer = typeof entropy === 'string' ? Buffer.from(entropy, 'hex') : entropy;
+        const bits: number[] = [];
+        buffer.forEach((byte) => {
+            for (let i = 7; i >= 0; i--) {
+                bits.push((byte >> i) & 1);
+            }
+        });
+
+        const warnings: EntropyWarning[] = [];
+        const warn = (test: EntropyTest, message: string) => {
+            if (this.tests.indexOf(test) !== -1) {
+                warnings.push({test, message});
+            }
+        };
+
+        // (1) publicly known entropy
+        if (this.blocklist.indexOf(buffer.toString('hex')) !== -1) {
+            warn('blocklist', 'Entropy is a publicly known value.');
+        }
+
+        // (2) repeated byte patterns and long runs of identical bits
+        for (let period = 1; period <= buffer.length / 2; period++) {
+            if (buffer.every((byte, i) => byte === buffer[i % period])) {
+                warn('repetition', 'Entropy repeats a pattern of ' + period + ' byte(s).');
+                break;
+            }
+        }
+
+        let longest = 0;
+        for (let i = 0, run = 0; i < bits.length; i++) {
+            run = i > 0 && bits[i] === bits[i - 1] ? run + 1 : 1;
+            longest = Math.max(longest, run);
+        }
+
+        if (longest > this.maxBitRun) {
+            warn('repetition', 'Entropy contains a run of ' + longest + ' identical bits.');
+        }
+
+        // (3) proportion of ones and zeros
+        const n = bits.length;
+        const ones = bits.reduce((sum, bit) => sum + bit, 0);
+        const monobit = Math.abs(2 * ones - n) / Math.sqrt(n);
+        if (monobit > this.monobitThreshold) {
+            warn('monobit', 'Entropy contains ' + ones + ' ones out of ' + n + ' bits.');
+        }
+
+        // (4) number of runs, only applicable when the monobit test passes
+        const pi = ones / n;
+        const runs = bits.reduce((sum, bit, i) => sum + (i > 0 && bit !== bits[i - 1] ? 1 : 0), 1);
+        const deviation = Math.abs(runs - 2 * n * pi * (1 - pi)) / (2 * Math.sqrt(n) * pi * (1 - pi));
+        if (Math.abs(pi - 0.5) < 2 / Math.sqrt(n) && deviation > this.runsThreshold) {
+            warn('runs', 'Entropy contains ' + runs + ' runs of identical bits out of ' + n + ' bits.');
+        }
+
+        return warnings;
+    }
+
+    /**
+     * Run the enabled health checks on `entropy` and throw in
+     * `strict` mode if any check fails.
+     *
+     * @param   entropy     {Buffer|string}     The entropy (binary or hexadecimal).
+     * @return  {EntropyWarning[]}  The failed checks (always empty in strict mode).
+     * @throws  {Error}     On failed checks in strict mode.
+     */
+    public enforce(
+        entropy: Buffer | string
+    ): EntropyWarning[] {
+        const warnings = this.check(entropy);
+        if (this.strict && warnings.length) {
+            throw new Error('Entropy failed health checks: ' + warnings.map((warning) => warning.message).join(' '));
+        }
+
+        return warnings;
+    }
+}
@@ -18,18 +18,19 @@
  * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
  * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
  */
-import * as bip32 from 'bip32';
-import { BIP32 } from 'bip32';
 const bs58check = require('bs58check');
 
 // internal dependencies
 import { 
     CurveAlgorithm,
+    CurveNode,
+    CurveRegistry,
     KeyEncoding,
     Network,
-    NodeInterface,
-    NodeEd25519,
+    NetworkRegistry,
     MACType,
+    MnemonicPassPhrase,
+    SeedDerivationOptions,
 } from '../index';
 
 /**
@@ -67,9 +68,9 @@ export class ExtendedKey {
      */
     constructor(/**
                  * The hyper-deterministic node.
-                 * @var {BIP32 | NodeEd25519}
+                 * @var {CurveNode}
                  */
-                public readonly node: BIP32 | NodeEd25519,
+                public readonly node: CurveNode,
                 /**
                  * The hyper-deterministic node network.
                  * @var {Network}
@@ -82,47 +83,83 @@ export class ExtendedKey {
                  */
                 public readonly macType: MACType = MACType.HMAC
     ) {
-        if (this.node instanceof NodeEd25519
-            && this.network !== Network.CATAPULT) {
-            throw new Error('Given node is of type NodeEd25519 but network does not match Network.CATAPULT.');
+        const curve = CurveRegistry.findByNode(this.node);
+        if (curve === undefined) {
+            throw new Error('Given node is not supported by any curve provider.');
         }
-        // } else if (this.node instanceof nist256p1) { ..
-        else if (! (this.node instanceof NodeEd25519)
-                 && this.network !== Network.BITCOIN) {
-            throw new Error('Given node is of type BIP32 but network does not match Network.BITCOIN.');
+
+        const provider = CurveRegistry.get(curve);
+        if (this.network.curve !== curve) {
+            const curveName = CurveAlgorithm[curve] !== undefined ? CurveAlgorithm[curve] : curve;
+            throw new Error('Given node is of type ' + provider.name + ' but network curve is not ' + curveName + '.');
+        }
+
+        const nodeMACType = provider.getMACType(this.node);
+        if (nodeMACType !== undefined && nodeMACType !== this.macType) {
+            throw new Error('Given node is of type ' + provider.name + ' but uses a different MAC type.');
+        }
+    }
+
+    /**
+     * Detect the network of a Base58 extended key payload by reading
+     * its' version bytes (e.g. `xprv`/`xpub` or `cprv`/`cpub`).
+     *
+     * Networks are looked up in `NetworkRegistry`, see
+     * `NetworkRegistry.findByVersion`.
+     *
+     * @param   payload     {string}
+     * @return  {Network}
+     * @throws  {Error}     On unknown version bytes.
+     * @since 0.5.0
+     */
+    public static detectNetwork(
+        payload: string
+    ): Network {
+        const version = bs58check.decode(payload).readUInt32BE(0);
+        const network = NetworkRegistry.findByVersion(version);
+
+        if (network === undefined) {
+            throw new Error('Unknown extended key version bytes: 0x' + ('0000000' + version.toString(16)).slice(-8) + '.');
         }
+
+        return network;
     }
 
     /**
      * Create an extended key hyper-deterministic node by its' Base58
      * payload.
      *
-     * This method uses the `bitcoinjs/bip32` function named `fromBase58`
-     * and creates an extended key node by parsing the Base58 binary
-     * representation.
+     * This method uses the `fromBase58` factory of the curve provider
+     * of `network` (see `CurveRegistry`) and creates an extended key
+     * node by parsing the Base58 binary representation.
+     *
+     * When no `network` is given, it is detected from the version bytes
+     * of the payload with `detectNetwork`.
      *
-     * @param payload 
+     * CATAPULT extended keys exported before v0.5.0 use the BITCOIN version
+     * bytes, pass `Network.CATAPULT` and set `legacy` to import them.
+     *
+     * @param   payload     {string}
+     * @param   network     {Network}   (Optional) The network, detected by default.
+     * @param   macType     {MACType}
+     * @param   legacy      {boolean}   (Optional) Accept BITCOIN version bytes for CATAPULT keys.
+     * @return  {ExtendedKey}
+     * @throws  {Error}     On unknown version bytes.
+     * @throws  {Error}     On network curve without curve provider.
      */
     public static createFromBase58(
         payload: string,
-        network: Network = Network.BITCOIN,
-        macType: MACType = MACType.HMAC
+        network?: Network,
+        macType: MACType = MACType.HMAC,
+        legacy: boolean = false
     ): ExtendedKey {
 
-        if (network === Network.CATAPULT) {
-        // use NodeEd25519 node implementation
-
-            // interpret payload
-            const node = NodeEd25519.fromBase58(payload);
-
-            // instanciate our ExtendedKey
-            return new ExtendedKey(node, network, macType);
+        if (network === undefined) {
+            network = ExtendedKey.detectNetwork(payload);
         }
-        // else {
-        // use BIP32 node implementation
 
-        // interpret payload
-        const node = bip32.fromBase58(payload);
+        // interpret payload with the provider of the network curve
+        const node = CurveRegistry.get(network.curve).fromBase58(payload, network, macType, legacy);
 
         // instanciate our ExtendedKey
         return new ExtendedKey(node, network, macType);
@@ -132,10 +169,11 @@ export class ExtendedKey {
      * Create an extended key hyper-deterministic node with the master
      * seed.
      *
-     * This method uses the `bitcoinjs/bip32` function named `fromSeed`
-     * and creates an extended key node by creating HMAC-SHA512 hash
-     * of the words 'Bitcoin seed' appended with the `seed` binary
-     * representation.
+     * This method uses the `fromSeed` factory of the curve provider
+     * of `network` (see `CurveRegistry`). For secp256k1, the
+     * `bitcoinjs/bip32` function named `fromSeed` creates an extended
+     * key node by creating HMAC-SHA512 hash of the words 'Bitcoin seed'
+     * appended with the `seed` binary representation.
      *
      * The result is split in 2 parts where the left most 32 bytes are
      * the private and right most 32 bytes are the public key.
@@ -151,29 +189,41 @@ export class ExtendedKey {
         macType: MACType = MACType.HMAC
     ): ExtendedKey {
 
-        if (network === Network.CATAPULT) {
-        // use NodeEd25519 node implementation
-
-            // use hexadecimal seed
-            const node = NodeEd25519.fromSeed(
-                Buffer.from(seed, 'hex'),
-                Network.CATAPULT,
-                macType
-            );
-
-            // instanciate our ExtendedKey
-            return new ExtendedKey(node, network, macType);
-        }
-        // else {
-        // use BIP32 node implementation
-
-        // use hexadecimal seed
-        const node = bip32.fromSeed(Buffer.from(seed, 'hex'));
+        // use hexadecimal seed with the provider of the network curve
+        const node = CurveRegistry.get(network.curve).fromSeed(Buffer.from(seed, 'hex'), network, macType);
 
         // instanciate our ExtendedKey
         return new ExtendedKey(node, network, macType);
     }
 
+    /**
+     * Create an extended key hyper-deterministic node from a mnemonic
+     * pass phrase, without blocking the event loop.
+     *
+     * The seed is derived with `MnemonicPassPhrase.toSeedAsync`, then
+     * the node is created with `createFromSeed`.
+     *
+     * @see {MnemonicPassPhrase}#toSeedAsync
+     * @param   mnemonic    {MnemonicPassPhrase}
+     * @param   password    {string}
+     * @param   network     {Network}
+     * @param   macType     {MACType}
+     * @param   options     {SeedDerivationOptions}  (Optional) Progress callback and cancellation token.
+     * @return  {Promise<ExtendedKey>}
+     * @since 0.5.0
+     */
+    public static createFromMnemonic(
+        mnemonic: MnemonicPassPhrase,
+        password: string = '',
+        network: Network = Network.BITCOIN,
+        macType: MACType = MACType.HMAC,
+        options: SeedDerivationOptions = {}
+    ): Promise<ExtendedKey> {
+        return mnemonic.toSeedAsync(password, options).then(
+            (seed) => ExtendedKey.createFromSeed(seed.toString('hex'), network, macType)
+        );
+    }
+
     /**
      * Derive hyper-deterministic node by `path`.
      *
@@ -186,17 +236,10 @@ export class ExtendedKey {
         path: string
     ): ExtendedKey {
 
-        // derive path with specialized `derivePath`
-        const derived = this.node.derivePath(path);
-
-        if (derived instanceof NodeEd25519) {
-        // use NodeEd25519 node implementation
-            return new ExtendedKey(derived as NodeEd25519, this.network, this.macType);
-        }
-        // else {
-        // use BIP32 node implementation
+        // derive path with the provider of the network curve
+        const derived = CurveRegistry.get(this.network.curve).derivePath(this.node, path);
 
-        return new ExtendedKey(derived as BIP32, this.network, this.macType);
+        return new ExtendedKey(derived, this.network, this.macType);
     }
 
     /**
@@ -238,18 +281,10 @@ export class ExtendedKey {
      */
     public getPublicNode(): ExtendedKey {
 
-        // create new node from neutered
-        const node = this.node.neutered();
+        // create new node from neutered with the provider of the network curve
+        const node = CurveRegistry.get(this.network.curve).neutered(this.node);
 
-        if (node instanceof NodeEd25519) {
-        // use NodeEd25519 node implementation
-
-            return new ExtendedKey(node as NodeEd25519, this.network, this.macType);
-        }
-        // else {
-        // use BIP32 node implementation
-
-        return new ExtendedKey(node as BIP32, this.network, this.macType);
+        return new ExtendedKey(node, this.network, this.macType);
     }
 
     /**
@@ -268,6 +303,9 @@ export class ExtendedKey {
      *
      * This method defaults to returning the hexadecimal notation of
      * the key. Use `KeyEncoding.ENC_BIN` if you need the binary form.
+     *
+     * BIP32-Ed25519 extended keys return the 64 bytes extended
+     * private key `kL || kR`.
      * 
      * @see {KeyEncoding}
      * @return  {string}
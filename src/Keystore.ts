@@ -0,0 +1,574 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {
+    createCipheriv,
+    createDecipheriv,
+    createHmac,
+    pbkdf2Sync,
+    randomBytes,
+    scryptSync,
+    timingSafeEqual,
+} from 'crypto';
+
+// internal dependencies
+import {
+    MACType,
+    MnemonicPassPhrase,
+    Network,
+    NetworkRegistry,
+    SeedProfile,
+    WordlistRegistry,
+} from '../index';
+
+/**
+ * Type `KeystoreKdf` lists the key derivation functions
+ * used to stretch keystore passwords.
+ */
+export type KeystoreKdf = 'scrypt' | 'pbkdf2';
+
+/**
+ * Type `KeystoreType` lists the secrets that can be stored
+ * in a keystore.
+ */
+export type KeystoreType = 'mnemonic' | 'seed';
+
+/**
+ * Interface `KeystoreOptions` describes the options
+ * of `Keystore.encrypt()` and `Keystore.save()`.
+ */
+export interface KeystoreOptions {
+    kdf?: KeystoreKdf;
+    iterations?: number;
+    cost?: number;
+    blockSize?: number;
+    parallelization?: number;
+    macType?: MACType;
+    network?: Network;
+    seedProfile?: SeedProfile;
+}
+
+/**
+ * Interface `KeystoreFile` describes the versioned JSON
+ * envelope of an encrypted keystore.
+ */
+export interface KeystoreFile {
+    version: number;
+    type: KeystoreType;
+    crypto: {
+        cipher: string;
+        cipherparams: {iv: string, tag: string};
+        ciphertext: string;
+        kdf: KeystoreKdf;
+        kdfparams: {[param: string]: string | number};
+        mac: string;
+    };
+    meta: {
+        language: string | null;
+        strength: number | null;
+        macType: string;
+        network: string;
+        seedProfile: string | null;
+    };
+}
+
+/**
+ * Interface `KeystoreContents` describes the decrypted
+ * secret and metadata of a keystore.
+ */
+export interface KeystoreContents {
+    type: KeystoreType;
+    mnemonic?: MnemonicPassPhrase;
+    seed?: Buffer;
+    seedProfile?: SeedProfile;
+    macType: MACType;
+    network: Network;
+}
+
+/**
+ * Length of the derived key, 32 bytes encryption key
+ * followed by 32 bytes MAC key.
+ * @var {number}
+ */
+const DERIVED_KEY_LENGTH = 64;
+
+/**
+ * Upper bounds of the KDF parameters, such that a keystore
+ * file cannot make `load()` run for hours or exhaust memory.
+ * @var {Object}
+ */
+const KDF_LIMITS = {
+    c: 10000000,
+    n: 1048576,
+    r: 16,
+    p: 16,
+    memory: 1073741824,
+};
+
+/**
+ * Whether `value` is a non-empty hexadecimal string, of `bytes`
+ * bytes if given.
+ *
+ * @param   value   {Object}    The value to check.
+ * @param   bytes   {number}    (Optional) The expected length in bytes.
+ * @return  {boolean}
+ */
+const isHex = (
+    value: {} | null | undefined,
+    bytes?: number
+): boolean => {
+    return typeof value === 'string'
+        && /^([0-9a-f]{2})+$/.test(value as string)
+        && (bytes === undefined || (value as string).length === bytes * 2);
+};
+
+/**
+ * Whether `value` is an integer in range [1, `max`].
+ *
+ * @param   value   {Object}    The value to check.
+ * @param   max     {number}    The upper bound.
+ * @return  {boolean}
+ */
+const isInRange = (
+    value: {} | null | undefined,
+    max: number
+): boolean => {
+    return typeof value === 'number' && value % 1 === 0 && value >= 1 && value <= max;
+};
+
+/**
+ * Whether `params` are supported parameters of `kdf`: integers
+ * within `KDF_LIMITS`, and a power of two scrypt cost.
+ *
+ * @param   kdf     {KeystoreKdf}
+ * @param   params  {Object}
+ * @return  {boolean}
+ */
+const isValidKdfParams = (
+    kdf: KeystoreKdf,
+    params: {[param: string]: string | number}
+): boolean => {
+    if (kdf === 'pbkdf2') {
+        return params.prf === 'hmac-sha512' && isInRange(params.c, KDF_LIMITS.c);
+    }
+
+    const n = params.n as number;
+    return isInRange(n, KDF_LIMITS.n) && n > 1 && (n & (n - 1)) === 0
+        && isInRange(params.r, KDF_LIMITS.r)
+        && isInRange(params.p, KDF_LIMITS.p)
+        && 128 * n * (params.r as number) <= KDF_LIMITS.memory;
+};
+
+/**
+ * Get the `MACType` named `name`, if any.
+ *
+ * @param   name    {string}    The MAC type name, e.g. `HMAC`.
+ * @return  {MACType | undefined}
+ */
+const findMACType = (
+    name: string
+): MACType | undefined => {
+    if (!MACType.hasOwnProperty(name)) {
+        return undefined;
+    }
+
+    // skip reverse mappings of the numeric enum
+    const macType = MACType[name as keyof typeof MACType];
+    return typeof macType === 'number' ? macType : undefined;
+};
+
+/**
+ * Get the authenticated header of `file`: everything
+ * but the ciphertext, GCM tag and MAC, in a fixed order.
+ *
+ * @param   file    {KeystoreFile}
+ * @return  {Buffer}
+ */
+const authenticatedData = (
+    file: KeystoreFile
+): Buffer => {
+    const params = file.crypto.kdfparams;
+    return Buffer.from(JSON.stringify([
+        file.version,
+        file.type,
+        file.crypto.cipher,
+        file.crypto.cipherparams.iv,
+        file.crypto.kdf,
+        Object.keys(params).sort().map((param) => [param, params[param]]),
+        file.meta.language,
+        file.meta.strength,
+        file.meta.macType,
+        file.meta.network,
+        file.meta.seedProfile,
+    ]), 'utf8');
+};
+
+/**
+ * Class `Keystore` describes a password-encrypted JSON file format to
+ * store a `MnemonicPassPhrase` or a raw seed at rest.
+ *
+ * The password is stretched with scrypt (default) or PBKDF2-HMAC-SHA512
+ * into 64 bytes. The first 32 bytes are used as the AES-256-GCM key and
+ * the last 32 bytes as the HMAC-SHA256 key of the MAC. The MAC covers the
+ * ciphertext and the header (version, KDF parameters, IV and metadata),
+ * such that a wrong password is detected before decryption.
+ *
+ * Metadata (language and strength of the mnemonic pass phrase, `MACType`,
+ * `Network` and the `SeedProfile` descriptor of the mnemonic pass phrase)
+ * is stored in plain text and can be read with `parse()` without the password.
+ *
+ * @example Usage of keystores
+ *
+ * ```typescript
+ * const json = Keystore.save(mnemonic, 'password', {network: Network.CATAPULT});
+ * const contents = Keystore.load(json, 'password');
+ * const valid = Keystore.verify(json, 'password');
+ * ```
+ *
+ * @since 0.5.0
+ */
+export class Keystore {
+
+    /**
+     * The keystore format version.
+     * @var {number}
+     */
+    public static readonly VERSION = 1;
+
+    /**
+     * The symmetric cipher.
+     * @var {string}
+     */
+    public static readonly CIPHER = 'aes-256-gcm';
+
+    /**
+     * Default key derivation function.
+     * @var {KeystoreKdf}
+     */
+    public static DEFAULT_KDF: KeystoreKdf = 'scrypt';
+
+    /**
+     * Default scrypt cost parameter (N).
+     * @var {number}
+     */
+    public static DEFAULT_SCRYPT_COST = 32768;
+
+    /**
+     * Default number of PBKDF2 iterations.
+     * @var {number}
+     */
+    public static DEFAULT_PBKDF2_ITERATIONS = 262144;
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Encrypt a mnemonic pass phrase or a raw seed with `password`.
+     *
+     * @param   secret      {MnemonicPassPhrase|Buffer}  The mnemonic pass phrase or seed.
+     * @param   password    {string}    The keystore password.
+     * @param   options     {KeystoreOptions}   (Optional) KDF parameters and metadata.
+     * @return  {KeystoreFile}
+     * @throws  {Error}     On empty password, invalid mnemonic pass phrase, unknown network or KDF parameters out of range.
+     */
+    public static encrypt(
+        secret: MnemonicPassPhrase | Buffer,
+        password: string,
+        options: KeystoreOptions = {}
+    ): KeystoreFile {
+        if (!password || !password.length) {
+            throw new Error('Keystore password must not be empty.');
+        }
+
+        const network = NetworkRegistry.getName(options.network || Network.BITCOIN);
+        if (network === undefined) {
+            throw new Error('Network is not supported by keystores.');
+        }
+
+        let type: KeystoreType = 'seed';
+        let plaintext: Buffer;
+        let language: string | null = null;
+        let strength: number | null = null;
+        let seedProfile: string | null = null;
+
+        if (secret instanceof MnemonicPassPhrase) {
+            if (!secret.isValid()) {
+                throw new Error('Invalid mnemonic pass phrase.');
+            }
+
+            type = 'mnemonic';
+            language = secret.getLanguage();
+            strength = secret.toEntropy().length * 4;
+            seedProfile = (options.seedProfile || SeedProfile.BIP39).toDescriptor();
+            plaintext = Buffer.from(secret.plain.normalize('NFKD'), 'utf8');
+        }
+        else {
+            plaintext = Buffer.from(secret);
+        }
+
+        const kdf = options.kdf || Keystore.DEFAULT_KDF;
+        const salt = randomBytes(32).toString('hex');
+        const kdfparams: {[param: string]: string | number} = kdf === 'scrypt' ? {
+            dklen: DERIVED_KEY_LENGTH,
+            n: options.cost || Keystore.DEFAULT_SCRYPT_COST,
+            p: options.parallelization || 1,
+            r: options.blockSize || 8,
+            salt: salt,
+        } : {
+            c: options.iterations || Keystore.DEFAULT_PBKDF2_ITERATIONS,
+            dklen: DERIVED_KEY_LENGTH,
+            prf: 'hmac-sha512',
+            salt: salt,
+        };
+
+        if (!isValidKdfParams(kdf, kdfparams)) {
+            throw new Error('Keystore KDF parameters are not supported.');
+        }
+
+        const file: KeystoreFile = {
+            version: Keystore.VERSION,
+            type: type,
+            crypto: {
+                cipher: Keystore.CIPHER,
+                cipherparams: {iv: randomBytes(12).toString('hex'), tag: ''},
+                ciphertext: '',
+                kdf: kdf,
+                kdfparams: kdfparams,
+                mac: '',
+            },
+            meta: {
+                language: language,
+                strength: strength,
+                macType: MACType[options.macType || MACType.HMAC],
+                network: network,
+                seedProfile: seedProfile,
+            },
+        };
+
+        const key = Keystore.deriveKey(file, password);
+        const header = authenticatedData(file);
+        const cipher = createCipheriv('aes-256-gcm', key.slice(0, 32), Buffer.from(file.crypto.cipherparams.iv, 'hex'));
+        cipher.setAAD(header);
+
+        const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+        file.crypto.ciphertext = ciphertext.toString('hex');
+        file.crypto.cipherparams.tag = cipher.getAuthTag().toString('hex');
+        file.crypto.mac = Keystore.computeMac(file, key).toString('hex');
+        return file;
+    }
+
+    /**
+     * Encrypt a mnemonic pass phrase or a raw seed with `password`
+     * and return the JSON keystore.
+     *
+     * @see {Keystore}.encrypt
+     * @param   secret      {MnemonicPassPhrase|Buffer}  The mnemonic pass phrase or seed.
+     * @param   password    {string}    The keystore password.
+     * @param   options     {KeystoreOptions}   (Optional) KDF parameters and metadata.
+     * @return  {string}    The JSON keystore.
+     * @throws  {Error}     On empty password, invalid mnemonic pass phrase, unknown network or KDF parameters out of range.
+     */
+    public static save(
+        secret: MnemonicPassPhrase | Buffer,
+        password: string,
+        options: KeystoreOptions = {}
+    ): string {
+        return JSON.stringify(Keystore.encrypt(secret, password, options), null, 2);
+    }
+
+    /**
+     * Parse and validate the structure of a JSON keystore. This
+     * does not need the password and permits to read metadata.
+     *
+     * KDF parameters must be within fixed bounds, such that untrusted
+     * keystore files cannot stall or exhaust memory in `load()`.
+     *
+     * @param   json    {string|KeystoreFile}   The JSON keystore.
+     * @return  {KeystoreFile}
+     * @throws  {Error}     On invalid JSON keystore or unsupported version.
+     */
+    public static parse(
+        json: string | KeystoreFile
+    ): KeystoreFile {
+        let file: KeystoreFile;
+        try {
+            file = typeof json === 'string' ? JSON.parse(json) : json;
+        }
+        catch (e) {
+            throw new Error('Invalid keystore, could not parse JSON.');
+        }
+
+        if (!file || typeof file !== 'object' || !file.crypto || !file.meta) {
+            throw new Error('Invalid keystore, missing crypto or meta section.');
+        }
+
+        if (file.version !== Keystore.VERSION) {
+            throw new Error('Unsupported keystore version ' + file.version + '.');
+        }
+
+        const crypto = file.crypto;
+        if (['mnemonic', 'seed'].indexOf(file.type) === -1
+            || crypto.cipher !== Keystore.CIPHER
+            || ['scrypt', 'pbkdf2'].indexOf(crypto.kdf) === -1
+            || !crypto.kdfparams || !crypto.cipherparams
+            || !isHex(crypto.kdfparams.salt)
+            || !isHex(crypto.cipherparams.iv, 12) || !isHex(crypto.cipherparams.tag, 16)
+            || !isHex(crypto.ciphertext) || !isHex(crypto.mac, 32)
+            || crypto.kdfparams.dklen !== DERIVED_KEY_LENGTH
+            || !isValidKdfParams(crypto.kdf, crypto.kdfparams)
+            || !NetworkRegistry.has(file.meta.network)
+            || (file.meta.language !== null && !WordlistRegistry.has(file.meta.language))
+            || findMACType(file.meta.macType) === undefined
+            || (file.type === 'mnemonic') !== (typeof file.meta.seedProfile === 'string')) {
+            throw new Error('Invalid keystore, unsupported or malformed parameters.');
+        }
+
+        if (file.meta.seedProfile !== null) {
+            try {
+                SeedProfile.fromDescriptor(file.meta.seedProfile);
+            }
+            catch (e) {
+                throw new Error('Invalid keystore, unsupported or malformed parameters.');
+            }
+        }
+
+        return file;
+    }
+
+    /**
+     * Decrypt a JSON keystore with `password`.
+     *
+     * @param   json        {string|KeystoreFile}   The JSON keystore.
+     * @param   password    {string}    The keystore password.
+     * @return  {KeystoreContents}
+     * @throws  {Error}     On invalid JSON keystore or wrong password.
+     */
+    public static load(
+        json: string | KeystoreFile,
+        password: string
+    ): KeystoreContents {
+        const file = Keystore.parse(json);
+        const key = Keystore.deriveKey(file, password);
+
+        if (!timingSafeEqual(Keystore.computeMac(file, key), Buffer.from(file.crypto.mac, 'hex'))) {
+            throw new Error('Invalid keystore password.');
+        }
+
+        let plaintext: Buffer;
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', key.slice(0, 32), Buffer.from(file.crypto.cipherparams.iv, 'hex'));
+            decipher.setAAD(authenticatedData(file));
+            decipher.setAuthTag(Buffer.from(file.crypto.cipherparams.tag, 'hex'));
+            plaintext = Buffer.concat([decipher.update(Buffer.from(file.crypto.ciphertext, 'hex')), decipher.final()]);
+        }
+        catch (e) {
+            throw new Error('Invalid keystore, authentication failed.');
+        }
+
+        const contents: KeystoreContents = {
+            type: file.type,
+            macType: findMACType(file.meta.macType) as MACType,
+            network: NetworkRegistry.get(file.meta.network),
+        };
+
+        if (file.type === 'mnemonic') {
+            contents.mnemonic = new MnemonicPassPhrase(plaintext.toString('utf8'), file.meta.language || undefined);
+            contents.seedProfile = SeedProfile.fromDescriptor(file.meta.seedProfile as string);
+        }
+        else {
+            contents.seed = plaintext;
+        }
+
+        return contents;
+    }
+
+    /**
+     * Verify that `password` decrypts a JSON keystore.
+     *
+     * @param   json        {string|KeystoreFile}   The JSON keystore.
+     * @param   password    {string}    The keystore password.
+     * @return  {boolean}   Whether the password is correct.
+     * @throws  {Error}     On invalid JSON keystore.
+     */
+    public static verify(
+        json: string | KeystoreFile,
+        password: string
+    ): boolean {
+        const file = Keystore.parse(json);
+        try {
+            Keystore.load(file, password);
+            return true;
+        }
+        catch (e) {
+            if (e.message === 'Invalid keystore password.') {
+                return false;
+            }
+
+            throw e;
+        }
+    }
+
+    /**
+     * Stretch `password` with the KDF parameters of `file`.
+     *
+     * @internal
+     * @param   file        {KeystoreFile}
+     * @param   password    {string}
+     * @return  {Buffer}    The 64 bytes derived key.
+     */
+    protected static deriveKey(
+        file: KeystoreFile,
+        password: string
+    ): Buffer {
+        const params = file.crypto.kdfparams;
+        const secret = Buffer.from(password.normalize('NFKD'), 'utf8');
+        const salt = Buffer.from(params.salt as string, 'hex');
+
+        if (file.crypto.kdf === 'pbkdf2') {
+            return pbkdf2Sync(secret, salt, params.c as number, DERIVED_KEY_LENGTH, 'sha512');
+        }
+
+        const n = params.n as number;
+        const r = params.r as number;
+        const p = params.p as number;
+        return scryptSync(secret, salt, DERIVED_KEY_LENGTH, {N: n, r: r, p: p, maxmem: 256 * n * r * p});
+    }
+
+    /**
+     * Compute the MAC of `file` with the last 32 bytes of `key`.
+     *
+     * @internal
+     * @param   file    {KeystoreFile}
+     * @param   key     {Buffer}
+     * @return  {Buffer}
+     */
+    protected static computeMac(
+        file: KeystoreFile,
+        key: Buffer
+    ): Buffer {
+        return createHmac('sha256', key.slice(32))
+            .update(authenticatedData(file))
+            .update(Buffer.from(file.crypto.ciphertext, 'hex'))
+            .update(Buffer.from(file.crypto.cipherparams.tag, 'hex'))
+            .digest();
+    }
+}
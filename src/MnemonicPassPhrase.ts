@@ -19,8 +19,176 @@
  * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
  */
 import * as bip39 from 'bip39';
+import { createHmac, pbkdf2 } from 'crypto';
 import {Crypto} from 'nem2-sdk';
 
+// internal dependencies
+import {
+    CancellationToken,
+    EntropyPolicy,
+    EntropyWarning,
+    PhysicalEntropy,
+    SeedProfile,
+    WordlistRegistry,
+} from '../index';
+
+/**
+ * Number of PBKDF2 rounds defined by the BIP39 standard.
+ * @var {number}
+ */
+const PBKDF2_ROUNDS = 2048;
+
+/**
+ * Number of PBKDF2 rounds computed between two progress reports.
+ * @var {number}
+ */
+const PBKDF2_ROUNDS_PER_STEP = 128;
+
+/**
+ * Compute PBKDF2-HMAC-SHA512 (64 bytes) in steps of `PBKDF2_ROUNDS_PER_STEP`
+ * rounds, yielding to the event loop in between to report progress and to
+ * check for cancellation.
+ *
+ * @param   password        {Buffer}
+ * @param   salt            {Buffer}
+ * @param   onProgress      {function|undefined}
+ * @param   cancellation    {CancellationToken|undefined}
+ * @return  {Promise<Buffer>}
+ */
+const pbkdf2Steps = (
+    password: Buffer,
+    salt: Buffer,
+    onProgress?: (progress: number) => void,
+    cancellation?: CancellationToken
+): Promise<Buffer> => {
+    return new Promise<Buffer>((resolve, reject) => {
+        // U_1 = HMAC(P, S || INT(1))
+        const block = Buffer.concat([salt, Buffer.from([0, 0, 0, 1])]);
+        let u: Buffer = createHmac('sha512', password).update(block).digest();
+        const t = Buffer.from(u);
+        let round = 1;
+
+        const step = () => {
+            try {
+                if (cancellation) {
+                    cancellation.throwIfCancelled();
+                }
+
+                // U_i = HMAC(P, U_i-1) and T = U_1 ^ U_2 ^ ... ^ U_c
+                const last = Math.min((Math.floor(round / PBKDF2_ROUNDS_PER_STEP) + 1) * PBKDF2_ROUNDS_PER_STEP, PBKDF2_ROUNDS);
+                for (; round < last; round++) {
+                    u = createHmac('sha512', password).update(u).digest();
+                    for (let i = 0; i < t.length; i++) {
+                        t[i] ^= u[i];
+                    }
+                }
+
+                if (onProgress) {
+                    onProgress(round / PBKDF2_ROUNDS);
+                }
+                if (round < PBKDF2_ROUNDS) {
+                    setImmediate(step);
+                    return;
+                }
+
+                resolve(t);
+            }
+            catch (e) {
+                reject(e);
+            }
+        };
+
+        setImmediate(step);
+    });
+};
+
+/**
+ * Default entropy health checks policy, frozen such that no
+ * caller can change the checks of other callers.
+ * @var {EntropyPolicy}
+ */
+const DEFAULT_ENTROPY_POLICY = new EntropyPolicy();
+Object.freeze(DEFAULT_ENTROPY_POLICY.tests);
+Object.freeze(DEFAULT_ENTROPY_POLICY.blocklist);
+Object.freeze(DEFAULT_ENTROPY_POLICY);
+
+/**
+ * Minimum length of unambiguous word abbreviations, the first
+ * 4 letters identify a word in most BIP39 wordlists.
+ * @var {number}
+ */
+const ABBREVIATION_LENGTH = 4;
+
+/**
+ * Remove the combining accents of the NFKD normalized `word`.
+ *
+ * @param   word    {string}
+ * @return  {string}
+ */
+const stripAccents = (
+    word: string
+): string => {
+    return word.replace(/[\u0300-\u036f]/g, '');
+};
+
+/**
+ * Split the NFKD normalized `text` into lower case words, with any
+ * white-space, comma or semicolon as separator. Numbering such as
+ * "1.", "2)", "#3" or "04:" and separators such as "-" are removed.
+ *
+ * @param   text    {string}
+ * @return  {string[]}
+ */
+const tokenize = (
+    text: string
+): string[] => {
+    return text.normalize('NFKD')
+               .toLowerCase()
+               .split(/[\s,;]+/)
+               .map((token) => token.replace(/^#?[0-9]*[.):-]*/, ''))
+               .filter((token) => token.length > 0);
+};
+
+/**
+ * Find the word of `wordlist` matching `token`: the word itself,
+ * the word without accents, or an unambiguous abbreviation of at
+ * least `ABBREVIATION_LENGTH` letters.
+ *
+ * @param   token       {string}    The NFKD normalized lower case token.
+ * @param   wordlist    {string[]}
+ * @param   normalized  {string[]}  The NFKD normalized words of `wordlist` without accents.
+ * @return  {string|undefined}
+ */
+const resolveWord = (
+    token: string,
+    wordlist: string[],
+    normalized: string[]
+): string | undefined => {
+    const exact = wordlist.indexOf(token);
+    if (exact !== -1) {
+        return wordlist[exact];
+    }
+
+    const stripped = stripAccents(token);
+    const matches = normalized.filter((word) => word === stripped);
+    const prefixed = stripped.length >= ABBREVIATION_LENGTH
+        ? normalized.filter((word) => word.indexOf(stripped) === 0)
+        : [];
+
+    const candidates = matches.length ? matches : prefixed;
+    return candidates.length === 1 ? wordlist[normalized.indexOf(candidates[0])] : undefined;
+};
+
+/**
+ * Interface `SeedDerivationOptions` describes the options
+ * of `MnemonicPassPhrase.toSeedAsync()`.
+ */
+export interface SeedDerivationOptions {
+    onProgress?: (progress: number) => void;
+    cancellation?: CancellationToken;
+    profile?: SeedProfile;
+}
+
 /**
  * Class `MnemonicPassPhrase` describes a mnemonic pass phrase generator
  * as defined by the Bitcoin BIP39 standard which can be found at following
@@ -55,6 +223,28 @@ export class MnemonicPassPhrase {
      */
     public static readonly DEFAULT_STRENGTH = 256;
 
+    /**
+     * Warning about translated mnemonic pass phrases.
+     *
+     * @see {MnemonicPassPhrase}#translate
+     * @var {string}
+     */
+    public static readonly TRANSLATION_WARNING = 'A translated mnemonic pass phrase holds the same entropy '
+        + 'but produces a different BIP39 seed, because the seed is derived from the words themselves. '
+        + 'Extended keys and accounts derived from the translated words will NOT be the same.';
+
+    /**
+     * Default entropy health checks policy of `createRandom`,
+     * `createFromEntropy` and `checkEntropy` (frozen).
+     *
+     * Pass a strict policy to these methods to throw on weak
+     * entropy: `new EntropyPolicy({strict: true})`.
+     *
+     * @see {EntropyPolicy}
+     * @var {EntropyPolicy}
+     */
+    public static readonly DEFAULT_ENTROPY_POLICY: EntropyPolicy = DEFAULT_ENTROPY_POLICY;
+
     /**
      * Random number generator using `nacl_catapult`.
      *
@@ -71,14 +261,31 @@ export class MnemonicPassPhrase {
     /**
      * Create a `MnemonicPassPhrase` instance.
      *
-     * @param plain {string}
+     * @param plain           {string}
+     * @param language        {string|undefined}
+     * @param entropyWarnings {EntropyWarning[]}
+     * @throws  {Error}     On unsupported `language` argument.
      */
     public constructor(/**
                         * The mnemonic pass phrase (plain text).
                         * @var {string}
                         */
-                        public readonly plain: string) {
-
+                        public readonly plain: string,
+                        /**
+                        * The language used for the wordlist (Optional).
+                        * @var {string|undefined}
+                        */
+                        public readonly language?: string,
+                        /**
+                        * The failed entropy health checks (set by `createRandom`
+                        * and `createFromEntropy`).
+                        * @var {EntropyWarning[]}
+                        */
+                        public readonly entropyWarnings: EntropyWarning[] = []) {
+        // check if `language` is supported or throw
+        if (language !== undefined) {
+            MnemonicPassPhrase.assertLanguageSupported(language);
+        }
     }
 
     /**
@@ -93,13 +300,15 @@ export class MnemonicPassPhrase {
      * @param   language    {string}    (Optional) The language used for the wordlist.
      * @param   strength    {number}    (Optional) Strength of mnemonic pass phrase (% 32 == 0).
      * @param   rng         {function}  (Optional) Random Number Generator to be used.
+     * @param   policy      {EntropyPolicy} (Optional) Entropy health checks policy.
      * @return  {string}    Returns the mnemonic pass phrase in plain text format.
-     * @throws  {Error}     On unsupported `language` argument.
+     * @throws  {Error}     On unsupported `language` argument, or failed health checks with a strict policy.
      */
     public static createRandom(
         language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE,
         strength: number = MnemonicPassPhrase.DEFAULT_STRENGTH,
-        rng: (size: number) => Buffer = MnemonicPassPhrase.CATAPULT_RNG
+        rng: (size: number) => Buffer = MnemonicPassPhrase.CATAPULT_RNG,
+        policy: EntropyPolicy = MnemonicPassPhrase.DEFAULT_ENTROPY_POLICY
     ): MnemonicPassPhrase {
         // check if `language` is supported or throw
         MnemonicPassPhrase.assertLanguageSupported(language);
@@ -109,12 +318,13 @@ export class MnemonicPassPhrase {
             throw new Error('Invalid strength, must be multiple of 32 with: 128 >= strength <= 256.');
         }
 
-        // set active wordlist by language
-        if (language !== MnemonicPassPhrase.DEFAULT_LANGUAGE) {
-            bip39.setDefaultWordlist(language);
-        }
+        // check the random number generator output
+        const entropy = rng(strength / 8);
+        const warnings = policy.enforce(entropy);
 
-        return new MnemonicPassPhrase(bip39.generateMnemonic(strength, rng));
+        // wordlist is passed explicitly, the bip39 default wordlist is never changed
+        const wordlist = WordlistRegistry.get(language);
+        return new MnemonicPassPhrase(bip39.entropyToMnemonic(entropy, wordlist), language, warnings);
     }
 
     /**
@@ -129,43 +339,304 @@ export class MnemonicPassPhrase {
      *
      * @param   mnemonic    {string}    The mnemonic pass phrase to validate.
      * @param   language    {string}    (Optional) The language used for the wordlist.
+     * @param   policy      {EntropyPolicy} (Optional) Entropy health checks policy.
      * @return  {string}    Returns the mnemonic pass phrase in plain text format.
-     * @throws  {Error}     On unsupported `language` argument.
+     * @throws  {Error}     On unsupported `language` argument, or failed health checks with a strict policy.
      */
     public static createFromEntropy(
         entropy: Buffer | string,
+        language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE,
+        policy: EntropyPolicy = MnemonicPassPhrase.DEFAULT_ENTROPY_POLICY
+    ): MnemonicPassPhrase {
+        // check if `language` is supported or throw
+        MnemonicPassPhrase.assertLanguageSupported(language);
+
+        const plain = bip39.entropyToMnemonic(entropy, WordlistRegistry.get(language));
+        return new MnemonicPassPhrase(plain, language, policy.enforce(entropy));
+    }
+
+    /**
+     * Parse a mnemonic pass phrase typed, pasted or read from a backup.
+     *
+     * The text is NFKD normalized and split with any white-space (e.g. the
+     * Japanese ideographic space, newlines or multiple spaces), commas or
+     * semicolons. Numbering (e.g. "1. alpha 2. pattern"), letter case and
+     * accents are ignored, and unambiguous abbreviations of 4 letters or
+     * more, as punched on metal plate backups, are expanded.
+     *
+     * When `language` is omitted, the languages of which the wordlist
+     * contains all words are tried, those with a valid checksum first.
+     *
+     * The returned mnemonic pass phrase contains the canonical words of
+     * the wordlist, such that `toSeed` produces the expected seed. Its
+     * checksum is not validated, see `isValid`.
+     *
+     * @param   text        {string}    The mnemonic pass phrase text.
+     * @param   language    {string}    (Optional) The language used for the wordlist.
+     * @return  {MnemonicPassPhrase}
+     * @throws  {Error}     On unknown or ambiguous words, ambiguous language, or unsupported `language` argument.
+     * @since 0.5.0
+     */
+    public static parse(
+        text: string,
+        language?: string
+    ): MnemonicPassPhrase {
+        if (language !== undefined) {
+            // check if `language` is supported or throw
+            MnemonicPassPhrase.assertLanguageSupported(language);
+        }
+
+        const tokens = tokenize(text);
+        if (!tokens.length) {
+            throw new Error('Mnemonic pass phrase must not be empty.');
+        }
+
+        const languages = language !== undefined ? [language] : MnemonicPassPhrase.getLanguages();
+        const parsed = languages.map((lang) => {
+            const wordlist = WordlistRegistry.get(lang);
+            const normalized = wordlist.map((word) => stripAccents(word.normalize('NFKD')));
+            return {language: lang, words: tokens.map((token) => resolveWord(token, wordlist, normalized))};
+        });
+
+        const candidates = parsed.filter((result) => result.words.every((word) => word !== undefined));
+        if (!candidates.length) {
+            // report unknown words of the closest wordlist
+            const closest = parsed.sort((a, b) => b.words.filter((w) => w).length - a.words.filter((w) => w).length)[0];
+            const unknown = tokens.filter((_, i) => closest.words[i] === undefined);
+            throw new Error('Unknown or ambiguous words in mnemonic pass phrase: ' + unknown.join(', ') + '.');
+        }
+
+        const sentences = candidates.map((result) => ({
+            language: result.language,
+            plain: result.words.join(result.language === 'japanese' ? '\u3000' : ' '),
+        }));
+
+        const valid = sentences.filter((sentence) => bip39.validateMnemonic(sentence.plain, WordlistRegistry.get(sentence.language)));
+        const choices = valid.length ? valid : sentences;
+        if (choices.length > 1) {
+            throw new Error('Ambiguous language of mnemonic pass phrase, could be one of: '
+                          + choices.map((choice) => choice.language).join(', ') + '.');
+        }
+
+        return new MnemonicPassPhrase(choices[0].plain, choices[0].language);
+    }
+
+    /**
+     * Create a mnemonic pass phrase from six-sided dice rolls.
+     *
+     * Rolls are hashed with SHA-256, at least `ceil(strength / log2(6))`
+     * rolls are required.
+     *
+     * @see {PhysicalEntropy}.fromDiceRolls
+     * @param   rolls       {string|number[]}   The dice rolls (1 to 6).
+     * @param   strength    {number}            (Optional) Strength of mnemonic pass phrase (% 32 == 0).
+     * @param   language    {string}            (Optional) The language used for the wordlist.
+     * @return  {MnemonicPassPhrase}
+     * @throws  {Error}     On invalid or insufficient rolls, or unsupported `language` argument.
+     */
+    public static createFromDiceRolls(
+        rolls: string | number[],
+        strength: number = MnemonicPassPhrase.DEFAULT_STRENGTH,
+        language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE
+    ): MnemonicPassPhrase {
+        const entropy = PhysicalEntropy.fromDiceRolls(rolls, strength);
+        return MnemonicPassPhrase.createFromEntropy(entropy, language);
+    }
+
+    /**
+     * Create a mnemonic pass phrase from coin flips.
+     *
+     * Flips are debiased with the von Neumann extractor, about
+     * `4 * strength` flips are needed with a fair coin.
+     *
+     * @see {PhysicalEntropy}.fromCoinFlips
+     * @param   flips       {string|number[]}   The coin flips ('H' or 1 for heads, 'T' or 0 for tails).
+     * @param   strength    {number}            (Optional) Strength of mnemonic pass phrase (% 32 == 0).
+     * @param   language    {string}            (Optional) The language used for the wordlist.
+     * @return  {MnemonicPassPhrase}
+     * @throws  {Error}     On invalid or insufficient flips, or unsupported `language` argument.
+     */
+    public static createFromCoinFlips(
+        flips: string | number[],
+        strength: number = MnemonicPassPhrase.DEFAULT_STRENGTH,
         language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE
     ): MnemonicPassPhrase {
+        const entropy = PhysicalEntropy.fromCoinFlips(flips, strength);
+        return MnemonicPassPhrase.createFromEntropy(entropy, language);
+    }
+
+    /**
+     * Calculate every valid final (checksum) word for 11, 14, 17, 20
+     * or 23 hand-picked words.
+     *
+     * The final word holds the last entropy bits and the checksum
+     * bits, such that 128 (12 words) down to 8 (24 words) final
+     * words produce a valid mnemonic pass phrase.
+     *
+     * @param   words       {string[]}  The hand-picked words.
+     * @param   language    {string}    (Optional) The language used for the wordlist.
+     * @return  {string[]}  The valid final words, in wordlist order.
+     * @throws  {Error}     On invalid number of words, unknown words or unsupported `language` argument.
+     */
+    public static getChecksumWords(
+        words: string[],
+        language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE
+    ): string[] {
         // check if `language` is supported or throw
         MnemonicPassPhrase.assertLanguageSupported(language);
 
-        return new MnemonicPassPhrase(bip39.entropyToMnemonic(entropy, bip39.wordlists[language]));
+        if ([11, 14, 17, 20, 23].indexOf(words.length) === -1) {
+            throw new Error('Invalid number of words, must be one of: 11, 14, 17, 20 or 23.');
+        }
+
+        const wordlist = WordlistRegistry.get(language);
+        const indices = words.map((word) => {
+            const index = wordlist.indexOf(word.normalize('NFKD'));
+            if (index === -1) {
+                throw new Error('Word "' + word + '" is not part of the ' + language + ' wordlist.');
+            }
+
+            return index;
+        });
+
+        // ENT = 11 * (n + 1) * 32 / 33 bits, the final word holds (11 - CS) entropy bits
+        const strength = (indices.length + 1) * 11 * 32 / 33;
+        const freeBits = 11 - strength / 32;
+
+        const candidates: string[] = [];
+        for (let value = 0; value < (1 << freeBits); value++) {
+            const entropy = Buffer.alloc(strength / 8);
+            indices.concat([value]).forEach((index, position) => {
+                const size = position < indices.length ? 11 : freeBits;
+                for (let bit = 0; bit < size; bit++) {
+                    const offset = position * 11 + bit;
+                    entropy[offset >> 3] |= ((index >> (size - 1 - bit)) & 1) << (7 - (offset & 7));
+                }
+            });
+
+            const mnemonic = bip39.entropyToMnemonic(entropy, wordlist).split(/\s+/);
+            candidates.push(mnemonic[mnemonic.length - 1]);
+        }
+
+        return candidates;
     }
 
     /**
      * Assert whether `language` is a supported language string, or not.
      *
      * @internal
-     * @see https://github.com/bitcoinjs/bip39/tree/master/ts_src/wordlists
+     * @see {WordlistRegistry}
      * @return  {boolean}   True for *supported languages*, never false.
      * @throws  {Error}     On unsupported `language` argument.
      */
-    protected static assertLanguageSupported(
+    public static assertLanguageSupported(
         language: string
     ): true {
         // check if `language` is supported or throw
-        if (! bip39.wordlists.hasOwnProperty(language)) {
+        if (! WordlistRegistry.has(language)) {
             throw new Error('Language "' + language + '" is not supported.');
         }
 
         return true;
     }
 
+    /**
+     * Get the list of languages for which a wordlist is available,
+     * including custom wordlists.
+     *
+     * @see {WordlistRegistry}
+     * @return  {string[]}
+     */
+    public static getLanguages(): string[] {
+        return WordlistRegistry.getLanguages();
+    }
+
+    /**
+     * Detect the languages of which the wordlist contains all words
+     * of the mnemonic pass phrase `plain`.
+     *
+     * Some wordlists share words, e.g. 'french' and 'english', or
+     * 'chinese_simplified' and 'chinese_traditional', such that more
+     * than one language can be returned. Languages for which the
+     * checksum is valid are listed first.
+     *
+     * @param   plain   {string}    The mnemonic pass phrase (plain text).
+     * @return  {string[]}  The candidate languages (empty if none matches).
+     */
+    public static detectLanguages(
+        plain: string
+    ): string[] {
+        const words = plain.normalize('NFKD').trim().split(/\s+/);
+        const candidates = MnemonicPassPhrase.getLanguages().filter((language) => {
+            const wordlist = WordlistRegistry.get(language);
+            return words.every((word) => wordlist.indexOf(word) !== -1);
+        });
+
+        const valid = candidates.filter((language) => bip39.validateMnemonic(words.join(' '), WordlistRegistry.get(language)));
+        return valid.concat(candidates.filter((language) => valid.indexOf(language) === -1));
+    }
+
+    /**
+     * Detect the language of the mnemonic pass phrase `plain`.
+     *
+     * When words are shared between multiple wordlists, the checksum
+     * is used to find out which wordlist was used. When the checksum is
+     * valid with several wordlists that encode the same entropy, e.g.
+     * words shared by 'chinese_simplified' and 'chinese_traditional' at
+     * the same positions, the first of these languages is returned.
+     *
+     * @param   plain   {string}    The mnemonic pass phrase (plain text).
+     * @return  {string}    The detected language.
+     * @throws  {Error}     On unknown words or when the language cannot be determined.
+     */
+    public static detectLanguage(
+        plain: string
+    ): string {
+        const words = plain.normalize('NFKD').trim().split(/\s+/);
+        const candidates = MnemonicPassPhrase.detectLanguages(plain);
+        if (! candidates.length) {
+            throw new Error('Could not detect language of mnemonic pass phrase.');
+        }
+
+        const valid = candidates.filter((language) => bip39.validateMnemonic(words.join(' '), WordlistRegistry.get(language)));
+        const entropies = valid.map((language) => bip39.mnemonicToEntropy(words.join(' '), WordlistRegistry.get(language)));
+        if (valid.length && entropies.every((entropy) => entropy === entropies[0])) {
+            return valid[0];
+        }
+        else if (candidates.length === 1) {
+            return candidates[0];
+        }
+
+        const ambiguous = valid.length ? valid : candidates;
+        throw new Error('Ambiguous language of mnemonic pass phrase, could be one of: ' + ambiguous.join(', ') + '.');
+    }
+
+    /**
+     * Get the language of the mnemonic pass phrase.
+     *
+     * This is the language given to the constructor (also set by
+     * `createRandom` and `createFromEntropy`). If none was given, the
+     * language is detected, see `detectLanguage()`.
+     *
+     * @see {MnemonicPassPhrase}#detectLanguage
+     * @return  {string}
+     * @throws  {Error}     On unknown words or when the language cannot be determined.
+     */
+    public getLanguage(): string {
+        if (this.language !== undefined) {
+            return this.language;
+        }
+
+        return MnemonicPassPhrase.detectLanguage(this.plain);
+    }
+
     /**
      * Validate a mnemonic pass phrase with optional `language`.
      *
-     * If the `language` argument is ommited, the default
-     * language 'english' will be used.
+     * If the `language` argument is ommited, the language given to the
+     * constructor is used. Without language, the mnemonic pass phrase is
+     * valid when it is valid with any of the detected languages, see
+     * `detectLanguages()`.
      *
      * The `bitcoinjs/bip39` package's `validateMnemonic` function
      * checks the mnemonic pass phrase by internally converting
@@ -180,22 +651,29 @@ export class MnemonicPassPhrase {
      * @throws  {Error}     On unsupported `language` argument.
      */
     public isValid(
-        language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE
+        language: string | undefined = this.language
     ): boolean {
+        if (language === undefined) {
+            return MnemonicPassPhrase.detectLanguages(this.plain).some(
+                (candidate) => bip39.validateMnemonic(this.plain, WordlistRegistry.get(candidate))
+            );
+        }
+
         // check if `language` is supported or throw
         MnemonicPassPhrase.assertLanguageSupported(language);
-        return bip39.validateMnemonic(this.plain, bip39.wordlists[language]);
+        return bip39.validateMnemonic(this.plain, WordlistRegistry.get(language));
     }
 
     /**
      * Get the array representation for the mnemonic pass phrase.
      *
-     * Words are split using a white-space character as a separator.
+     * Words are split using any white-space characters as a separator,
+     * including the Japanese ideographic space.
      *
      * @return  {string[]}  Array of plain text words
      */
     public toArray(): string[] {
-        return this.plain.split(' ');
+        return this.plain.trim().split(/\s+/);
     }
 
     /**
@@ -211,21 +689,96 @@ export class MnemonicPassPhrase {
      * In its last step, the function will then use PBKDF2 to derivate the password-
      * protected hexadecimal seed from the salted buffer.
      *
+     * A hardened `profile` (scrypt, more PBKDF2 rounds or KMAC) can be
+     * used instead of the standard BIP39 key stretching. Its descriptor
+     * must be kept with the backup to restore the same seed.
+     *
      * @see https://en.wikipedia.org/wiki/Unicode_equivalence#Normal_forms
+     * @see {SeedProfile}
      * @param   password    {string}
+     * @param   profile     {SeedProfile}   (Optional) The key stretching profile, defaults to BIP39.
      * @return  {Buffer}    Buffer containing bytes of the hexadecimal seed.
      */
     public toSeed(
-        password?: string
+        password?: string,
+        profile: SeedProfile = SeedProfile.BIP39
     ): Buffer {
+        if (!profile.isStandard()) {
+            return profile.deriveSeed(this.plain, password || '');
+        }
+
         return bip39.mnemonicToSeedSync(this.plain, password || '');
     }
 
+    /**
+     * Convert a mnemonic to an **encrypted** hexadecimal seed without
+     * blocking the event loop.
+     *
+     * The result is the same as with `toSeed()`. By default, Node's
+     * asynchronous `crypto.pbkdf2` is used, which runs the PBKDF2
+     * rounds in the libuv thread pool.
+     *
+     * When an `onProgress` callback or a `cancellation` token is given,
+     * the PBKDF2 rounds are instead computed on the event loop in steps
+     * of 128 rounds, yielding in between. The callback receives the
+     * progress as a number between 0 and 1 after each step, and the
+     * token is checked before each step: a cancelled derivation stops
+     * and the returned promise is rejected with an error.
+     *
+     * When a hardened `profile` is given, the seed is derived with
+     * `SeedProfile.deriveSeedAsync` and progress is only reported
+     * on completion.
+     *
+     * @see {MnemonicPassPhrase}#toSeed
+     * @see {CancellationToken}
+     * @see {SeedProfile}
+     * @param   password    {string}
+     * @param   options     {SeedDerivationOptions}  (Optional) Progress callback, cancellation token and profile.
+     * @return  {Promise<Buffer>}   Promise of a buffer containing bytes of the hexadecimal seed.
+     */
+    public toSeedAsync(
+        password?: string,
+        options: SeedDerivationOptions = {}
+    ): Promise<Buffer> {
+        const mnemonic = Buffer.from(this.plain.normalize('NFKD'), 'utf8');
+        const salt = Buffer.from('mnemonic' + (password || '').normalize('NFKD'), 'utf8');
+        const cancellation = options.cancellation;
+
+        if (options.profile && !options.profile.isStandard()) {
+            const onProgress = options.onProgress;
+            const cancelled = () => cancellation !== undefined && cancellation.isCancelled();
+
+            if (cancelled()) {
+                return Promise.reject(new Error('Operation was cancelled.'));
+            }
+
+            return options.profile.deriveSeedAsync(this.plain, password || '', cancellation).then((seed) => {
+                if (cancelled()) {
+                    throw new Error('Operation was cancelled.');
+                }
+
+                if (onProgress) {
+                    onProgress(1);
+                }
+
+                return seed;
+            });
+        }
+
+        if (options.onProgress || cancellation) {
+            return pbkdf2Steps(mnemonic, salt, options.onProgress, cancellation);
+        }
+
+        return new Promise<Buffer>((resolve, reject) => {
+            pbkdf2(mnemonic, salt, PBKDF2_ROUNDS, 64, 'sha512', (err, seed) => err ? reject(err) : resolve(seed));
+        });
+    }
+
     /**
      * Converts a mnemonic to hexadecimal entropy (of `strength` bits).
      *
-     * If the `language` argument is ommited, the default
-     * language 'english' will be used.
+     * If the `language` argument is ommited, the language of the
+     * mnemonic pass phrase will be used, see `getLanguage()`.
      *
      * The `bitcoinjs/bip39` package's `mnemonicToEntropy` function
      * converts words into 11 bit binary strings, then validates the
@@ -238,14 +791,53 @@ export class MnemonicPassPhrase {
      * @see {MnemonicPassPhrase}#mnemonicToSeed
      * @param   language    {string}    (Optional) The language used for the wordlist.
      * @return  {string}    Returns the hexadecimal format of the entropy value.
-     * @throws  {Error}     On unsupported `language` argument.
+     * @throws  {Error}     On unsupported `language` argument, or when the language cannot be determined.
      */
     public toEntropy(
-        language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE
+        language: string = this.getLanguage()
     ): string {
         // check if `language` is supported or throw
         MnemonicPassPhrase.assertLanguageSupported(language);
 
-        return bip39.mnemonicToEntropy(this.plain, bip39.wordlists[language]);
+        return bip39.mnemonicToEntropy(this.plain, WordlistRegistry.get(language));
+    }
+
+    /**
+     * Run entropy health checks on the mnemonic pass phrase, e.g.
+     * for imported mnemonic pass phrases.
+     *
+     * @see {EntropyPolicy}
+     * @param   policy      {EntropyPolicy} (Optional) Entropy health checks policy.
+     * @return  {EntropyWarning[]}  The failed checks (empty for healthy entropy).
+     * @throws  {Error}     On invalid mnemonic pass phrase, or failed health checks with a strict policy.
+     */
+    public checkEntropy(
+        policy: EntropyPolicy = MnemonicPassPhrase.DEFAULT_ENTROPY_POLICY
+    ): EntropyWarning[] {
+        return policy.enforce(this.toEntropy());
+    }
+
+    /**
+     * Translate the mnemonic pass phrase to another wordlist `language`.
+     *
+     * The entropy is read with `toEntropy` and converted back with
+     * `createFromEntropy` in the target language.
+     *
+     * :warning: The translated mnemonic pass phrase represents the same
+     * *entropy* but NOT the same *seed*: `toSeed` applies PBKDF2 to the
+     * normalized words, such that the hyper-deterministic tree and all
+     * derived accounts change. Keep the original mnemonic pass phrase to
+     * restore existing accounts, see `MnemonicPassPhrase.TRANSLATION_WARNING`.
+     *
+     * @see {MnemonicPassPhrase}#toEntropy
+     * @see {MnemonicPassPhrase}.createFromEntropy
+     * @param   language    {string}    The target language.
+     * @return  {MnemonicPassPhrase}    The mnemonic pass phrase in the target language.
+     * @throws  {Error}     On unsupported `language` argument or invalid mnemonic pass phrase.
+     */
+    public translate(
+        language: string
+    ): MnemonicPassPhrase {
+        return MnemonicPassPhrase.createFromEntropy(this.toEntropy(), language);
     }
-}
\ No newline at end of file
+}
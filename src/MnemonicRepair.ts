@@ -0,0 +1,475 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+const createHash = require('create-hash');
+
+// internal dependencies
+import {
+    MnemonicPassPhrase,
+    WordlistRegistry,
+} from '../index';
+
+/**
+ * Word counts permitted by the BIP39 standard.
+ * @var {number[]}
+ */
+const VALID_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+/**
+ * Interface `MnemonicWordDiagnostic` describes a word that
+ * could not be found in the wordlist.
+ */
+export interface MnemonicWordDiagnostic {
+    position: number;
+    word: string;
+    candidates: string[];
+}
+
+/**
+ * Interface `MnemonicDiagnostics` describes the result
+ * of `MnemonicRepair.diagnose()`.
+ */
+export interface MnemonicDiagnostics {
+    valid: boolean;
+    wordCount: number;
+    validWordCount: boolean;
+    unknownWords: MnemonicWordDiagnostic[];
+    checksumValid: boolean;
+}
+
+/**
+ * Type `MnemonicRepairOperation` describes the mistake that
+ * was repaired in a candidate.
+ */
+export type MnemonicRepairOperation = 'substitute' | 'swap' | 'insert' | 'remove';
+
+/**
+ * Interface `MnemonicRepairCandidate` describes a checksum-valid
+ * repaired mnemonic pass phrase. The lower the `cost`, the more
+ * likely the candidate.
+ */
+export interface MnemonicRepairCandidate {
+    mnemonic: MnemonicPassPhrase;
+    operation: MnemonicRepairOperation;
+    positions: number[];
+    cost: number;
+}
+
+/**
+ * Compute the Damerau-Levenshtein (optimal string alignment)
+ * distance between `a` and `b`.
+ *
+ * @param   a   {string}
+ * @param   b   {string}
+ * @return  {number}
+ */
+const editDistance = (
+    a: string,
+    b: string
+): number => {
+    const d: number[][] = [];
+    for (let i = 0; i <= a.length; i++) {
+        d[i] = [i];
+    }
+
+    for (let j = 0; j <= b.length; j++) {
+        d[0][j] = j;
+    }
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+
+            // transposition of two adjacent characters
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+
+    return d[a.length][b.length];
+};
+
+/**
+ * Verify the BIP39 checksum of a list of wordlist `indices`.
+ *
+ * This is a faster equivalent of `bip39.validateMnemonic` that does
+ * not need to look up words, which permits brute-forcing positions.
+ *
+ * @param   indices {number[]}
+ * @return  {boolean}
+ */
+const isChecksumValid = (
+    indices: number[]
+): boolean => {
+
+    // 11 bits per word, ENT + CS bits with CS = ENT / 32
+    const totalBits = indices.length * 11;
+    const checksumBits = totalBits / 33;
+    const entropy = Buffer.alloc((totalBits - checksumBits) / 8);
+
+    let checksum = 0;
+    for (let bit = 0; bit < totalBits; bit++) {
+        const value = (indices[Math.floor(bit / 11)] >> (10 - bit % 11)) & 1;
+        if (bit < entropy.length * 8) {
+            entropy[bit >> 3] |= value << (7 - (bit & 7));
+        }
+        else {
+            checksum = (checksum << 1) | value;
+        }
+    }
+
+    const hash: Buffer = createHash('sha256').update(entropy).digest();
+    return (hash[0] >> (8 - checksumBits)) === checksum;
+};
+
+/**
+ * Class `MnemonicRepair` provides with diagnostics and repair
+ * features for mnemonic pass phrases that do not pass validation
+ * with `MnemonicPassPhrase.isValid()`.
+ *
+ * Following mistakes can be repaired:
+ *
+ * - Words that are not part of the wordlist (typos).
+ * - One wrong word that is part of the wordlist.
+ * - Two words that were swapped.
+ * - One missing word, or one word too many.
+ *
+ * Because the BIP39 checksum only holds 4 to 8 bits, multiple valid
+ * candidates are returned most of the time. Candidates are ranked by
+ * `cost`, which is the edit distance between replaced words, or 1 for
+ * swapped, missing and extra words.
+ *
+ * @example Usage of mnemonic pass phrase repair
+ *
+ * ```typescript
+ * const mnemonic = new MnemonicPassPhrase('alpha patern real admit ...');
+ * const report = MnemonicRepair.diagnose(mnemonic);
+ * const candidates = MnemonicRepair.repair(mnemonic);
+ * ```
+ *
+ * @see https://github.com/bitcoin/bips/blob/master/bip-0039.mediawiki
+ * @since 0.5.0
+ */
+export class MnemonicRepair {
+
+    /**
+     * Maximum edit distance for word suggestions.
+     * @var {number}
+     */
+    public static MAX_EDIT_DISTANCE = 2;
+
+    /**
+     * Maximum number of repair candidates returned.
+     * @var {number}
+     */
+    public static MAX_CANDIDATES = 100;
+
+    /**
+     * Maximum number of suggestion combinations tried for unknown words,
+     * the closest suggestions of each unknown word are kept.
+     * @var {number}
+     */
+    public static MAX_COMBINATIONS = 65536;
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Suggest wordlist words for a word that is not part of the wordlist.
+     *
+     * Candidates include words that share the first 4 letters (BIP39 words
+     * are unique by their first 4 letters) and words within an edit distance
+     * of `MnemonicRepair.MAX_EDIT_DISTANCE`, ordered by edit distance.
+     *
+     * @param   word        {string}    The unknown word.
+     * @param   language    {string}    (Optional) The language used for the wordlist.
+     * @return  {string[]}  The candidate words, closest first.
+     * @throws  {Error}     On unsupported `language` argument.
+     */
+    public static suggestWords(
+        word: string,
+        language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE
+    ): string[] {
+        MnemonicPassPhrase.assertLanguageSupported(language);
+
+        const normalized = word.normalize('NFKD').toLowerCase();
+        const prefix = normalized.substr(0, 4);
+
+        return WordlistRegistry.get(language)
+            .map((candidate) => {
+                const distance = editDistance(normalized, candidate.normalize('NFKD'));
+                const sharesPrefix = prefix.length === 4 && candidate.normalize('NFKD').substr(0, 4) === prefix;
+
+                // words with a common 4-letters prefix come first
+                return {candidate, distance, rank: sharesPrefix ? 0 : distance};
+            })
+            .filter((item) => item.rank === 0 || item.distance <= MnemonicRepair.MAX_EDIT_DISTANCE)
+            .sort((a, b) => a.rank - b.rank || a.distance - b.distance)
+            .map((item) => item.candidate);
+    }
+
+    /**
+     * Diagnose a mnemonic pass phrase.
+     *
+     * The report lists words that are not part of the wordlist together
+     * with candidates, and tells whether the number of words and the
+     * checksum are valid.
+     *
+     * @param   mnemonic    {MnemonicPassPhrase}    The mnemonic pass phrase to diagnose.
+     * @param   language    {string}                (Optional) The language used for the wordlist, see `guessLanguage()`.
+     * @return  {MnemonicDiagnostics}
+     * @throws  {Error}     On unsupported `language` argument or when no word is known.
+     */
+    public static diagnose(
+        mnemonic: MnemonicPassPhrase,
+        language: string = MnemonicRepair.guessLanguage(mnemonic)
+    ): MnemonicDiagnostics {
+        MnemonicPassPhrase.assertLanguageSupported(language);
+
+        const words = mnemonic.toArray();
+        const indices = MnemonicRepair.toIndices(words, language);
+        const unknownWords = words
+            .map((word, position) => ({position, word, candidates: [] as string[]}))
+            .filter((item) => indices[item.position] === -1)
+            .map((item) => ({...item, candidates: MnemonicRepair.suggestWords(item.word, language)}));
+
+        const validWordCount = VALID_WORD_COUNTS.indexOf(words.length) !== -1;
+        const checksumValid = validWordCount && !unknownWords.length && isChecksumValid(indices);
+
+        return {
+            valid: checksumValid,
+            wordCount: words.length,
+            validWordCount,
+            unknownWords,
+            checksumValid,
+        };
+    }
+
+    /**
+     * Repair a mnemonic pass phrase by trying checksum-valid combinations.
+     *
+     * Unknown words are replaced by their suggestions first, and when no
+     * valid combination is found with a single unknown word, every word of
+     * the wordlist is tried at that position. At most `MAX_COMBINATIONS`
+     * combinations of suggestions are tried. Valid sentences with a wrong,
+     * swapped, missing or extra word are searched otherwise.
+     *
+     * A mnemonic pass phrase that is already valid needs no repair, and
+     * an empty list is returned. Candidates are created with `language`.
+     *
+     * @param   mnemonic    {MnemonicPassPhrase}    The mnemonic pass phrase to repair.
+     * @param   language    {string}                (Optional) The language used for the wordlist, see `guessLanguage()`.
+     * @return  {MnemonicRepairCandidate[]}     The valid candidates, most likely first.
+     * @throws  {Error}     On unsupported `language` argument or when no word is known.
+     */
+    public static repair(
+        mnemonic: MnemonicPassPhrase,
+        language: string = MnemonicRepair.guessLanguage(mnemonic)
+    ): MnemonicRepairCandidate[] {
+        MnemonicPassPhrase.assertLanguageSupported(language);
+        if (mnemonic.isValid(language)) {
+            return [];
+        }
+
+        const wordlist = WordlistRegistry.get(language);
+        const separator = language === 'japanese' ? '\u3000' : ' ';
+        const words = mnemonic.toArray();
+        const indices = MnemonicRepair.toIndices(words, language);
+        const unknown = indices.map((index, position) => index === -1 ? position : -1).filter((position) => position !== -1);
+        const validWordCount = VALID_WORD_COUNTS.indexOf(words.length) !== -1;
+        const candidates = new Map<string, MnemonicRepairCandidate>();
+
+        const add = (
+            repaired: number[],
+            operation: MnemonicRepairOperation,
+            positions: number[],
+            cost: number
+        ) => {
+            if (VALID_WORD_COUNTS.indexOf(repaired.length) === -1 || ! isChecksumValid(repaired)) {
+                return;
+            }
+
+            const plain = repaired.map((index) => wordlist[index]).join(separator);
+            const known = candidates.get(plain);
+            if (known === undefined || known.cost > cost) {
+                candidates.set(plain, {mnemonic: new MnemonicPassPhrase(plain, language), operation, positions, cost});
+            }
+        };
+
+        if (unknown.length && validWordCount) {
+        // (1) Replace unknown words with suggestions
+
+            // keep the closest suggestions such that the product stays within MAX_COMBINATIONS
+            const perWord = Math.max(1, Math.floor(Math.pow(MnemonicRepair.MAX_COMBINATIONS, 1 / unknown.length) + 1e-9));
+            const suggestions = unknown.map((position) => MnemonicRepair.suggestWords(words[position], language)
+                .slice(0, perWord)
+                .map((word) => ({index: wordlist.indexOf(word), cost: editDistance(words[position], word)})));
+
+            const combine = (depth: number, repaired: number[], cost: number) => {
+                if (depth === unknown.length) {
+                    return add(repaired, 'substitute', unknown, cost);
+                }
+
+                suggestions[depth].forEach((suggestion) => {
+                    const next = repaired.slice();
+                    next[unknown[depth]] = suggestion.index;
+                    combine(depth + 1, next, cost + suggestion.cost);
+                });
+            };
+
+            combine(0, indices, 0);
+
+            // (2) Try the full wordlist for a single unknown word
+            if (! candidates.size && unknown.length === 1) {
+                MnemonicRepair.substitute(indices, unknown[0], words[unknown[0]], wordlist, add);
+            }
+        }
+        else if (! unknown.length && validWordCount) {
+        // (3) One wrong word or two swapped words
+
+            indices.forEach((_, position) => MnemonicRepair.substitute(indices, position, words[position], wordlist, add));
+
+            for (let i = 0; i < indices.length; i++) {
+                for (let j = i + 1; j < indices.length; j++) {
+                    const swapped = indices.slice();
+                    swapped[i] = indices[j];
+                    swapped[j] = indices[i];
+                    add(swapped, 'swap', [i, j], 1);
+                }
+            }
+        }
+        else if (! unknown.length && VALID_WORD_COUNTS.indexOf(words.length + 1) !== -1) {
+        // (4) One missing word
+
+            for (let position = 0; position <= indices.length; position++) {
+                wordlist.forEach((_, index) => {
+                    const inserted = indices.slice(0, position).concat([index], indices.slice(position));
+                    add(inserted, 'insert', [position], 1);
+                });
+            }
+        }
+        else if (unknown.length <= 1 && VALID_WORD_COUNTS.indexOf(words.length - 1) !== -1) {
+        // (5) One word too many (or one unknown word too many)
+
+            indices.forEach((_, position) => {
+                if (unknown.length && unknown[0] !== position) {
+                    return;
+                }
+
+                const removed = indices.slice(0, position).concat(indices.slice(position + 1));
+                add(removed, 'remove', [position], 1);
+            });
+        }
+
+        const ranked: MnemonicRepairCandidate[] = [];
+        candidates.forEach((candidate) => ranked.push(candidate));
+
+        return ranked
+            .sort((a, b) => a.cost - b.cost || a.positions[0] - b.positions[0])
+            .slice(0, MnemonicRepair.MAX_CANDIDATES);
+    }
+
+    /**
+     * Guess the language of a mnemonic pass phrase that may contain
+     * mistakes.
+     *
+     * This is the language of `mnemonic` when it was given to its
+     * constructor, otherwise the first detected language when all words
+     * are known, see `MnemonicPassPhrase.detectLanguages()`. Otherwise,
+     * this is the language whose wordlist contains the most words.
+     *
+     * @param   mnemonic    {MnemonicPassPhrase}
+     * @return  {string}
+     * @throws  {Error}     When no word is part of any wordlist.
+     */
+    public static guessLanguage(
+        mnemonic: MnemonicPassPhrase
+    ): string {
+        if (mnemonic.language !== undefined) {
+            return mnemonic.language;
+        }
+
+        const detected = MnemonicPassPhrase.detectLanguages(mnemonic.plain);
+        if (detected.length) {
+            return detected[0];
+        }
+
+        const words = mnemonic.toArray();
+        const known = MnemonicPassPhrase.getLanguages().map((language) => ({
+            language,
+            count: MnemonicRepair.toIndices(words, language).filter((index) => index !== -1).length,
+        })).sort((a, b) => b.count - a.count);
+
+        if (! known[0].count) {
+            throw new Error('Could not detect language of mnemonic pass phrase.');
+        }
+
+        return known[0].language;
+    }
+
+    /**
+     * Get the wordlist indices of `words`, -1 for unknown words.
+     *
+     * @internal
+     * @param   words       {string[]}
+     * @param   language    {string}
+     * @return  {number[]}
+     */
+    protected static toIndices(
+        words: string[],
+        language: string
+    ): number[] {
+        const wordlist = WordlistRegistry.get(language).map((word) => word.normalize('NFKD'));
+        return words.map((word) => wordlist.indexOf(word.normalize('NFKD')));
+    }
+
+    /**
+     * Try every word of the wordlist at `position`.
+     *
+     * @internal
+     * @param   indices     {number[]}
+     * @param   position    {number}
+     * @param   original    {string}
+     * @param   wordlist    {string[]}
+     * @param   add         {function}
+     * @return  {void}
+     */
+    protected static substitute(
+        indices: number[],
+        position: number,
+        original: string,
+        wordlist: string[],
+        add: (repaired: number[], operation: MnemonicRepairOperation, positions: number[], cost: number) => void
+    ): void {
+        wordlist.forEach((word, index) => {
+            if (index === indices[position]) {
+                return;
+            }
+
+            const repaired = indices.slice();
+            repaired[position] = index;
+            add(repaired, 'substitute', [position], editDistance(original, word));
+        });
+    }
+}
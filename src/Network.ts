@@ -18,6 +18,8 @@
  * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
  * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
  */
+import {NetworkType} from 'nem2-sdk';
+
 // internal dependencies
 import {
     CurveAlgorithm,
@@ -31,13 +33,20 @@ import {
  * For the BITCOIN protocol, the prefixes result to `xprv` and `xpub`
  * for the mainnet network. 
  *
- * For the CATAPULT protocol, we will be using the same prefixes and 
- * extended key sizes and formats.
+ * For the CATAPULT protocol, we use dedicated prefixes which result
+ * to `cprv` and `cpub`, with the same extended key sizes and formats.
+ * This makes ED25519 extended keys distinguishable from secp256k1
+ * extended keys by their version bytes.
+ *
+ * Networks also define the default SLIP-44 coin type of derivation
+ * paths and, for CATAPULT networks, the nem2-sdk `NetworkType` of
+ * accounts. Custom networks can be added with `NetworkRegistry`.
  *
  * @see https://github.com/bitcoinjs/bip32/blob/master/src/bip32.js#L19
  * @see https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki
  * @see https://github.com/bitcoinjs/bip32
  * @see https://github.com/nemtech/NIP/issues/12
+ * @see https://github.com/satoshilabs/slips/blob/master/slip-0044.md
  * @since 0.1.0
  */
 export class Network {
@@ -50,16 +59,99 @@ export class Network {
      * @see https://github.com/bitcoinjs/bip32/blob/master/src/bip32.js#L19
      * @var {Network}
      */
-    public static readonly BITCOIN = new Network(0x0488b21e, 0x0488ade4, CurveAlgorithm.secp256k1);
+    public static readonly BITCOIN = new Network(0x0488b21e, 0x0488ade4, CurveAlgorithm.secp256k1, 0);
+
+    /**
+     * BITCOIN testnet extended key prefixes
+     *
+     * Result in Base58 notation to `tpub` and `tprv`.
+     *
+     * @see https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki#serialization-format
+     * @var {Network}
+     * @since 0.5.0
+     */
+    public static readonly BITCOIN_TESTNET = new Network(0x043587cf, 0x04358394, CurveAlgorithm.secp256k1, 1);
 
     /**
      * CATAPULT protocol extended key prefixes
      *
-     * Result in Base58 notation to `xpub` and `xprv`.
+     * Result in Base58 notation to `cpub` and `cprv`. Accounts default
+     * to `NetworkType.MIJIN_TEST`.
+     *
+     * Before v0.5.0, CATAPULT extended keys used the BITCOIN prefixes,
+     * those can still be imported with the `legacy` flag of
+     * `ExtendedKey.createFromBase58`.
+     *
+     * @var {Network}
+     */
+    public static readonly CATAPULT = new Network(0x02e8de8f, 0x02e8da55, CurveAlgorithm.ed25519, 43, NetworkType.MIJIN_TEST);
+
+    /**
+     * CATAPULT extended key prefixes for `NetworkType.MIJIN` accounts.
+     *
+     * Result in Base58 notation to `mpub` and `mprv`.
      *
      * @var {Network}
+     * @since 0.5.0
      */
-    public static readonly CATAPULT = new Network(0x0488b21e, 0x0488ade4, CurveAlgorithm.ed25519);
+    public static readonly MIJIN = new Network(0x03a3fdc2, 0x03a3f988, CurveAlgorithm.ed25519, 43, NetworkType.MIJIN);
+
+    /**
+     * CATAPULT extended key prefixes for `NetworkType.MIJIN_TEST` accounts.
+     *
+     * Result in Base58 notation to `cpub` and `cprv`, like `Network.CATAPULT`.
+     *
+     * @var {Network}
+     * @since 0.5.0
+     */
+    public static readonly MIJIN_TEST = new Network(0x02e8de8f, 0x02e8da55, CurveAlgorithm.ed25519, 43, NetworkType.MIJIN_TEST);
+
+    /**
+     * CATAPULT extended key prefixes for `NetworkType.MAIN_NET` accounts.
+     *
+     * Result in Base58 notation to `Cpub` and `Cprv`.
+     *
+     * @var {Network}
+     * @since 0.5.0
+     */
+    public static readonly MAIN_NET = new Network(0x37b4e7ad, 0x37b3f26e, CurveAlgorithm.ed25519, 43, NetworkType.MAIN_NET);
+
+    /**
+     * CATAPULT extended key prefixes for `NetworkType.TEST_NET` accounts.
+     *
+     * Result in Base58 notation to `Tpub` and `Tprv`.
+     *
+     * @var {Network}
+     * @since 0.5.0
+     */
+    public static readonly TEST_NET = new Network(0x022dbf5b, 0x022dbb21, CurveAlgorithm.ed25519, 43, NetworkType.TEST_NET);
+
+    /**
+     * CATAPULT extended key prefixes for the BIP32-Ed25519 scheme.
+     *
+     * Result in Base58 notation to `epub` and `eprv`. Extended keys of
+     * this scheme permit non-hardened public child key derivation and
+     * are not compatible with SLIP-10 `cprv` and `cpub` extended keys.
+     * Accounts default to `NetworkType.MIJIN_TEST`.
+     *
+     * @see https://cardanolaunch.com/assets/Ed25519_BIP.pdf
+     * @var {Network}
+     * @since 0.5.0
+     */
+    public static readonly CATAPULT_ED25519_BIP32 = new Network(0xb22e3800, 0x0a5760c0, CurveAlgorithm.ed25519_bip32, 43, NetworkType.MIJIN_TEST);
+
+    /**
+     * NIST P-256 (nist256p1) extended key prefixes.
+     *
+     * Result in Base58 notation to `npub` and `nprv`, such that extended
+     * keys of this curve are not mistaken for `Network.BITCOIN` extended
+     * keys by `ExtendedKey.createFromBase58`.
+     *
+     * @see https://github.com/satoshilabs/slips/blob/master/slip-0010.md
+     * @var {Network}
+     * @since 0.5.0
+     */
+    public static readonly NIST256P1 = new Network(0x03b8c856, 0x03b8c41c, CurveAlgorithm.nist256p1, 0);
 
     /**
      * Construct an `Network` object out of its' base58 payload.
@@ -82,7 +174,17 @@ export class Network {
                  * The ellyptic curve algorithm
                  * @var {CurveAlgorithm}
                  */
-                public readonly curve: CurveAlgorithm = CurveAlgorithm.secp256k1) {
+                public readonly curve: CurveAlgorithm = CurveAlgorithm.secp256k1,
+                /**
+                 * The default SLIP-44 coin type of derivation paths
+                 * @var {number}
+                 */
+                public readonly coinType: number = 0,
+                /**
+                 * The nem2-sdk network type of accounts (CATAPULT networks only)
+                 * @var {NetworkType | undefined}
+                 */
+                public readonly networkType?: NetworkType) {
 
     }
 }
\ No newline at end of file
@@ -0,0 +1,217 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {NetworkType} from 'nem2-sdk';
+
+// internal dependencies
+import {
+    Network,
+} from '../index';
+
+/**
+ * Class `NetworkRegistry` holds the networks that can be used with
+ * `ExtendedKey`, `Keystore` and `RecoverySearch`, indexed by name.
+ *
+ * The registry is initialized with the static networks of `Network`.
+ * Custom networks can be added with `NetworkRegistry.register()`.
+ *
+ * Networks are identified by object, the name of a network is used
+ * when it must be serialized (e.g. in keystore files).
+ *
+ * @example Usage of custom networks
+ *
+ * ```typescript
+ * NetworkRegistry.register('LITECOIN', new Network(0x019da462, 0x019d9cfe, CurveAlgorithm.secp256k1, 2));
+ * const xkey = ExtendedKey.createFromSeed(seed, NetworkRegistry.get('LITECOIN'));
+ * ```
+ *
+ * @see https://github.com/satoshilabs/slips/blob/master/slip-0044.md
+ * @since 0.5.0
+ */
+export class NetworkRegistry {
+
+    /**
+     * The registered networks.
+     * @var {Object}
+     */
+    private static readonly networks: {[name: string]: Network} = {
+        BITCOIN: Network.BITCOIN,
+        BITCOIN_TESTNET: Network.BITCOIN_TESTNET,
+        CATAPULT: Network.CATAPULT,
+        MIJIN: Network.MIJIN,
+        MIJIN_TEST: Network.MIJIN_TEST,
+        MAIN_NET: Network.MAIN_NET,
+        TEST_NET: Network.TEST_NET,
+        CATAPULT_ED25519_BIP32: Network.CATAPULT_ED25519_BIP32,
+        NIST256P1: Network.NIST256P1,
+    };
+
+    /**
+     * The names of `Network` static networks, these
+     * cannot be overwritten or unregistered.
+     * @var {string[]}
+     */
+    private static readonly builtins: string[] = Object.keys(NetworkRegistry.networks);
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Register a custom `network` with `name`.
+     *
+     * @param   name        {string}    The network name (upper-case letters, digits and underscores).
+     * @param   network     {Network}   The network.
+     * @return  {void}
+     * @throws  {Error}     On invalid network name, built-in network or network registered with another name.
+     */
+    public static register(
+        name: string,
+        network: Network
+    ): void {
+        if (! /^[A-Z][A-Z0-9_]*$/.test(name)) {
+            throw new Error('Network name must contain only upper-case letters, digits and underscores.');
+        }
+
+        if (NetworkRegistry.isBuiltIn(name)) {
+            throw new Error('Network "' + name + '" is built-in and cannot be overwritten.');
+        }
+
+        const registered = NetworkRegistry.getName(network);
+        if (registered !== undefined && registered !== name) {
+            throw new Error('Network is already registered as "' + registered + '".');
+        }
+
+        NetworkRegistry.networks[name] = network;
+    }
+
+    /**
+     * Remove the custom network with `name`.
+     *
+     * @param   name    {string}
+     * @return  {void}
+     * @throws  {Error}     On built-in network.
+     */
+    public static unregister(
+        name: string
+    ): void {
+        if (NetworkRegistry.isBuiltIn(name)) {
+            throw new Error('Network "' + name + '" is built-in and cannot be unregistered.');
+        }
+
+        delete NetworkRegistry.networks[name];
+    }
+
+    /**
+     * Return whether a network is registered with `name`.
+     *
+     * @param   name    {string}
+     * @return  {boolean}
+     */
+    public static has(
+        name: string
+    ): boolean {
+        return NetworkRegistry.networks.hasOwnProperty(name);
+    }
+
+    /**
+     * Return whether `name` is the name of a `Network` static network.
+     *
+     * @param   name    {string}
+     * @return  {boolean}
+     */
+    public static isBuiltIn(
+        name: string
+    ): boolean {
+        return NetworkRegistry.builtins.indexOf(name) !== -1;
+    }
+
+    /**
+     * Get the network registered with `name`.
+     *
+     * @param   name    {string}
+     * @return  {Network}
+     * @throws  {Error}     On unknown `name` argument.
+     */
+    public static get(
+        name: string
+    ): Network {
+        if (! NetworkRegistry.has(name)) {
+            throw new Error('Network "' + name + '" is not registered.');
+        }
+
+        return NetworkRegistry.networks[name];
+    }
+
+    /**
+     * Get the name of a registered `network`.
+     *
+     * @param   network     {Network}
+     * @return  {string | undefined}    The name, or undefined for unregistered networks.
+     */
+    public static getName(
+        network: Network
+    ): string | undefined {
+        return NetworkRegistry.getNames().filter((name) => NetworkRegistry.networks[name] === network)[0];
+    }
+
+    /**
+     * Get the list of registered network names, in registration order.
+     *
+     * @return  {string[]}
+     */
+    public static getNames(): string[] {
+        return Object.keys(NetworkRegistry.networks);
+    }
+
+    /**
+     * Find the first registered network with `version` as public
+     * or private extended key prefix.
+     *
+     * CATAPULT networks use distinct prefixes per `NetworkType`, except
+     * `Network.MIJIN_TEST` which shares the `cprv` and `cpub` version
+     * bytes of `Network.CATAPULT`: `Network.CATAPULT` is found for these.
+     *
+     * @param   version     {number}    The extended key version bytes.
+     * @return  {Network | undefined}
+     */
+    public static findByVersion(
+        version: number
+    ): Network | undefined {
+        return NetworkRegistry.getNames().map((name) => NetworkRegistry.networks[name]).filter(
+            (network) => version === network.privateKeyPrefix || version === network.publicKeyPrefix
+        )[0];
+    }
+
+    /**
+     * Find the first registered network of nem2-sdk `networkType`.
+     *
+     * @param   networkType     {NetworkType}
+     * @return  {Network | undefined}
+     */
+    public static findByNetworkType(
+        networkType: NetworkType
+    ): Network | undefined {
+        return NetworkRegistry.getNames().map((name) => NetworkRegistry.networks[name]).filter(
+            (network) => network.networkType === networkType
+        )[0];
+    }
+}
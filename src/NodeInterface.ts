@@ -36,6 +36,7 @@ export interface NodeInterface {
     publicKey: Buffer;
     network: Network;
     chainCode: Buffer;
+    fingerprint: Buffer;
 
     isNeutered(): boolean;
     neutered(): NodeInterface;
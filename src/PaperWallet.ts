@@ -0,0 +1,257 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {NetworkType} from 'nem2-sdk';
+
+// internal dependencies
+import {
+    CurveAlgorithm,
+    ExtendedKey,
+    MnemonicPassPhrase,
+    Network,
+    QRCode,
+    QRRenderer,
+    SeedProfile,
+    SeedQR,
+    Wallet,
+} from '../index';
+
+/**
+ * Interface `PaperWalletOptions` describes the options
+ * of `PaperWallet.createSheet()` and `PaperWallet.generate()`.
+ */
+export interface PaperWalletOptions {
+    mnemonic?: MnemonicPassPhrase;
+    extendedKey?: ExtendedKey;
+    password?: string;
+    seedProfile?: SeedProfile;
+    publicOnly?: boolean;
+    networkType?: NetworkType;
+    title?: string;
+}
+
+/**
+ * Interface `PaperWalletSheet` describes the content
+ * of a paper wallet backup sheet.
+ */
+export interface PaperWalletSheet {
+    title: string;
+    publicOnly: boolean;
+    words: string[];
+    seedQR: QRCode | null;
+    seedProfile: string | null;
+    fingerprint: string;
+    isMaster: boolean;
+    extendedPrivateKey: string | null;
+    extendedPublicKey: string;
+    accountPath: string;
+    accountAddress: string | null;
+}
+
+/**
+ * Escape `text` for use in HTML content and attributes.
+ *
+ * @param   text    {string}
+ * @return  {string}
+ */
+const escapeHtml = (
+    text: string
+): string => {
+    return text.replace(/&/g, '&amp;')
+               .replace(/</g, '&lt;')
+               .replace(/>/g, '&gt;')
+               .replace(/"/g, '&quot;')
+               .replace(/'/g, '&#39;');
+};
+
+/**
+ * Render a labelled value with an optional QR code.
+ *
+ * @param   label   {string}
+ * @param   value   {string}
+ * @param   qr      {QRCode|null}
+ * @return  {string}
+ */
+const renderField = (
+    label: string,
+    value: string,
+    qr: QRCode | null
+): string => {
+    return '<section class="field">'
+         + '<h2>' + escapeHtml(label) + '</h2>'
+         + (qr ? '<div class="qr">' + QRRenderer.toSVG(qr, {scale: 3}) + '</div>' : '')
+         + '<p class="value">' + escapeHtml(value) + '</p>'
+         + '</section>';
+};
+
+/**
+ * Class `PaperWallet` generates printable backup sheets of a mnemonic
+ * pass phrase and/or extended key, as self-contained HTML documents
+ * with inline SVG QR codes (no external resources).
+ *
+ * The private sheet shows the numbered words with a SeedQR, or the
+ * extended private key when no mnemonic pass phrase is given. The
+ * public sheet (`publicOnly`) is redacted: it only shows the key
+ * fingerprint, the neutered extended key and the default account
+ * address, such that it can be used to set up watch-only wallets.
+ *
+ * @example Usage of paper wallets
+ *
+ * ```typescript
+ * const html = PaperWallet.generate({mnemonic});
+ * const publicHtml = PaperWallet.generate({mnemonic, publicOnly: true});
+ * ```
+ *
+ * @see {SeedQR}
+ * @since 0.5.0
+ */
+export class PaperWallet {
+
+    /**
+     * Default title of backup sheets.
+     * @var {string}
+     */
+    public static DEFAULT_TITLE = 'Hyper-deterministic wallet backup';
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Collect the content of a backup sheet.
+     *
+     * When no `extendedKey` is given, the master key is created from the
+     * `mnemonic` (and optional BIP39 `password` and `seedProfile`) for
+     * `Network.CATAPULT`. The descriptor of a non-standard seed profile is
+     * printed next to the words, it is needed to restore the same keys.
+     *
+     * The default account address (`Wallet.DEFAULT_WALLET_PATH`) is only
+     * available with an extended private key of a CATAPULT network, it
+     * uses the network type of the extended key network by default.
+     *
+     * @param   options     {PaperWalletOptions}
+     * @return  {PaperWalletSheet}
+     * @throws  {Error}     On missing mnemonic pass phrase and extended key.
+     */
+    public static createSheet(
+        options: PaperWalletOptions
+    ): PaperWalletSheet {
+        if (!options.mnemonic && !options.extendedKey) {
+            throw new Error('Paper wallet needs a mnemonic pass phrase or an extended key.');
+        }
+
+        const mnemonic = options.mnemonic;
+        const profile = options.seedProfile || SeedProfile.BIP39;
+        const xkey = options.extendedKey || ExtendedKey.createFromSeed(
+            (mnemonic as MnemonicPassPhrase).toSeed(options.password, profile).toString('hex'),
+            Network.CATAPULT
+        );
+
+        const publicOnly = options.publicOnly === true;
+        const showWords = !publicOnly && mnemonic !== undefined;
+        const showPrivateKey = !publicOnly && !showWords && !xkey.isNeutered();
+
+        // hardened derivation of the default account needs the private key
+        let accountAddress: string | null = null;
+        const networkType = options.networkType !== undefined ? options.networkType : xkey.network.networkType;
+        if (xkey.network.curve === CurveAlgorithm.ed25519 && !xkey.isNeutered() && networkType !== undefined) {
+            const account = new Wallet(xkey).getChildPublicAccount(
+                Wallet.DEFAULT_WALLET_PATH,
+                networkType
+            );
+            accountAddress = account.address.pretty();
+        }
+
+        return {
+            title: options.title || PaperWallet.DEFAULT_TITLE,
+            publicOnly: publicOnly,
+            words: showWords ? (mnemonic as MnemonicPassPhrase).toArray() : [],
+            seedQR: showWords ? SeedQR.toQRCode(mnemonic as MnemonicPassPhrase) : null,
+            seedProfile: showWords && !profile.isStandard() ? profile.toDescriptor() : null,
+            fingerprint: xkey.node.fingerprint.toString('hex'),
+            isMaster: xkey.isMaster(),
+            extendedPrivateKey: showPrivateKey ? xkey.toBase58() : null,
+            extendedPublicKey: xkey.getPublicNode().toBase58(),
+            accountPath: Wallet.DEFAULT_WALLET_PATH,
+            accountAddress: accountAddress,
+        };
+    }
+
+    /**
+     * Generate a backup sheet as self-contained HTML document.
+     *
+     * @see {PaperWallet}.createSheet
+     * @param   options     {PaperWalletOptions}
+     * @return  {string}
+     * @throws  {Error}     On missing mnemonic pass phrase and extended key.
+     */
+    public static generate(
+        options: PaperWalletOptions
+    ): string {
+        const sheet = PaperWallet.createSheet(options);
+        const sections: string[] = [];
+
+        if (sheet.words.length) {
+            sections.push('<section class="field"><h2>Mnemonic pass phrase</h2>'
+                + (sheet.seedQR ? '<div class="qr">' + QRRenderer.toSVG(sheet.seedQR, {scale: 3}) + '</div>' : '')
+                + '<ol class="words">'
+                + sheet.words.map((word) => '<li>' + escapeHtml(word) + '</li>').join('')
+                + '</ol></section>');
+        }
+
+        if (sheet.seedProfile) {
+            sections.push(renderField('Seed profile', sheet.seedProfile, null));
+        }
+
+        if (sheet.extendedPrivateKey) {
+            sections.push(renderField('Extended private key', sheet.extendedPrivateKey,
+                QRCode.encodeText(sheet.extendedPrivateKey, 'M')));
+        }
+
+        sections.push(renderField(sheet.isMaster ? 'Master fingerprint' : 'Fingerprint', sheet.fingerprint, null));
+        sections.push(renderField('Extended public key', sheet.extendedPublicKey,
+            QRCode.encodeText(sheet.extendedPublicKey, 'M')));
+
+        if (sheet.accountAddress) {
+            sections.push(renderField('Account address (' + sheet.accountPath + ')', sheet.accountAddress,
+                QRCode.encodeText(sheet.accountAddress.replace(/-/g, ''), 'M')));
+        }
+
+        const notice = sheet.publicOnly
+            ? 'Public sheet: this sheet does not contain any secret and permits watch-only access.'
+            : 'Private sheet: anyone with this sheet can spend your funds. Keep it offline and safe.';
+
+        return '<!DOCTYPE html>'
+             + '<html><head><meta charset="utf-8"><title>' + escapeHtml(sheet.title) + '</title>'
+             + '<style>'
+             + 'body{font-family:sans-serif;margin:2em;color:#000;background:#fff}'
+             + '.notice{border:2px solid #000;padding:.5em}'
+             + '.field{page-break-inside:avoid;margin:1em 0}'
+             + '.qr svg{width:12em;height:12em}'
+             + '.value{font-family:monospace;word-break:break-all}'
+             + '.words{columns:3;font-family:monospace;font-size:1.2em}'
+             + '</style></head><body>'
+             + '<h1>' + escapeHtml(sheet.title) + '</h1>'
+             + '<p class="notice">' + notice + '</p>'
+             + sections.join('')
+             + '</body></html>';
+    }
+}
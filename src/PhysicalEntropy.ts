@@ -0,0 +1,161 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+const createHash = require('create-hash');
+
+/**
+ * Class `PhysicalEntropy` converts physical entropy sources, such
+ * as dice rolls or coin flips, into entropy for mnemonic pass phrases.
+ *
+ * This permits air-gapped key ceremonies that do not depend on
+ * a random number generator (e.g. `MnemonicPassPhrase.CATAPULT_RNG`).
+ *
+ * Debiasing methods:
+ *
+ * - Dice rolls are concatenated as a string of digits '1' to '6' and
+ *   hashed with SHA-256. The hash acts as a randomness extractor and
+ *   the left-most `strength` bits are used. A fair six-sided die
+ *   provides log2(6) ~ 2.585 bits per roll, so at least
+ *   `ceil(strength / log2(6))` rolls are required (50 rolls for 128
+ *   bits, 100 rolls for 256 bits). This is compatible with the dice
+ *   roll method of the Coldcard hardware wallet.
+ *
+ * - Coin flips are debiased with the von Neumann extractor: flips are
+ *   read in pairs, `HT` produces a 0 bit, `TH` produces a 1 bit, `HH`
+ *   and `TT` are discarded. This removes the bias of a coin as long as
+ *   flips are independent, and takes about 4 flips per bit with a fair
+ *   coin. The first `strength` bits are used.
+ *
+ * @see https://en.wikipedia.org/wiki/Randomness_extractor#Von_Neumann_extractor
+ * @see https://coldcard.com/docs/verifying-dice-roll-math
+ * @since 0.5.0
+ */
+export class PhysicalEntropy {
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Get the minimum number of six-sided dice rolls for `strength`.
+     *
+     * @param   strength    {number}    The entropy strength in bits.
+     * @return  {number}
+     */
+    public static getMinimumDiceRolls(
+        strength: number
+    ): number {
+        return Math.ceil(strength / Math.log2(6));
+    }
+
+    /**
+     * Create `strength` bits of entropy from six-sided dice rolls.
+     *
+     * Rolls can be given as an array of numbers or as a string of
+     * digits (white-space characters are ignored).
+     *
+     * @param   rolls       {string|number[]}   The dice rolls (1 to 6).
+     * @param   strength    {number}            The entropy strength in bits (% 32 == 0).
+     * @return  {Buffer}
+     * @throws  {Error}     On invalid rolls, invalid strength or insufficient number of rolls.
+     */
+    public static fromDiceRolls(
+        rolls: string | number[],
+        strength: number
+    ): Buffer {
+        PhysicalEntropy.assertStrength(strength);
+
+        const digits = typeof rolls === 'string' ? rolls.replace(/\s/g, '') : rolls.join('');
+        if (! /^[1-6]*$/.test(digits)) {
+            throw new Error('Invalid dice roll, each roll must be a number between 1 and 6.');
+        }
+
+        const minimum = PhysicalEntropy.getMinimumDiceRolls(strength);
+        if (digits.length < minimum) {
+            throw new Error('Insufficient number of dice rolls, need at least ' + minimum
+                          + ' rolls for ' + strength + ' bits, but got: ' + digits.length + ' rolls.');
+        }
+
+        const hash: Buffer = createHash('sha256').update(Buffer.from(digits, 'ascii')).digest();
+        return hash.slice(0, strength / 8);
+    }
+
+    /**
+     * Create `strength` bits of entropy from coin flips.
+     *
+     * Flips can be given as a string of 'H' (heads) and 'T' (tails),
+     * or as an array of numbers (1 for heads, 0 for tails). White-space
+     * characters are ignored.
+     *
+     * @param   flips       {string|number[]}   The coin flips.
+     * @param   strength    {number}            The entropy strength in bits (% 32 == 0).
+     * @return  {Buffer}
+     * @throws  {Error}     On invalid flips, invalid strength or insufficient number of flips.
+     */
+    public static fromCoinFlips(
+        flips: string | number[],
+        strength: number
+    ): Buffer {
+        PhysicalEntropy.assertStrength(strength);
+
+        const sides = typeof flips === 'string'
+                    ? flips.replace(/\s/g, '').toUpperCase()
+                    : flips.map((flip) => flip === 1 ? 'H' : (flip === 0 ? 'T' : '?')).join('');
+        if (! /^[HT]*$/.test(sides)) {
+            throw new Error('Invalid coin flip, each flip must be one of H (1) or T (0).');
+        }
+
+        // von Neumann extractor: HT = 0, TH = 1, HH and TT are discarded
+        const bits: number[] = [];
+        for (let i = 0; i + 1 < sides.length && bits.length < strength; i += 2) {
+            if (sides[i] !== sides[i + 1]) {
+                bits.push(sides[i] === 'H' ? 0 : 1);
+            }
+        }
+
+        if (bits.length < strength) {
+            throw new Error('Insufficient number of coin flips, got ' + bits.length + ' unbiased bits out of '
+                          + strength + ' bits, please add more flips.');
+        }
+
+        const entropy = Buffer.alloc(strength / 8);
+        bits.forEach((bit, i) => entropy[i >> 3] |= bit << (7 - (i & 7)));
+        return entropy;
+    }
+
+    /**
+     * Assert whether `strength` is BIP39 compliant.
+     *
+     * @internal
+     * @param   strength    {number}
+     * @return  {boolean}   True for *valid strength*, never false.
+     * @throws  {Error}     On invalid `strength` argument.
+     */
+    protected static assertStrength(
+        strength: number
+    ): true {
+        if (strength % 32 !== 0 || strength < 128 || strength > 256) {
+            throw new Error('Invalid strength, must be multiple of 32 with: 128 >= strength <= 256.');
+        }
+
+        return true;
+    }
+}
@@ -0,0 +1,856 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+
+/**
+ * Type `QRErrorCorrection` lists the error correction levels of
+ * QR codes, recovering about 7% (L), 15% (M), 25% (Q) or 30% (H)
+ * of the codewords.
+ */
+export type QRErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+/**
+ * Interface `QRSegment` describes a segment of data encoded
+ * with one of the numeric, alphanumeric or byte modes.
+ */
+export interface QRSegment {
+    mode: number;
+    numChars: number;
+    bits: number[];
+}
+
+/**
+ * Format bits of the error correction levels.
+ * @var {Object}
+ */
+const FORMAT_BITS: {[level: string]: number} = {L: 1, M: 0, Q: 3, H: 2};
+
+/**
+ * Number of error correction codewords per block, by level
+ * and version (index 0 is unused).
+ * @var {Object}
+ */
+const ECC_CODEWORDS_PER_BLOCK: {[level: string]: number[]} = {
+    L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+    Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+/**
+ * Number of error correction blocks, by level and
+ * version (index 0 is unused).
+ * @var {Object}
+ */
+const ECC_BLOCKS: {[level: string]: number[]} = {
+    L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+    M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+    Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+    H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+/**
+ * Characters of the alphanumeric mode.
+ * @var {string}
+ */
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+/**
+ * Mode indicators and character count bits (versions
+ * 1-9, 10-26 and 27-40) of the encoding modes.
+ * @var {Object}
+ */
+const MODES = {
+    NUMERIC: {indicator: 0x1, countBits: [10, 12, 14]},
+    ALPHANUMERIC: {indicator: 0x2, countBits: [9, 11, 13]},
+    BYTE: {indicator: 0x4, countBits: [8, 16, 16]},
+};
+
+/**
+ * Append the `length` low bits of `value` to `bits`.
+ *
+ * @param   bits    {number[]}
+ * @param   value   {number}
+ * @param   length  {number}
+ * @return  {void}
+ */
+const appendBits = (
+    bits: number[],
+    value: number,
+    length: number
+): void => {
+    for (let i = length - 1; i >= 0; i--) {
+        bits.push((value >>> i) & 1);
+    }
+};
+
+/**
+ * Get the character count bits of `mode` for `version`.
+ *
+ * @param   mode    {number}    The mode indicator.
+ * @param   version {number}
+ * @return  {number}
+ */
+const countBits = (
+    mode: number,
+    version: number
+): number => {
+    const modes = [MODES.NUMERIC, MODES.ALPHANUMERIC, MODES.BYTE];
+    const index = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+    return modes.filter((m) => m.indicator === mode)[0].countBits[index];
+};
+
+/**
+ * Multiply two elements of GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1.
+ *
+ * @param   x   {number}
+ * @param   y   {number}
+ * @return  {number}
+ */
+const gfMultiply = (
+    x: number,
+    y: number
+): number => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z & 0xff;
+};
+
+/**
+ * Compute the Reed-Solomon error correction codewords of `data`.
+ *
+ * @param   data    {number[]}
+ * @param   degree  {number}    The number of error correction codewords.
+ * @return  {number[]}
+ */
+const reedSolomon = (
+    data: number[],
+    degree: number
+): number[] => {
+    // generator polynomial (x - 2^0)(x - 2^1)...(x - 2^(degree-1))
+    const divisor: number[] = new Array(degree).fill(0);
+    divisor[degree - 1] = 1;
+    for (let i = 0, root = 1; i < degree; i++) {
+        for (let j = 0; j < divisor.length; j++) {
+            divisor[j] = gfMultiply(divisor[j], root);
+            if (j + 1 < divisor.length) {
+                divisor[j] ^= divisor[j + 1];
+            }
+        }
+        root = gfMultiply(root, 0x02);
+    }
+
+    // polynomial division remainder
+    const result: number[] = new Array(degree).fill(0);
+    data.forEach((byte) => {
+        const factor = byte ^ (result.shift() as number);
+        result.push(0);
+        divisor.forEach((coefficient, i) => result[i] ^= gfMultiply(coefficient, factor));
+    });
+
+    return result;
+};
+
+/**
+ * Get the number of data and error correction bits of `version`,
+ * excluding function patterns, format and version information.
+ *
+ * @param   version {number}
+ * @return  {number}
+ */
+const getRawDataModules = (
+    version: number
+): number => {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const numAlign = Math.floor(version / 7) + 2;
+        result -= (25 * numAlign - 10) * numAlign - 55;
+        if (version >= 7) {
+            result -= 36;
+        }
+    }
+    return result;
+};
+
+/**
+ * Get the number of data codewords of `version` and `level`.
+ *
+ * @param   version {number}
+ * @param   level   {QRErrorCorrection}
+ * @return  {number}
+ */
+const getDataCodewords = (
+    version: number,
+    level: QRErrorCorrection
+): number => {
+    return Math.floor(getRawDataModules(version) / 8)
+         - ECC_CODEWORDS_PER_BLOCK[level][version] * ECC_BLOCKS[level][version];
+};
+
+/**
+ * Get the center positions of the alignment patterns of `version`.
+ *
+ * @param   version {number}
+ * @return  {number[]}
+ */
+const getAlignmentPositions = (
+    version: number
+): number[] => {
+    if (version === 1) {
+        return [];
+    }
+
+    const size = version * 4 + 17;
+    const numAlign = Math.floor(version / 7) + 2;
+    const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+    const result = [6];
+    for (let position = size - 7; result.length < numAlign; position -= step) {
+        result.splice(1, 0, position);
+    }
+    return result;
+};
+
+/**
+ * Split `data` in blocks, add the error correction codewords
+ * and interleave the blocks.
+ *
+ * @param   data    {number[]}
+ * @param   version {number}
+ * @param   level   {QRErrorCorrection}
+ * @return  {number[]}
+ */
+const addErrorCorrection = (
+    data: number[],
+    version: number,
+    level: QRErrorCorrection
+): number[] => {
+    const numBlocks = ECC_BLOCKS[level][version];
+    const blockEccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+    const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+    const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+    const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+    const blocks: number[][] = [];
+    for (let i = 0, k = 0; i < numBlocks; i++) {
+        const block = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+        k += block.length;
+        const ecc = reedSolomon(block, blockEccLength);
+        if (i < numShortBlocks) {
+            block.push(0);
+        }
+        blocks.push(block.concat(ecc));
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            // skip the padding byte of short blocks
+            if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+                result.push(block[i]);
+            }
+        });
+    }
+    return result;
+};
+
+/**
+ * Whether mask pattern `mask` inverts the module at `x`, `y`.
+ *
+ * @param   mask    {number}
+ * @param   x       {number}
+ * @param   y       {number}
+ * @return  {boolean}
+ */
+const isMasked = (
+    mask: number,
+    x: number,
+    y: number
+): boolean => {
+    switch (mask) {
+        case 0: return (x + y) % 2 === 0;
+        case 1: return y % 2 === 0;
+        case 2: return x % 3 === 0;
+        case 3: return (x + y) % 3 === 0;
+        case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+        case 5: return x * y % 2 + x * y % 3 === 0;
+        case 6: return (x * y % 2 + x * y % 3) % 2 === 0;
+        default: return ((x + y) % 2 + x * y % 3) % 2 === 0;
+    }
+};
+
+/**
+ * Class `QRMatrix` holds the modules of a QR code symbol
+ * while it is drawn.
+ */
+class QRMatrix {
+
+    /**
+     * The number of modules per side.
+     * @var {number}
+     */
+    public readonly size: number;
+
+    /**
+     * The modules (true for dark), indexed by row and column.
+     * @var {boolean[][]}
+     */
+    public readonly modules: boolean[][];
+
+    /**
+     * Whether modules belong to function patterns.
+     * @var {boolean[][]}
+     */
+    protected readonly isFunction: boolean[][];
+
+    /**
+     * Construct a `QRMatrix` object and draw the function patterns.
+     *
+     * @param   version {number}
+     * @param   level   {QRErrorCorrection}
+     */
+    constructor(public readonly version: number,
+                public readonly level: QRErrorCorrection) {
+        this.size = version * 4 + 17;
+        this.modules = [];
+        this.isFunction = [];
+        for (let i = 0; i < this.size; i++) {
+            this.modules.push(new Array(this.size).fill(false));
+            this.isFunction.push(new Array(this.size).fill(false));
+        }
+
+        // timing patterns
+        for (let i = 0; i < this.size; i++) {
+            this.setFunction(6, i, i % 2 === 0);
+            this.setFunction(i, 6, i % 2 === 0);
+        }
+
+        // finder patterns and separators
+        [[3, 3], [this.size - 4, 3], [3, this.size - 4]].forEach(([x, y]) => {
+            for (let dy = -4; dy <= 4; dy++) {
+                for (let dx = -4; dx <= 4; dx++) {
+                    const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                    if (0 <= x + dx && x + dx < this.size && 0 <= y + dy && y + dy < this.size) {
+                        this.setFunction(x + dx, y + dy, distance !== 2 && distance !== 4);
+                    }
+                }
+            }
+        });
+
+        // alignment patterns, except at the finder patterns
+        const positions = getAlignmentPositions(version);
+        const last = positions.length - 1;
+        positions.forEach((x, i) => positions.forEach((y, j) => {
+            if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+                return;
+            }
+
+            for (let dy = -2; dy <= 2; dy++) {
+                for (let dx = -2; dx <= 2; dx++) {
+                    this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+                }
+            }
+        }));
+
+        // reserve format information, draw version information
+        this.drawFormat(0);
+        if (version >= 7) {
+            let remainder = version;
+            for (let i = 0; i < 12; i++) {
+                remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+            }
+
+            const bits = version << 12 | remainder;
+            for (let i = 0; i < 18; i++) {
+                const dark = ((bits >>> i) & 1) !== 0;
+                const a = this.size - 11 + i % 3;
+                const b = Math.floor(i / 3);
+                this.setFunction(a, b, dark);
+                this.setFunction(b, a, dark);
+            }
+        }
+    }
+
+    /**
+     * Draw the format information of the error correction
+     * level and `mask`.
+     *
+     * @param   mask    {number}
+     * @return  {void}
+     */
+    public drawFormat(
+        mask: number
+    ): void {
+        const data = FORMAT_BITS[this.level] << 3 | mask;
+        let remainder = data;
+        for (let i = 0; i < 10; i++) {
+            remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        }
+
+        const bits = (data << 10 | remainder) ^ 0x5412;
+        const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+        // first copy, around the top left finder pattern
+        for (let i = 0; i <= 5; i++) {
+            this.setFunction(8, i, bit(i));
+        }
+        this.setFunction(8, 7, bit(6));
+        this.setFunction(8, 8, bit(7));
+        this.setFunction(7, 8, bit(8));
+        for (let i = 9; i < 15; i++) {
+            this.setFunction(14 - i, 8, bit(i));
+        }
+
+        // second copy, next to the other finder patterns
+        for (let i = 0; i < 8; i++) {
+            this.setFunction(this.size - 1 - i, 8, bit(i));
+        }
+        for (let i = 8; i < 15; i++) {
+            this.setFunction(8, this.size - 15 + i, bit(i));
+        }
+        this.setFunction(8, this.size - 8, true);
+    }
+
+    /**
+     * Draw the `codewords` in zig-zag order.
+     *
+     * @param   codewords   {number[]}
+     * @return  {void}
+     */
+    public drawCodewords(
+        codewords: number[]
+    ): void {
+        let i = 0;
+        for (let right = this.size - 1; right >= 1; right -= 2) {
+            if (right === 6) {
+                right = 5;
+            }
+
+            for (let vertical = 0; vertical < this.size; vertical++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j;
+                    const upward = ((right + 1) & 2) === 0;
+                    const y = upward ? this.size - 1 - vertical : vertical;
+                    if (!this.isFunction[y][x] && i < codewords.length * 8) {
+                        this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+                        i++;
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Apply (or undo) mask pattern `mask` to the data modules.
+     *
+     * @param   mask    {number}
+     * @return  {void}
+     */
+    public applyMask(
+        mask: number
+    ): void {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (!this.isFunction[y][x] && isMasked(mask, x, y)) {
+                    this.modules[y][x] = !this.modules[y][x];
+                }
+            }
+        }
+    }
+
+    /**
+     * Compute the penalty score of the current modules, as
+     * defined by ISO/IEC 18004 (lower is better).
+     *
+     * @return  {number}
+     */
+    public getPenalty(): number {
+        const size = this.size;
+        const at = (x: number, y: number) => this.modules[y][x];
+        let penalty = 0;
+        let dark = 0;
+
+        // finder-like patterns of dark and light runs in ratio 1:1:3:1:1 with a
+        // light run of 4 on one side and 1 on the other, at any scale, the area
+        // outside the symbol counts as light
+        const countFinders = (get: (k: number) => boolean) => {
+            const runs = [size]; // alternating light (even) and dark (odd) runs
+            for (let k = 0; k < size; k++) {
+                if (get(k) === (runs.length % 2 === 0)) {
+                    runs[runs.length - 1]++;
+                } else {
+                    runs.push(1);
+                }
+            }
+
+            if (runs.length % 2 === 0) {
+                runs.push(size);
+            } else {
+                runs[runs.length - 1] += size;
+            }
+
+            let count = 0;
+            for (let j = 6; j < runs.length; j += 2) {
+                const [before, n, light1, dark3, light2, dark1, after] = runs.slice(j - 6, j + 1);
+                if (light1 === n && dark3 === n * 3 && light2 === n && dark1 === n) {
+                    count += (before >= n * 4 && after >= n ? 1 : 0) + (after >= n * 4 && before >= n ? 1 : 0);
+                }
+            }
+
+            return count;
+        };
+
+        for (let i = 0; i < size; i++) {
+            // runs of 5 or more same-colored modules in rows and columns
+            for (let k = 0, rowRun = 0, colRun = 0; k < size; k++) {
+                rowRun = k > 0 && at(k, i) === at(k - 1, i) ? rowRun + 1 : 1;
+                colRun = k > 0 && at(i, k) === at(i, k - 1) ? colRun + 1 : 1;
+                penalty += rowRun === 5 ? 3 : rowRun > 5 ? 1 : 0;
+                penalty += colRun === 5 ? 3 : colRun > 5 ? 1 : 0;
+            }
+
+            penalty += countFinders((k) => at(k, i)) * 40;
+            penalty += countFinders((k) => at(i, k)) * 40;
+        }
+
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                dark += at(x, y) ? 1 : 0;
+
+                // 2x2 blocks of same-colored modules
+                if (x < size - 1 && y < size - 1
+                    && at(x, y) === at(x + 1, y) && at(x, y) === at(x, y + 1) && at(x, y) === at(x + 1, y + 1)) {
+                    penalty += 3;
+                }
+            }
+        }
+
+        // balance of dark and light modules
+        const total = size * size;
+        penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+        return penalty;
+    }
+
+    /**
+     * Set a function pattern module.
+     *
+     * @param   x       {number}
+     * @param   y       {number}
+     * @param   dark    {boolean}
+     * @return  {void}
+     */
+    protected setFunction(
+        x: number,
+        y: number,
+        dark: boolean
+    ): void {
+        this.modules[y][x] = dark;
+        this.isFunction[y][x] = true;
+    }
+}
+
+/**
+ * Class `QRCode` describes a QR code symbol as defined by ISO/IEC 18004,
+ * versions 1 to 40 with numeric, alphanumeric and byte modes.
+ *
+ * This is a pure TypeScript implementation that does not need any
+ * external dependency. Use `QRRenderer` to render the symbol as SVG
+ * or text.
+ *
+ * @example Usage of QR codes
+ *
+ * ```typescript
+ * const qr = QRCode.encodeText('Hello, world!', 'M');
+ * const svg = QRRenderer.toSVG(qr);
+ * ```
+ *
+ * @see https://www.iso.org/standard/62021.html
+ * @see https://www.nayuki.io/page/qr-code-generator-library
+ * @since 0.5.0
+ */
+export class QRCode {
+
+    /**
+     * Construct a `QRCode` object.
+     *
+     * @param   version         {number}
+     * @param   errorCorrection {QRErrorCorrection}
+     * @param   mask            {number}
+     * @param   modules         {boolean[][]}
+     */
+    constructor(/**
+                 * The version (1 to 40), the symbol has `4 * version + 17`
+                 * modules per side.
+                 * @var {number}
+                 */
+                public readonly version: number,
+                /**
+                 * The error correction level.
+                 * @var {QRErrorCorrection}
+                 */
+                public readonly errorCorrection: QRErrorCorrection,
+                /**
+                 * The mask pattern (0 to 7).
+                 * @var {number}
+                 */
+                public readonly mask: number,
+                /**
+                 * The modules (true for dark), indexed by row and column.
+                 * @var {boolean[][]}
+                 */
+                public readonly modules: boolean[][]) {
+
+    }
+
+    /**
+     * Encode `text` with the most compact mode: numeric, alphanumeric
+     * or byte mode (UTF-8).
+     *
+     * @param   text    {string}
+     * @param   level   {QRErrorCorrection}     (Optional) The error correction level.
+     * @return  {QRCode}
+     * @throws  {Error}     On data too long to fit in a QR code.
+     */
+    public static encodeText(
+        text: string,
+        level: QRErrorCorrection = 'M'
+    ): QRCode {
+        if (/^[0-9]*$/.test(text)) {
+            return QRCode.encodeNumeric(text, level);
+        }
+
+        if (text.split('').every((char) => ALPHANUMERIC_CHARSET.indexOf(char) !== -1)) {
+            return QRCode.encodeSegments([QRCode.makeAlphanumeric(text)], level);
+        }
+
+        return QRCode.encodeBinary(Buffer.from(text, 'utf8'), level);
+    }
+
+    /**
+     * Encode a string of decimal `digits` with the numeric mode.
+     *
+     * @param   digits  {string}
+     * @param   level   {QRErrorCorrection}     (Optional) The error correction level.
+     * @return  {QRCode}
+     * @throws  {Error}     On non-numeric data or data too long to fit in a QR code.
+     */
+    public static encodeNumeric(
+        digits: string,
+        level: QRErrorCorrection = 'M'
+    ): QRCode {
+        return QRCode.encodeSegments([QRCode.makeNumeric(digits)], level);
+    }
+
+    /**
+     * Encode binary `data` with the byte mode.
+     *
+     * @param   data    {Buffer}
+     * @param   level   {QRErrorCorrection}     (Optional) The error correction level.
+     * @return  {QRCode}
+     * @throws  {Error}     On data too long to fit in a QR code.
+     */
+    public static encodeBinary(
+        data: Buffer,
+        level: QRErrorCorrection = 'M'
+    ): QRCode {
+        return QRCode.encodeSegments([QRCode.makeBytes(data)], level);
+    }
+
+    /**
+     * Encode `segments` in the smallest version that fits, with
+     * error correction `level`.
+     *
+     * When `mask` is -1, the mask pattern with the lowest
+     * penalty score is used.
+     *
+     * @param   segments    {QRSegment[]}
+     * @param   level       {QRErrorCorrection}     (Optional) The error correction level.
+     * @param   minVersion  {number}    (Optional) The minimum version.
+     * @param   maxVersion  {number}    (Optional) The maximum version.
+     * @param   mask        {number}    (Optional) The mask pattern (0 to 7, or -1).
+     * @return  {QRCode}
+     * @throws  {Error}     On invalid parameters or data too long to fit in a QR code.
+     */
+    public static encodeSegments(
+        segments: QRSegment[],
+        level: QRErrorCorrection = 'M',
+        minVersion: number = 1,
+        maxVersion: number = 40,
+        mask: number = -1
+    ): QRCode {
+        if (!FORMAT_BITS.hasOwnProperty(level)) {
+            throw new Error('Invalid error correction level, must be one of: L, M, Q or H.');
+        }
+
+        if (!(1 <= minVersion && minVersion <= maxVersion && maxVersion <= 40) || mask < -1 || mask > 7) {
+            throw new Error('Invalid QR code version range or mask.');
+        }
+
+        // find the smallest version that fits
+        let version = minVersion;
+        let usedBits = 0;
+        for (; ; version++) {
+            usedBits = segments.reduce((sum, segment) => {
+                const count = countBits(segment.mode, version);
+                return segment.numChars >= (1 << count) ? Infinity : sum + 4 + count + segment.bits.length;
+            }, 0);
+
+            if (usedBits <= getDataCodewords(version, level) * 8) {
+                break;
+            }
+
+            if (version >= maxVersion) {
+                throw new Error('Data too long to fit in a QR code.');
+            }
+        }
+
+        // concatenate segments, add terminator and padding
+        const capacity = getDataCodewords(version, level) * 8;
+        const bits: number[] = [];
+        segments.forEach((segment) => {
+            appendBits(bits, segment.mode, 4);
+            appendBits(bits, segment.numChars, countBits(segment.mode, version));
+            segment.bits.forEach((bit) => bits.push(bit));
+        });
+
+        appendBits(bits, 0, Math.min(4, capacity - bits.length));
+        appendBits(bits, 0, (8 - bits.length % 8) % 8);
+        for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+            appendBits(bits, pad, 8);
+        }
+
+        const data: number[] = [];
+        for (let i = 0; i < bits.length; i += 8) {
+            data.push(bits.slice(i, i + 8).reduce((byte, bit) => byte << 1 | bit, 0));
+        }
+
+        // draw the symbol
+        const matrix = new QRMatrix(version, level);
+        matrix.drawCodewords(addErrorCorrection(data, version, level));
+
+        if (mask === -1) {
+            let minPenalty = Infinity;
+            for (let candidate = 0; candidate < 8; candidate++) {
+                matrix.applyMask(candidate);
+                matrix.drawFormat(candidate);
+                const penalty = matrix.getPenalty();
+                if (penalty < minPenalty) {
+                    mask = candidate;
+                    minPenalty = penalty;
+                }
+                matrix.applyMask(candidate);
+            }
+        }
+
+        matrix.applyMask(mask);
+        matrix.drawFormat(mask);
+        return new QRCode(version, level, mask, matrix.modules);
+    }
+
+    /**
+     * Create a numeric mode segment of `digits`.
+     *
+     * @param   digits  {string}
+     * @return  {QRSegment}
+     * @throws  {Error}     On non-numeric data.
+     */
+    public static makeNumeric(
+        digits: string
+    ): QRSegment {
+        if (!/^[0-9]*$/.test(digits)) {
+            throw new Error('Numeric mode data must only contain digits.');
+        }
+
+        const bits: number[] = [];
+        for (let i = 0; i < digits.length; i += 3) {
+            const group = digits.substr(i, 3);
+            appendBits(bits, parseInt(group, 10), group.length * 3 + 1);
+        }
+
+        return {mode: MODES.NUMERIC.indicator, numChars: digits.length, bits};
+    }
+
+    /**
+     * Create an alphanumeric mode segment of `text`.
+     *
+     * @param   text    {string}
+     * @return  {QRSegment}
+     * @throws  {Error}     On characters not part of the alphanumeric charset.
+     */
+    public static makeAlphanumeric(
+        text: string
+    ): QRSegment {
+        const values = text.split('').map((char) => ALPHANUMERIC_CHARSET.indexOf(char));
+        if (values.some((value) => value === -1)) {
+            throw new Error('Alphanumeric mode data contains unsupported characters.');
+        }
+
+        const bits: number[] = [];
+        for (let i = 0; i + 1 < values.length; i += 2) {
+            appendBits(bits, values[i] * 45 + values[i + 1], 11);
+        }
+
+        if (values.length % 2 === 1) {
+            appendBits(bits, values[values.length - 1], 6);
+        }
+
+        return {mode: MODES.ALPHANUMERIC.indicator, numChars: text.length, bits};
+    }
+
+    /**
+     * Create a byte mode segment of `data`.
+     *
+     * @param   data    {Buffer}
+     * @return  {QRSegment}
+     */
+    public static makeBytes(
+        data: Buffer
+    ): QRSegment {
+        const bits: number[] = [];
+        data.forEach((byte) => appendBits(bits, byte, 8));
+        return {mode: MODES.BYTE.indicator, numChars: data.length, bits};
+    }
+
+    /**
+     * Get the number of modules per side.
+     *
+     * @return  {number}
+     */
+    public get size(): number {
+        return this.modules.length;
+    }
+
+    /**
+     * Get whether the module at column `x` and row `y` is dark.
+     * Modules outside of the symbol are light.
+     *
+     * @param   x   {number}
+     * @param   y   {number}
+     * @return  {boolean}
+     */
+    public getModule(
+        x: number,
+        y: number
+    ): boolean {
+        return 0 <= x && x < this.size && 0 <= y && y < this.size && this.modules[y][x];
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+// internal dependencies
+import {
+    QRCode,
+} from '../../index';
+
+/**
+ * Interface `QRSVGOptions` describes the options
+ * of `QRRenderer.toSVG()`.
+ */
+export interface QRSVGOptions {
+    scale?: number;
+    border?: number;
+    dark?: string;
+    light?: string;
+}
+
+/**
+ * Class `QRRenderer` renders `QRCode` symbols as SVG images
+ * or as text.
+ *
+ * A light border (quiet zone) of 4 modules is recommended
+ * for scanning SVG images.
+ *
+ * @since 0.5.0
+ */
+export class QRRenderer {
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Render `qr` as a standalone SVG image.
+     *
+     * @param   qr          {QRCode}
+     * @param   options     {QRSVGOptions}  (Optional) Module size in pixels, border in modules and colors.
+     * @return  {string}
+     * @throws  {Error}     On negative border or non-positive scale.
+     */
+    public static toSVG(
+        qr: QRCode,
+        options: QRSVGOptions = {}
+    ): string {
+        const scale = options.scale === undefined ? 4 : options.scale;
+        const border = options.border === undefined ? 4 : options.border;
+        if (scale <= 0 || border < 0) {
+            throw new Error('Invalid SVG scale or border.');
+        }
+
+        const path: string[] = [];
+        for (let y = 0; y < qr.size; y++) {
+            for (let x = 0; x < qr.size; x++) {
+                if (qr.getModule(x, y)) {
+                    path.push('M' + (x + border) + ',' + (y + border) + 'h1v1h-1z');
+                }
+            }
+        }
+
+        const dimension = qr.size + border * 2;
+        const pixels = dimension * scale;
+        return '<svg xmlns="http://www.w3.org/2000/svg" version="1.1"'
+             + ' width="' + pixels + '" height="' + pixels + '"'
+             + ' viewBox="0 0 ' + dimension + ' ' + dimension + '" shape-rendering="crispEdges">'
+             + '<rect width="100%" height="100%" fill="' + (options.light || '#ffffff') + '"/>'
+             + '<path d="' + path.join('') + '" fill="' + (options.dark || '#000000') + '"/>'
+             + '</svg>';
+    }
+
+    /**
+     * Render `qr` as text, with two characters per module such
+     * that the symbol is about square in a terminal.
+     *
+     * @param   qr      {QRCode}
+     * @param   border  {number}    (Optional) The border in modules.
+     * @param   dark    {string}    (Optional) The characters of dark modules.
+     * @param   light   {string}    (Optional) The characters of light modules.
+     * @return  {string}
+     */
+    public static toASCII(
+        qr: QRCode,
+        border: number = 2,
+        dark: string = '##',
+        light: string = '  '
+    ): string {
+        const lines: string[] = [];
+        for (let y = -border; y < qr.size + border; y++) {
+            let line = '';
+            for (let x = -border; x < qr.size + border; x++) {
+                line += qr.getModule(x, y) ? dark : light;
+            }
+            lines.push(line);
+        }
+
+        return lines.join('\n');
+    }
+}
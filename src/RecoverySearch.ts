@@ -0,0 +1,402 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import { cpus } from 'os';
+import { join } from 'path';
+import { Worker } from 'worker_threads';
+
+// internal dependencies
+import {
+    CancellationToken,
+    MACType,
+    MnemonicPassPhrase,
+    Network,
+    NetworkRegistry,
+    RecoveryCandidate,
+    RecoverySpace,
+    Wallet,
+    WordlistRegistry,
+} from '../index';
+
+/**
+ * Interface `RecoveryTarget` describes what a recovered mnemonic
+ * pass phrase must derive: the public key or the address of the
+ * account at `path` (defaults to `Wallet.DEFAULT_WALLET_PATH` of
+ * `Network.CATAPULT`).
+ */
+export interface RecoveryTarget {
+    publicKey?: string;
+    address?: string;
+    path?: string;
+    network?: Network;
+    macType?: MACType;
+}
+
+/**
+ * Interface `RecoveryProgress` describes the progress of a
+ * recovery search. The `rate` is in candidates per second,
+ * `elapsed` and `eta` are in seconds.
+ */
+export interface RecoveryProgress {
+    checked: number;
+    total: number;
+    found: number;
+    elapsed: number;
+    rate: number;
+    eta: number;
+}
+
+/**
+ * Interface `RecoveryOptions` describes the options
+ * of `RecoverySearch.run()`.
+ */
+export interface RecoveryOptions {
+    workers?: number;
+    chunkSize?: number;
+    findAll?: boolean;
+    onProgress?: (progress: RecoveryProgress) => void;
+    cancellation?: CancellationToken;
+}
+
+/**
+ * Path of the compiled worker thread script.
+ * @var {string}
+ */
+const WORKER_PATH = join(__dirname, 'RecoveryWorker.js');
+
+/**
+ * Get the words of `wordlist` matching the word `pattern`:
+ *
+ * - `?` or `*`: any word
+ * - `ab*`: words starting with 'ab'
+ * - `alpha|alter`: any of the alternatives (which can be patterns)
+ * - `alpha`: the word itself
+ *
+ * @param   pattern     {string}
+ * @param   wordlist    {string[]}
+ * @return  {string[]}
+ */
+const matchWords = (
+    pattern: string,
+    wordlist: string[]
+): string[] => {
+    const word = pattern.normalize('NFKD').toLowerCase();
+
+    if (word === '?' || word === '*') {
+        return wordlist.slice();
+    }
+    else if (word.indexOf('|') !== -1) {
+        return word.split('|')
+                   .map((alternative) => matchWords(alternative, wordlist))
+                   .reduce((all, words) => all.concat(words.filter((w) => all.indexOf(w) === -1)), []);
+    }
+    else if (word.length > 1 && word.charAt(word.length - 1) === '*') {
+        return wordlist.filter((w) => w.normalize('NFKD').indexOf(word.slice(0, -1)) === 0);
+    }
+
+    return wordlist.filter((w) => w.normalize('NFKD') === word);
+};
+
+/**
+ * Class `RecoverySearch` describes an offline search for a damaged
+ * backup: a mnemonic pass phrase with missing or unreadable words,
+ * words in the wrong order, or a forgotten BIP39 password.
+ *
+ * Candidates are enumerated from pattern constraints, see `forMnemonic`
+ * and `forPassword`. Each candidate with a valid checksum is converted
+ * to a seed (`toSeed`), a master key (`ExtendedKey.createFromSeed`) and
+ * the account at the target path (`derivePath`), and compared with the
+ * target public key or address.
+ *
+ * The search runs in parallel on worker threads, which check ranges of
+ * `chunkSize` candidates. With `workers: 0`, the search runs on the event
+ * loop, yielding between ranges.
+ *
+ * @example Usage of recovery searches
+ *
+ * ```typescript
+ * // the 5th word is unreadable, the 9th starts with 'co'
+ * const search = RecoverySearch.forMnemonic(
+ *     'alpha pattern real admit ? wall ready code co* program depend valid',
+ *     {address: knownAddress, path: Wallet.DEFAULT_WALLET_PATH},
+ * );
+ *
+ * const found = await search.run({
+ *     onProgress: (progress) => console.log(progress.checked, progress.eta),
+ * });
+ * ```
+ *
+ * @see {RecoverySpace}
+ * @since 0.5.0
+ */
+export class RecoverySearch {
+
+    /**
+     * Default number of worker threads.
+     * @var {number}
+     */
+    public static DEFAULT_WORKERS = Math.max(1, cpus().length - 1);
+
+    /**
+     * Default number of candidates per range.
+     * @var {number}
+     */
+    public static DEFAULT_CHUNK_SIZE = 128;
+
+    /**
+     * Construct a `RecoverySearch` object.
+     *
+     * @param   space   {RecoverySpace}
+     */
+    constructor(/**
+                 * The search space.
+                 * @var {RecoverySpace}
+                 */
+                public readonly space: RecoverySpace) {}
+
+    /**
+     * Create a search for a mnemonic pass phrase.
+     *
+     * Each word of `pattern` is a word, `?` for any word, a prefix
+     * such as `co*`, or alternatives such as `code|coil`. When the
+     * pattern has one word less than a valid mnemonic pass phrase (e.g.
+     * 11 words), one word is searched at each position.
+     *
+     * Words at `permute` positions (starting at 0) are tried in
+     * any order.
+     *
+     * @param   pattern     {string|string[]}   The words patterns.
+     * @param   target      {RecoveryTarget}    The public key or address to find.
+     * @param   passwords   {string[]}  (Optional) The candidate BIP39 passwords.
+     * @param   permute     {number[]}  (Optional) The positions of words in any order.
+     * @param   language    {string}    (Optional) The language, detected from the known words by default.
+     * @return  {RecoverySearch}
+     * @throws  {Error}     On pattern without matching words, or invalid search space.
+     */
+    public static forMnemonic(
+        pattern: string | string[],
+        target: RecoveryTarget,
+        passwords: string[] = [''],
+        permute: number[] = [],
+        language?: string
+    ): RecoverySearch {
+        const patterns = typeof pattern === 'string' ? pattern.normalize('NFKD').trim().split(/\s+/) : pattern;
+        const known = patterns.filter((word) => /^[^?*|]+$/.test(word));
+        const lang = language || MnemonicPassPhrase.detectLanguages(known.join(' '))[0] || MnemonicPassPhrase.DEFAULT_LANGUAGE;
+
+        // check if `language` is supported or throw
+        MnemonicPassPhrase.assertLanguageSupported(lang);
+
+        const wordlist = WordlistRegistry.get(lang);
+        const words = patterns.map((word, position) => {
+            const candidates = matchWords(word, wordlist);
+            if (!candidates.length) {
+                throw new Error('No word of wordlist "' + lang + '" matches "' + word + '" at position ' + position + '.');
+            }
+
+            return candidates;
+        });
+
+        return RecoverySearch.create(lang, words, [passwords], permute, target);
+    }
+
+    /**
+     * Create a search for the BIP39 password of `mnemonic`.
+     *
+     * Candidate passwords are all combinations of one candidate of each
+     * part, e.g. `[['my', 'My'], ['secret'], ['', '1', '!']]`.
+     *
+     * @param   mnemonic    {MnemonicPassPhrase}    The mnemonic pass phrase.
+     * @param   parts       {string[][]}        The candidates of each part of the password.
+     * @param   target      {RecoveryTarget}    The public key or address to find.
+     * @return  {RecoverySearch}
+     * @throws  {Error}     On invalid mnemonic pass phrase, or invalid search space.
+     */
+    public static forPassword(
+        mnemonic: MnemonicPassPhrase,
+        parts: string[][],
+        target: RecoveryTarget
+    ): RecoverySearch {
+        const language = mnemonic.getLanguage();
+        if (!mnemonic.isValid(language)) {
+            throw new Error('Invalid mnemonic pass phrase.');
+        }
+
+        const words = mnemonic.plain.normalize('NFKD').trim().split(/\s+/).map((word) => [word]);
+        return RecoverySearch.create(language, words, parts, [], target);
+    }
+
+    /**
+     * Run the search.
+     *
+     * The search stops at the first matching candidate, unless `findAll`
+     * is set. The `onProgress` callback is called after each range of
+     * candidates. When the `cancellation` token is cancelled, the worker
+     * threads are stopped and the returned promise is rejected.
+     *
+     * @param   options     {RecoveryOptions}   (Optional) Workers, progress callback and cancellation token.
+     * @return  {Promise<RecoveryCandidate[]>}  The matching candidates (empty if none matches).
+     */
+    public run(
+        options: RecoveryOptions = {}
+    ): Promise<RecoveryCandidate[]> {
+        const size = this.space.size;
+        const workers = options.workers !== undefined ? options.workers : RecoverySearch.DEFAULT_WORKERS;
+        const chunkSize = options.chunkSize || RecoverySearch.DEFAULT_CHUNK_SIZE;
+        const started = Date.now();
+        const found: RecoveryCandidate[] = [];
+        const threads: Worker[] = [];
+        let checked = 0;
+        let next = 0;
+        let finished = false;
+
+        return new Promise<RecoveryCandidate[]>((resolve, reject) => {
+            const finish = (error?: Error) => {
+                if (!finished) {
+                    finished = true;
+                    threads.forEach((thread) => thread.terminate());
+                    return error ? reject(error) : resolve(found.sort((a, b) => a.index - b.index));
+                }
+            };
+
+            const report = (count: number, matches: RecoveryCandidate[]) => {
+                checked += count;
+                matches.forEach((match) => found.push(match));
+
+                if (options.onProgress) {
+                    const elapsed = (Date.now() - started) / 1000;
+                    const rate = elapsed > 0 ? checked / elapsed : 0;
+                    options.onProgress({
+                        checked: checked,
+                        total: size,
+                        found: found.length,
+                        elapsed: elapsed,
+                        rate: rate,
+                        eta: rate > 0 ? (size - checked) / rate : Infinity,
+                    });
+                }
+            };
+
+            // get the next range of candidates, or null when done
+            const nextRange = (): {start: number, end: number} | null => {
+                if (options.cancellation && options.cancellation.isCancelled()) {
+                    finish(new Error('Operation was cancelled.'));
+                    return null;
+                }
+                else if (checked >= size || (found.length && !options.findAll)) {
+                    finish();
+                    return null;
+                }
+                else if (next >= size) {
+                    // wait for other workers
+                    return null;
+                }
+
+                const range = {start: next, end: Math.min(next + chunkSize, size)};
+                next = range.end;
+                return range;
+            };
+
+            if (workers === 0) {
+                const step = () => {
+                    const range = nextRange();
+                    if (range) {
+                        try {
+                            report(range.end - range.start, this.space.checkRange(range.start, range.end));
+                        }
+                        catch (e) {
+                            return finish(e);
+                        }
+
+                        setImmediate(step);
+                    }
+                };
+
+                setImmediate(step);
+                return;
+            }
+
+            // loaded on use, such that Node.js versions without worker threads can load this package
+            const WorkerThread: typeof Worker = require('worker_threads').Worker;
+            for (let i = 0; i < workers; i++) {
+                const first = nextRange();
+                if (!first) {
+                    break;
+                }
+
+                const thread = new WorkerThread(WORKER_PATH, {workerData: this.space.spec});
+                threads.push(thread);
+
+                thread.on('message', (message: {start: number, end: number, found: RecoveryCandidate[]}) => {
+                    report(message.end - message.start, message.found);
+                    const range = nextRange();
+                    if (range) {
+                        thread.postMessage(range);
+                    }
+                });
+
+                thread.on('error', (error: Error) => finish(error));
+                thread.on('exit', (code: number) => finish(new Error('Recovery worker stopped with exit code ' + code + '.')));
+                thread.postMessage(first);
+            }
+        });
+    }
+
+    /**
+     * Create a search from candidate words and password parts.
+     *
+     * @internal
+     * @param   language    {string}
+     * @param   words       {string[][]}
+     * @param   passwords   {string[][]}
+     * @param   permute     {number[]}
+     * @param   target      {RecoveryTarget}
+     * @return  {RecoverySearch}
+     */
+    protected static create(
+        language: string,
+        words: string[][],
+        passwords: string[][],
+        permute: number[],
+        target: RecoveryTarget
+    ): RecoverySearch {
+        // custom networks are not registered in worker threads
+        const network = NetworkRegistry.getName(target.network || Network.CATAPULT);
+        if (network === undefined || !NetworkRegistry.isBuiltIn(network)) {
+            throw new Error('Network is not supported by recovery searches.');
+        }
+
+        return new RecoverySearch(new RecoverySpace({
+            language: language,
+            wordlist: WordlistRegistry.get(language),
+            words: words,
+            insertMissing: [12, 15, 18, 21, 24].indexOf(words.length + 1) !== -1,
+            permute: permute,
+            passwords: passwords,
+            target: {
+                publicKey: target.publicKey || null,
+                address: target.address || null,
+                path: target.path || Wallet.DEFAULT_WALLET_PATH,
+                network: network,
+                macType: target.macType !== undefined ? target.macType : MACType.HMAC,
+            },
+        }));
+    }
+}
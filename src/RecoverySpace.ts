@@ -0,0 +1,300 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import * as bip39 from 'bip39';
+import {
+    Address,
+    PublicAccount,
+} from 'nem2-sdk';
+
+// internal dependencies
+import {
+    ExtendedKey,
+    KeyEncoding,
+    MACType,
+    NetworkRegistry,
+} from '../index';
+
+/**
+ * Interface `RecoverySpec` describes a recovery search space
+ * in a serializable form, such that it can be sent to worker
+ * threads.
+ *
+ * - `words`: The candidate words of each position.
+ * - `insertMissing`: Whether one word is missing at an unknown position.
+ * - `permute`: Positions of words which may be in any order.
+ * - `passwords`: The candidate parts of the password, candidate
+ *   passwords are all combinations of one candidate per part.
+ */
+export interface RecoverySpec {
+    language: string;
+    wordlist: string[];
+    words: string[][];
+    insertMissing: boolean;
+    permute: number[];
+    passwords: string[][];
+    target: {
+        publicKey: string | null;
+        address: string | null;
+        path: string;
+        network: string;
+        macType: MACType;
+    };
+}
+
+/**
+ * Interface `RecoveryCandidate` describes a candidate mnemonic
+ * pass phrase and password.
+ */
+export interface RecoveryCandidate {
+    index: number;
+    mnemonic: string;
+    password: string;
+}
+
+/**
+ * Multiply the lengths of `lists`.
+ *
+ * @param   lists   {Array[]}
+ * @return  {number}
+ */
+const product = <T>(
+    lists: T[][]
+): number => {
+    return lists.reduce((size, list) => size * list.length, 1);
+};
+
+/**
+ * Get the factorial of `n`.
+ *
+ * @param   n   {number}
+ * @return  {number}
+ */
+const factorial = (
+    n: number
+): number => {
+    return n <= 1 ? 1 : n * factorial(n - 1);
+};
+
+/**
+ * Class `RecoverySpace` describes the candidates of a recovery search
+ * and checks them against the target public key or address.
+ *
+ * Candidates are numbered from 0 to `size - 1` such that ranges of
+ * candidates can be checked in parallel, see `RecoverySearch`.
+ *
+ * @see {RecoverySearch}
+ * @since 0.5.0
+ */
+export class RecoverySpace {
+
+    /**
+     * The number of candidates.
+     * @var {number}
+     */
+    public readonly size: number;
+
+    /**
+     * The candidate words of each position, for each position
+     * of the missing word.
+     * @var {string[][][]}
+     */
+    protected readonly layouts: string[][][];
+
+    /**
+     * The number of candidate mnemonic pass phrases.
+     * @var {number}
+     */
+    protected readonly mnemonicCount: number;
+
+    /**
+     * The target address.
+     * @var {Address|null}
+     */
+    protected readonly address: Address | null;
+
+    /**
+     * Construct a `RecoverySpace` object.
+     *
+     * @param   spec    {RecoverySpec}
+     * @throws  {Error}     On invalid search space or target.
+     */
+    constructor(/**
+                 * The search space.
+                 * @var {RecoverySpec}
+                 */
+                public readonly spec: RecoverySpec) {
+        const words = spec.words;
+        const count = words.length + (spec.insertMissing ? 1 : 0);
+
+        if ([12, 15, 18, 21, 24].indexOf(count) === -1) {
+            throw new Error('Invalid number of words: ' + count + '.');
+        }
+
+        if (spec.insertMissing && spec.permute.length) {
+            throw new Error('Cannot search a missing word and words in any order at the same time.');
+        }
+
+        if (spec.permute.some((position, i) => !(position >= 0 && position < count) || spec.permute.indexOf(position) !== i)) {
+            throw new Error('Invalid positions of words in any order.');
+        }
+
+        if (!NetworkRegistry.has(spec.target.network)) {
+            throw new Error('Network is not supported by recovery searches.');
+        }
+
+        if (!spec.target.publicKey && !spec.target.address) {
+            throw new Error('Recovery target needs a public key or an address.');
+        }
+
+        // a missing word can be at any position
+        this.layouts = !spec.insertMissing ? [words] : Array.from({length: count},
+            (_, position) => words.slice(0, position).concat([spec.wordlist], words.slice(position)));
+
+        this.mnemonicCount = this.layouts.length * factorial(spec.permute.length) * product(this.layouts[0]);
+        this.size = this.mnemonicCount * product(spec.passwords);
+        this.address = spec.target.address ? Address.createFromRawAddress(spec.target.address) : null;
+
+        if (this.size > Number.MAX_SAFE_INTEGER) {
+            throw new Error('Recovery search space is too large.');
+        }
+    }
+
+    /**
+     * Get the candidate mnemonic pass phrase and password with `index`.
+     *
+     * Passwords vary slowest, such that all mnemonic pass phrases are
+     * tried with the first candidate password first.
+     *
+     * @param   index   {number}    The candidate index (0 to `size - 1`).
+     * @return  {RecoveryCandidate}
+     */
+    public getCandidate(
+        index: number
+    ): RecoveryCandidate {
+        let rest = index % this.mnemonicCount;
+        let password = Math.floor(index / this.mnemonicCount);
+
+        // mixed radix decomposition: words vary fastest, then permutation and layout
+        const layout = this.layouts[Math.floor(rest / (this.mnemonicCount / this.layouts.length))];
+        const picks = layout.map(() => 0);
+        for (let position = layout.length - 1; position >= 0; position--) {
+            picks[position] = rest % layout[position].length;
+            rest = Math.floor(rest / layout[position].length);
+        }
+
+        const words = layout.map((candidates, position) => candidates[picks[position]]);
+        this.permute(words, rest % factorial(this.spec.permute.length));
+
+        const parts = this.spec.passwords.map(() => '');
+        for (let part = this.spec.passwords.length - 1; part >= 0; part--) {
+            parts[part] = this.spec.passwords[part][password % this.spec.passwords[part].length];
+            password = Math.floor(password / this.spec.passwords[part].length);
+        }
+
+        return {
+            index: index,
+            mnemonic: words.join(this.spec.language === 'japanese' ? '\u3000' : ' '),
+            password: parts.join(''),
+        };
+    }
+
+    /**
+     * Check the candidate with `index` against the target.
+     *
+     * Candidates with an invalid checksum are skipped before
+     * the (expensive) seed derivation.
+     *
+     * @param   index   {number}    The candidate index (0 to `size - 1`).
+     * @return  {RecoveryCandidate|null}    The candidate if it matches, null otherwise.
+     */
+    public check(
+        index: number
+    ): RecoveryCandidate | null {
+        const candidate = this.getCandidate(index);
+        if (!bip39.validateMnemonic(candidate.mnemonic, this.spec.wordlist)) {
+            return null;
+        }
+
+        const target = this.spec.target;
+        const seed = bip39.mnemonicToSeedSync(candidate.mnemonic, candidate.password);
+        const xkey = ExtendedKey.createFromSeed(seed.toString('hex'), NetworkRegistry.get(target.network), target.macType);
+        const child = target.path === 'm' ? xkey : xkey.derivePath(target.path);
+        const publicKey = child.getPublicKey(KeyEncoding.ENC_HEX) as string;
+
+        if (target.publicKey && [publicKey, child.node.publicKey.toString('hex')].indexOf(target.publicKey.toLowerCase()) === -1) {
+            return null;
+        }
+
+        if (this.address) {
+            const address = PublicAccount.createFromPublicKey(publicKey, this.address.networkType).address;
+            if (!address.equals(this.address)) {
+                return null;
+            }
+        }
+
+        return candidate;
+    }
+
+    /**
+     * Check the candidates from `start` to `end` (excluded).
+     *
+     * @param   start   {number}
+     * @param   end     {number}
+     * @return  {RecoveryCandidate[]}   The matching candidates.
+     */
+    public checkRange(
+        start: number,
+        end: number
+    ): RecoveryCandidate[] {
+        const found: RecoveryCandidate[] = [];
+        for (let index = start; index < Math.min(end, this.size); index++) {
+            const candidate = this.check(index);
+            if (candidate) {
+                found.push(candidate);
+            }
+        }
+
+        return found;
+    }
+
+    /**
+     * Reorder `words` at the positions of `spec.permute` with
+     * the permutation number `permutation` (factorial number system).
+     *
+     * @internal
+     * @param   words       {string[]}  The words (modified).
+     * @param   permutation {number}    The permutation number.
+     * @return  {void}
+     */
+    protected permute(
+        words: string[],
+        permutation: number
+    ): void {
+        const positions = this.spec.permute;
+        const pool = positions.map((position) => words[position]);
+
+        positions.forEach((position, i) => {
+            const radix = factorial(positions.length - i - 1);
+            words[position] = pool.splice(Math.floor(permutation / radix), 1)[0];
+            permutation %= radix;
+        });
+    }
+}
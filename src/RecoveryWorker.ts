@@ -0,0 +1,53 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {
+    MessagePort,
+    parentPort,
+    workerData,
+} from 'worker_threads';
+
+// internal dependencies
+import {
+    RecoverySpace,
+} from '../index';
+
+/**
+ * Worker thread of `RecoverySearch`: checks ranges of candidates
+ * of the search space given in `workerData` and replies with the
+ * matching candidates.
+ *
+ * @see {RecoverySearch}
+ * @since 0.5.0
+ */
+if (parentPort === null) {
+    throw new Error('RecoveryWorker must be run on a worker thread.');
+}
+
+const space = new RecoverySpace(workerData);
+const port: MessagePort = parentPort;
+
+port.on('message', (range: {start: number, end: number}) => {
+    port.postMessage({
+        start: range.start,
+        end: range.end,
+        found: space.checkRange(range.start, range.end),
+    });
+});
@@ -0,0 +1,366 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import * as bip39 from 'bip39';
+import {
+    pbkdf2,
+    pbkdf2Sync,
+    scrypt,
+    scryptSync,
+} from 'crypto';
+
+// internal dependencies
+import {
+    CancellationToken,
+    Cryptography,
+} from '../index';
+
+/**
+ * Type `SeedKdf` lists the key derivation functions used
+ * to stretch mnemonic pass phrases into seeds.
+ */
+export type SeedKdf = 'bip39' | 'pbkdf2' | 'scrypt' | 'kmac';
+
+/**
+ * Customization string of KMAC based seed stretching.
+ * @var {string}
+ */
+const KMAC_CUSTOMIZATION = Buffer.from('nem2-hd-wallets seed', 'utf8');
+
+/**
+ * Names of the key derivation functions in descriptors.
+ * @var {Object}
+ */
+const DESCRIPTOR_NAMES: {[kdf: string]: string} = {
+    bip39: 'bip39',
+    pbkdf2: 'pbkdf2-hmac-sha512',
+    scrypt: 'scrypt',
+    kmac: 'kmac256',
+};
+
+/**
+ * Parameter names of the key derivation functions, in
+ * descriptor order.
+ * @var {Object}
+ */
+const PARAMETERS: {[kdf: string]: string[]} = {
+    bip39: [],
+    pbkdf2: ['c'],
+    scrypt: ['n', 'r', 'p'],
+    kmac: ['c'],
+};
+
+/**
+ * Class `SeedProfile` describes how a mnemonic pass phrase is stretched
+ * into a 64 bytes seed.
+ *
+ * The default profile `SeedProfile.BIP39` is PBKDF2-HMAC-SHA512 with 2048
+ * rounds as defined by BIP39. Hardened profiles are available for custody
+ * setups that do not need compatibility with other BIP39 wallets:
+ *
+ * - PBKDF2-HMAC-SHA512 with more rounds: `SeedProfile.pbkdf2(rounds)`
+ * - scrypt: `SeedProfile.scrypt(cost, blockSize, parallelization)`
+ * - iterated KMAC256: `SeedProfile.kmac(rounds)`, see `Cryptography.KMAC`
+ *
+ * All profiles use the BIP39 salt: 'mnemonic' followed by the password.
+ *
+ * A non-standard profile derives a different seed, hence different
+ * accounts. Store its descriptor, e.g. `scrypt(n=32768,r=8,p=1)`, next
+ * to the backup such that restores are reproducible.
+ *
+ * @example Usage of seed profiles
+ *
+ * ```typescript
+ * const profile = SeedProfile.scrypt(32768);
+ * const seed = mnemonic.toSeed('password', profile);
+ * const descriptor = profile.toDescriptor(); // store with backup
+ *
+ * // restore
+ * const restored = mnemonic.toSeed('password', SeedProfile.fromDescriptor(descriptor));
+ * ```
+ *
+ * @see https://github.com/bitcoin/bips/blob/master/bip-0039.mediawiki#from-mnemonic-to-seed
+ * @since 0.5.0
+ */
+export class SeedProfile {
+
+    /**
+     * Standard BIP39 profile (PBKDF2-HMAC-SHA512, 2048 rounds).
+     * @var {SeedProfile}
+     */
+    public static readonly BIP39 = new SeedProfile('bip39', {});
+
+    /**
+     * Construct a `SeedProfile` object.
+     *
+     * @param   kdf     {SeedKdf}
+     * @param   params  {Object}
+     * @throws  {Error}     On invalid parameters.
+     */
+    constructor(/**
+                 * The key derivation function.
+                 * @var {SeedKdf}
+                 */
+                public readonly kdf: SeedKdf,
+                /**
+                 * The key derivation parameters.
+                 * @var {Object}
+                 */
+                public readonly params: {[param: string]: number}) {
+        if (!PARAMETERS.hasOwnProperty(kdf)) {
+            throw new Error('Seed key derivation function "' + kdf + '" is not supported.');
+        }
+
+        const names = PARAMETERS[kdf];
+        if (Object.keys(params).length !== names.length
+            || names.some((name) => !(params[name] >= 1 && params[name] % 1 === 0))) {
+            throw new Error('Invalid parameters for seed key derivation function "' + kdf + '".');
+        }
+
+        if (kdf === 'pbkdf2' && params.c < 2048) {
+            throw new Error('PBKDF2 rounds must be at least 2048.');
+        }
+
+        if (kdf === 'kmac' && params.c < 2048) {
+            throw new Error('KMAC rounds must be at least 2048.');
+        }
+
+        if (kdf === 'scrypt' && (params.n < 2 || (params.n & (params.n - 1)) !== 0)) {
+            throw new Error('Scrypt cost must be a power of 2.');
+        }
+    }
+
+    /**
+     * Create a PBKDF2-HMAC-SHA512 profile with `rounds`.
+     *
+     * @param   rounds  {number}
+     * @return  {SeedProfile}
+     */
+    public static pbkdf2(
+        rounds: number
+    ): SeedProfile {
+        return new SeedProfile('pbkdf2', {c: rounds});
+    }
+
+    /**
+     * Create a scrypt profile.
+     *
+     * @param   cost            {number}    The cost parameter (N), a power of 2.
+     * @param   blockSize       {number}    (Optional) The block size (r).
+     * @param   parallelization {number}    (Optional) The parallelization (p).
+     * @return  {SeedProfile}
+     */
+    public static scrypt(
+        cost: number,
+        blockSize: number = 8,
+        parallelization: number = 1
+    ): SeedProfile {
+        return new SeedProfile('scrypt', {n: cost, r: blockSize, p: parallelization});
+    }
+
+    /**
+     * Create an iterated KMAC256 profile with `rounds`.
+     *
+     * @param   rounds  {number}    The number of rounds, at least 2048.
+     * @return  {SeedProfile}
+     */
+    public static kmac(
+        rounds: number
+    ): SeedProfile {
+        return new SeedProfile('kmac', {c: rounds});
+    }
+
+    /**
+     * Create a profile from its `descriptor`.
+     *
+     * @see {SeedProfile}#toDescriptor
+     * @param   descriptor  {string}
+     * @return  {SeedProfile}
+     * @throws  {Error}     On invalid descriptor.
+     */
+    public static fromDescriptor(
+        descriptor: string
+    ): SeedProfile {
+        const match = descriptor.trim().match(/^([a-z0-9-]+)(?:\(([a-z]=[0-9]+(?:,[a-z]=[0-9]+)*)\))?$/);
+        const kdf = match ? Object.keys(DESCRIPTOR_NAMES).filter((k) => DESCRIPTOR_NAMES[k] === match[1])[0] : undefined;
+        if (!match || !kdf) {
+            throw new Error('Invalid seed profile descriptor "' + descriptor + '".');
+        }
+
+        if (kdf === 'bip39' && !match[2]) {
+            return SeedProfile.BIP39;
+        }
+
+        const params: {[param: string]: number} = {};
+        (match[2] || '').split(',').filter((pair) => pair.length).forEach((pair) => {
+            const [name, value] = pair.split('=');
+            params[name] = parseInt(value, 10);
+        });
+
+        return new SeedProfile(kdf as SeedKdf, params);
+    }
+
+    /**
+     * Get the descriptor of the profile, e.g. `bip39` or
+     * `scrypt(n=32768,r=8,p=1)`.
+     *
+     * @return  {string}
+     */
+    public toDescriptor(): string {
+        const names = PARAMETERS[this.kdf];
+        const name = DESCRIPTOR_NAMES[this.kdf];
+        return names.length ? name + '(' + names.map((n) => n + '=' + this.params[n]).join(',') + ')' : name;
+    }
+
+    /**
+     * Get whether this is the standard BIP39 profile.
+     *
+     * @return  {boolean}
+     */
+    public isStandard(): boolean {
+        return this.kdf === 'bip39';
+    }
+
+    /**
+     * Derive the 64 bytes seed of `mnemonic` (plain text) and `password`.
+     *
+     * @param   mnemonic    {string}
+     * @param   password    {string}    (Optional) The BIP39 password.
+     * @return  {Buffer}
+     */
+    public deriveSeed(
+        mnemonic: string,
+        password: string = ''
+    ): Buffer {
+        const secret = Buffer.from(mnemonic.normalize('NFKD'), 'utf8');
+        const salt = Buffer.from('mnemonic' + password.normalize('NFKD'), 'utf8');
+
+        switch (this.kdf) {
+            case 'pbkdf2':
+                return pbkdf2Sync(secret, salt, this.params.c, 64, 'sha512');
+            case 'scrypt':
+                return scryptSync(secret, salt, 64, this.getScryptOptions());
+            case 'kmac': {
+                const result = Cryptography.KMAC(secret, salt, KMAC_CUSTOMIZATION);
+                this.kmacRounds(secret, Buffer.from(result), result, this.params.c - 1);
+                return result;
+            }
+            default:
+                return bip39.mnemonicToSeedSync(mnemonic, password);
+        }
+    }
+
+    /**
+     * Derive the 64 bytes seed of `mnemonic` (plain text) and `password`
+     * without blocking the event loop.
+     *
+     * When a `cancellation` token is given and cancelled, the returned
+     * promise is rejected with an error. KMAC rounds are interrupted
+     * between two steps, other functions run in the libuv thread pool
+     * and cannot be interrupted once started.
+     *
+     * @param   mnemonic        {string}
+     * @param   password        {string}    (Optional) The BIP39 password.
+     * @param   cancellation    {CancellationToken}     (Optional) The cancellation token.
+     * @return  {Promise<Buffer>}
+     */
+    public deriveSeedAsync(
+        mnemonic: string,
+        password: string = '',
+        cancellation?: CancellationToken
+    ): Promise<Buffer> {
+        const secret = Buffer.from(mnemonic.normalize('NFKD'), 'utf8');
+        const salt = Buffer.from('mnemonic' + password.normalize('NFKD'), 'utf8');
+
+        return new Promise<Buffer>((resolve, reject) => {
+            const callback = (err: Error | null, seed: Buffer) => err ? reject(err) : resolve(seed);
+
+            if (cancellation && cancellation.isCancelled()) {
+                reject(new Error('Operation was cancelled.'));
+            }
+            else if (this.kdf === 'scrypt') {
+                scrypt(secret, salt, 64, this.getScryptOptions(), callback);
+            }
+            else if (this.kdf === 'kmac') {
+                // iterate in steps of 1024 rounds, yielding in between
+                const result = Cryptography.KMAC(secret, salt, KMAC_CUSTOMIZATION);
+                const step = (done: number, last: Buffer): void => {
+                    if (cancellation && cancellation.isCancelled()) {
+                        return reject(new Error('Operation was cancelled.'));
+                    }
+
+                    const count = Math.min(1024, this.params.c - done);
+                    const next = this.kmacRounds(secret, last, result, count);
+
+                    if (done + count < this.params.c) {
+                        setImmediate(() => step(done + count, next));
+                    }
+                    else {
+                        resolve(result);
+                    }
+                };
+
+                setImmediate(() => step(1, Buffer.from(result)));
+            }
+            else {
+                pbkdf2(secret, salt, this.kdf === 'pbkdf2' ? this.params.c : 2048, 64, 'sha512', callback);
+            }
+        });
+    }
+
+    /**
+     * Compute `count` KMAC256 rounds following digest `last`: each round
+     * computes the KMAC of the previous digest keyed with the mnemonic
+     * pass phrase, and the digests are XOR-ed into `result` (as with PBKDF2).
+     *
+     * @internal
+     * @param   secret  {Buffer}    The normalized mnemonic pass phrase.
+     * @param   last    {Buffer}    The digest of the previous round.
+     * @param   result  {Buffer}    The XOR of all digests (modified).
+     * @param   count   {number}    The number of rounds.
+     * @return  {Buffer}    The digest of the last round.
+     */
+    protected kmacRounds(
+        secret: Buffer,
+        last: Buffer,
+        result: Buffer,
+        count: number
+    ): Buffer {
+        for (let round = 0; round < count; round++) {
+            last = Cryptography.KMAC(secret, last, KMAC_CUSTOMIZATION);
+            for (let i = 0; i < result.length; i++) {
+                result[i] ^= last[i];
+            }
+        }
+
+        return last;
+    }
+
+    /**
+     * Get the options of `crypto.scrypt`.
+     *
+     * @internal
+     * @return  {Object}
+     */
+    protected getScryptOptions(): {N: number, r: number, p: number, maxmem: number} {
+        const {n, r, p} = this.params;
+        return {N: n, r: r, p: p, maxmem: 256 * n * r * p};
+    }
+}
@@ -0,0 +1,180 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import * as bip39 from 'bip39';
+
+// internal dependencies
+import {
+    MnemonicPassPhrase,
+    QRCode,
+    WordlistRegistry,
+} from '../index';
+
+/**
+ * Class `SeedQR` encodes and decodes mnemonic pass phrases with the
+ * SeedQR format of SeedSigner, used by air-gapped signing devices to
+ * import seeds by scanning a QR code.
+ *
+ * - Standard SeedQR: every word is encoded as its 4-digit zero-padded
+ *   index in the wordlist, the digits are concatenated and encoded with
+ *   the numeric mode (25x25 for 12 words, 29x29 for 24 words).
+ *
+ * - CompactSeedQR: the entropy bytes (without checksum) are encoded
+ *   with the byte mode (21x21 for 12 words, 25x25 for 24 words).
+ *
+ * Both use the error correction level L.
+ *
+ * @example Usage of SeedQR
+ *
+ * ```typescript
+ * const qr = SeedQR.toQRCode(mnemonic, true);
+ * const svg = QRRenderer.toSVG(qr);
+ *
+ * // scanned payload to mnemonic pass phrase
+ * const scanned = SeedQR.decode(payload);
+ * ```
+ *
+ * @see https://github.com/SeedSigner/seedsigner/blob/dev/docs/seed_qr/README.md
+ * @since 0.5.0
+ */
+export class SeedQR {
+
+    /**
+     * Word counts supported by SeedQR.
+     * @var {number[]}
+     */
+    public static readonly WORD_COUNTS = [12, 15, 18, 21, 24];
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Encode `mnemonic` as standard SeedQR digit stream.
+     *
+     * @param   mnemonic    {MnemonicPassPhrase}
+     * @return  {string}
+     * @throws  {Error}     On invalid mnemonic pass phrase.
+     */
+    public static encode(
+        mnemonic: MnemonicPassPhrase
+    ): string {
+        SeedQR.assertValid(mnemonic);
+
+        const wordlist = WordlistRegistry.get(mnemonic.getLanguage());
+        return mnemonic.plain.normalize('NFKD').trim().split(/\s+/)
+            .map((word) => ('000' + wordlist.indexOf(word)).slice(-4))
+            .join('');
+    }
+
+    /**
+     * Encode `mnemonic` as CompactSeedQR entropy bytes.
+     *
+     * @param   mnemonic    {MnemonicPassPhrase}
+     * @return  {Buffer}
+     * @throws  {Error}     On invalid mnemonic pass phrase.
+     */
+    public static encodeCompact(
+        mnemonic: MnemonicPassPhrase
+    ): Buffer {
+        SeedQR.assertValid(mnemonic);
+        return Buffer.from(mnemonic.toEntropy(), 'hex');
+    }
+
+    /**
+     * Decode a scanned SeedQR `payload`: a digit stream (standard
+     * SeedQR) or entropy bytes (CompactSeedQR).
+     *
+     * @param   payload     {string|Buffer}
+     * @param   language    {string}    (Optional) The language used for the wordlist.
+     * @return  {MnemonicPassPhrase}
+     * @throws  {Error}     On invalid payload or checksum.
+     */
+    public static decode(
+        payload: string | Buffer,
+        language: string = MnemonicPassPhrase.DEFAULT_LANGUAGE
+    ): MnemonicPassPhrase {
+        const wordlist = WordlistRegistry.get(language);
+
+        if (payload instanceof Buffer) {
+            if (SeedQR.WORD_COUNTS.indexOf(payload.length * 3 / 4) === -1) {
+                throw new Error('Invalid CompactSeedQR length, must be one of: 16, 20, 24, 28 or 32 bytes.');
+            }
+
+            return MnemonicPassPhrase.createFromEntropy(payload, language);
+        }
+
+        if (!/^[0-9]*$/.test(payload) || SeedQR.WORD_COUNTS.indexOf(payload.length / 4) === -1) {
+            throw new Error('Invalid SeedQR, must be 4 digits for each of 12, 15, 18, 21 or 24 words.');
+        }
+
+        const words = (payload.match(/.{4}/g) as string[]).map((digits) => {
+            const index = parseInt(digits, 10);
+            if (index >= WordlistRegistry.WORDLIST_SIZE) {
+                throw new Error('Invalid SeedQR word index ' + digits + '.');
+            }
+            return wordlist[index];
+        });
+
+        const plain = words.join(' ');
+        if (!bip39.validateMnemonic(plain, wordlist)) {
+            throw new Error('Invalid SeedQR, mnemonic checksum mismatch.');
+        }
+
+        // re-create to join words as defined for the wordlist
+        return MnemonicPassPhrase.createFromEntropy(bip39.mnemonicToEntropy(plain, wordlist), language);
+    }
+
+    /**
+     * Create the SeedQR (or CompactSeedQR) QR code of `mnemonic`.
+     *
+     * @param   mnemonic    {MnemonicPassPhrase}
+     * @param   compact     {boolean}   (Optional) Whether to create a CompactSeedQR.
+     * @return  {QRCode}
+     * @throws  {Error}     On invalid mnemonic pass phrase.
+     */
+    public static toQRCode(
+        mnemonic: MnemonicPassPhrase,
+        compact: boolean = false
+    ): QRCode {
+        if (compact) {
+            return QRCode.encodeBinary(SeedQR.encodeCompact(mnemonic), 'L');
+        }
+
+        return QRCode.encodeNumeric(SeedQR.encode(mnemonic), 'L');
+    }
+
+    /**
+     * Assert that `mnemonic` is valid and has a supported number of words.
+     *
+     * @internal
+     * @param   mnemonic    {MnemonicPassPhrase}
+     * @return  {void}
+     * @throws  {Error}     On invalid mnemonic pass phrase.
+     */
+    protected static assertValid(
+        mnemonic: MnemonicPassPhrase
+    ): void {
+        if (!mnemonic.isValid()) {
+            throw new Error('Invalid mnemonic pass phrase.');
+        }
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+// internal dependencies
+import {
+    MnemonicPassPhrase,
+} from '../index';
+
+/**
+ * XOR `buffers` of the same length.
+ *
+ * @param   buffers {Buffer[]}
+ * @return  {Buffer}
+ */
+const xor = (
+    buffers: Buffer[]
+): Buffer => {
+    const result = Buffer.alloc(buffers[0].length);
+    buffers.forEach((buffer) => buffer.forEach((byte, i) => result[i] ^= byte));
+    return result;
+};
+
+/**
+ * Class `SeedXOR` describes the splitting of a mnemonic pass phrase
+ * into parts with Seed XOR, compatible with Coldcard wallets.
+ *
+ * The entropy of the mnemonic pass phrase is split in N parts with the
+ * same length such that the XOR of all parts is the original entropy.
+ * The first N-1 parts are random, the last part is the XOR of the original
+ * entropy and the random parts.
+ *
+ * Each part is a valid BIP39 mnemonic pass phrase, hence a plausible
+ * standalone wallet. All parts are required to recover the original
+ * mnemonic pass phrase, in any order. Unlike `ShamirMnemonic`, there is
+ * no threshold: a lost part means a lost wallet.
+ *
+ * @example Usage of Seed XOR
+ *
+ * ```typescript
+ * const mnemonic = MnemonicPassPhrase.createRandom();
+ * const parts = SeedXOR.split(mnemonic, 3);
+ *
+ * // recover with all parts
+ * const recovered = SeedXOR.combine(parts);
+ * ```
+ *
+ * @see https://seedxor.com
+ * @since 0.5.0
+ */
+export class SeedXOR {
+
+    /**
+     * Default number of parts.
+     * @var {number}
+     */
+    public static DEFAULT_PARTS = 3;
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Split `mnemonic` into `parts` mnemonic pass phrases with the same
+     * number of words and language.
+     *
+     * @param   mnemonic    {MnemonicPassPhrase}    The mnemonic pass phrase to split.
+     * @param   parts       {number}    (Optional) The number of parts (>= 2).
+     * @param   rng         {function}  (Optional) Random Number Generator to be used.
+     * @return  {MnemonicPassPhrase[]}
+     * @throws  {Error}     On invalid mnemonic pass phrase or number of parts.
+     */
+    public static split(
+        mnemonic: MnemonicPassPhrase,
+        parts: number = SeedXOR.DEFAULT_PARTS,
+        rng: (size: number) => Buffer = MnemonicPassPhrase.CATAPULT_RNG
+    ): MnemonicPassPhrase[] {
+        if (!mnemonic.isValid()) {
+            throw new Error('Invalid mnemonic pass phrase.');
+        }
+
+        if (parts % 1 !== 0 || parts < 2) {
+            throw new Error('Seed XOR needs at least 2 parts.');
+        }
+
+        const language = mnemonic.getLanguage();
+        const entropy = Buffer.from(mnemonic.toEntropy(language), 'hex');
+        const random = Array.from({length: parts - 1}, () => rng(entropy.length));
+
+        return random.concat([xor([entropy].concat(random))]).map(
+            (part) => MnemonicPassPhrase.createFromEntropy(part, language));
+    }
+
+    /**
+     * Recover a mnemonic pass phrase from all of its `parts`.
+     *
+     * @param   parts       {MnemonicPassPhrase[]}  The mnemonic pass phrases of all parts.
+     * @param   language    {string}    (Optional) The language of the recovered mnemonic pass phrase, defaults to the first part's.
+     * @return  {MnemonicPassPhrase}
+     * @throws  {Error}     On invalid parts or parts with different numbers of words.
+     */
+    public static combine(
+        parts: MnemonicPassPhrase[],
+        language?: string
+    ): MnemonicPassPhrase {
+        if (parts.length < 2) {
+            throw new Error('Seed XOR needs at least 2 parts.');
+        }
+
+        if (parts.some((part) => !part.isValid())) {
+            throw new Error('Invalid mnemonic pass phrase.');
+        }
+
+        const entropies = parts.map((part) => Buffer.from(part.toEntropy(), 'hex'));
+        if (entropies.some((entropy) => entropy.length !== entropies[0].length)) {
+            throw new Error('Seed XOR parts must have the same number of words.');
+        }
+
+        return MnemonicPassPhrase.createFromEntropy(xor(entropies), language || parts[0].getLanguage());
+    }
+}
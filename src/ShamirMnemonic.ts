@@ -0,0 +1,565 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import { pbkdf2Sync } from 'crypto';
+const createHmac = require('create-hmac');
+
+// internal dependencies
+import {
+    MnemonicPassPhrase,
+    ShamirShare,
+} from '../index';
+
+/**
+ * x-coordinate of the shared secret.
+ * @var {number}
+ */
+const SECRET_INDEX = 255;
+
+/**
+ * x-coordinate of the digest share.
+ * @var {number}
+ */
+const DIGEST_INDEX = 254;
+
+/**
+ * Length of the shared secret digest.
+ * @var {number}
+ */
+const DIGEST_LENGTH_BYTES = 4;
+
+/**
+ * Exponential and logarithm tables for GF(256) with the Rijndael
+ * polynomial x^8 + x^4 + x^3 + x + 1 and generator x + 1.
+ *
+ * @var {{exp: number[], log: number[]}}
+ */
+const GF256 = (() => {
+    const exp: number[] = [];
+    const log: number[] = new Array(256).fill(0);
+
+    let poly = 1;
+    for (let i = 0; i < 255; i++) {
+        exp[i] = poly;
+        log[poly] = i;
+
+        // multiply by x + 1 and reduce by the Rijndael polynomial
+        poly = (poly << 1) ^ poly;
+        if (poly & 0x100) {
+            poly ^= 0x11B;
+        }
+    }
+
+    return {exp, log};
+})();
+
+/**
+ * A point of a Shamir polynomial: `x` coordinate and the
+ * `y` coordinates of each byte of the secret.
+ */
+interface RawShare {
+    x: number;
+    data: Buffer;
+}
+
+/**
+ * Evaluate the Lagrange interpolation polynomial of `shares` at `x`.
+ *
+ * @param   shares  {RawShare[]}
+ * @param   x       {number}
+ * @return  {Buffer}
+ * @throws  {Error}     On duplicate x-coordinates or share length mismatch.
+ */
+const interpolate = (
+    shares: RawShare[],
+    x: number
+): Buffer => {
+
+    const xs = shares.map((share) => share.x);
+    if (new Set(xs).size !== xs.length) {
+        throw new Error('Invalid set of shares. Share indices must be unique.');
+    }
+
+    const length = shares[0].data.length;
+    if (shares.some((share) => share.data.length !== length)) {
+        throw new Error('Invalid set of shares. All share values must have the same length.');
+    }
+
+    const known = shares.find((share) => share.x === x);
+    if (known !== undefined) {
+        return known.data;
+    }
+
+    const {exp, log} = GF256;
+    const logProd = shares.reduce((sum, share) => sum + log[share.x ^ x], 0);
+
+    const result = Buffer.alloc(length);
+    shares.forEach((share) => {
+        const logBasis = shares.reduce(
+            (sum, other) => sum - log[share.x ^ other.x],
+            logProd - log[share.x ^ x]
+        );
+        const logBasisEval = ((logBasis % 255) + 255) % 255;
+
+        for (let i = 0; i < length; i++) {
+            if (share.data[i] !== 0) {
+                result[i] ^= exp[(log[share.data[i]] + logBasisEval) % 255];
+            }
+        }
+    });
+
+    return result;
+};
+
+/**
+ * Create the 4 bytes digest of `sharedSecret` keyed with `randomPart`.
+ *
+ * @param   randomPart      {Buffer}
+ * @param   sharedSecret    {Buffer}
+ * @return  {Buffer}
+ */
+const createDigest = (
+    randomPart: Buffer,
+    sharedSecret: Buffer
+): Buffer => {
+    return createHmac('sha256', randomPart).update(sharedSecret).digest().slice(0, DIGEST_LENGTH_BYTES);
+};
+
+/**
+ * Split `secret` in `count` raw shares with `threshold`.
+ *
+ * @param   threshold   {number}
+ * @param   count       {number}
+ * @param   secret      {Buffer}
+ * @param   rng         {function}
+ * @return  {RawShare[]}
+ */
+const splitSecret = (
+    threshold: number,
+    count: number,
+    secret: Buffer,
+    rng: (size: number) => Buffer
+): RawShare[] => {
+
+    if (threshold === 1) {
+        return Array.from({length: count}, (_, x) => ({x, data: secret}));
+    }
+
+    const randomShareCount = threshold - 2;
+    const shares: RawShare[] = Array.from({length: randomShareCount}, (_, x) => ({x, data: rng(secret.length)}));
+
+    const randomPart = rng(secret.length - DIGEST_LENGTH_BYTES);
+    const digest = createDigest(randomPart, secret);
+
+    const baseShares = shares.concat([
+        {x: DIGEST_INDEX, data: Buffer.concat([digest, randomPart])},
+        {x: SECRET_INDEX, data: secret},
+    ]);
+
+    for (let x = randomShareCount; x < count; x++) {
+        shares.push({x, data: interpolate(baseShares, x)});
+    }
+
+    return shares;
+};
+
+/**
+ * Recover the secret of `shares` with `threshold` and
+ * verify its' digest.
+ *
+ * @param   threshold   {number}
+ * @param   shares      {RawShare[]}
+ * @return  {Buffer}
+ * @throws  {Error}     On invalid digest.
+ */
+const recoverSecret = (
+    threshold: number,
+    shares: RawShare[]
+): Buffer => {
+
+    if (threshold === 1) {
+        return shares[0].data;
+    }
+
+    const secret = interpolate(shares, SECRET_INDEX);
+    const digestShare = interpolate(shares, DIGEST_INDEX);
+    const digest = digestShare.slice(0, DIGEST_LENGTH_BYTES);
+    const randomPart = digestShare.slice(DIGEST_LENGTH_BYTES);
+
+    if (! digest.equals(createDigest(randomPart, secret))) {
+        throw new Error('Invalid digest of the shared secret.');
+    }
+
+    return secret;
+};
+
+/**
+ * Class `ShamirMnemonic` describes a Shamir's Secret-Sharing backup
+ * of a master secret as defined by the SatoshiLabs SLIP-39 standard
+ * which can be found at following URL:
+ *
+ *     https://github.com/satoshilabs/slips/blob/master/slip-0039.md
+ *
+ * The master secret is encrypted with a passphrase and split in groups
+ * of member shares. Each share is encoded as a mnemonic using the
+ * SLIP-39 wordlist, see `ShamirShare`.
+ *
+ * The recovered master secret is used *as is* as the seed of the
+ * hyper-deterministic tree, see `ExtendedKey.createFromSeed`.
+ *
+ * @example Usage of Shamir mnemonics
+ *
+ * ```typescript
+ * // 2-of-3 groups with: 1-of-1, 2-of-3 and 3-of-5 member shares
+ * const secret = MnemonicPassPhrase.CATAPULT_RNG(16);
+ * const shares = ShamirMnemonic.createShares(secret, 2, [[1, 1], [2, 3], [3, 5]], 'your-passphrase');
+ *
+ * // recover with the first group and two members of the second group
+ * const seed = ShamirMnemonic.recoverSeed([shares[0][0], shares[1][0], shares[1][2]], 'your-passphrase');
+ * const xkey = ExtendedKey.createFromSeed(seed, Network.CATAPULT);
+ * ```
+ *
+ * @see https://github.com/satoshilabs/slips/blob/master/slip-0039.md
+ * @see https://github.com/trezor/python-shamir-mnemonic
+ * @since 0.5.0
+ */
+export class ShamirMnemonic {
+
+    /**
+     * Default iteration exponent: (10000 << e) PBKDF2 iterations.
+     * @var {number}
+     */
+    public static readonly DEFAULT_ITERATION_EXPONENT = 1;
+
+    /**
+     * Base number of PBKDF2 iterations of the encryption.
+     * @var {number}
+     */
+    public static readonly BASE_ITERATION_COUNT = 10000;
+
+    /**
+     * Number of rounds of the Feistel network encryption.
+     * @var {number}
+     */
+    public static readonly ROUND_COUNT = 4;
+
+    /**
+     * Maximum number of groups and of members per group.
+     * @var {number}
+     */
+    public static readonly MAX_SHARE_COUNT = 16;
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Split a master secret in SLIP-39 share mnemonics.
+     *
+     * The `groups` argument contains a `[memberThreshold, memberCount]`
+     * pair for each group. Any `groupThreshold` groups are required to
+     * recover the master secret, and in each of those groups, any
+     * `memberThreshold` member shares.
+     *
+     * @param   masterSecret        {Buffer}    The master secret (>= 128 bits, even number of bytes).
+     * @param   groupThreshold      {number}    Number of groups required to recover the secret.
+     * @param   groups              {Array}     List of `[memberThreshold, memberCount]` pairs.
+     * @param   passphrase          {string}    (Optional) The passphrase (printable ASCII) used to encrypt the secret.
+     * @param   iterationExponent   {number}    (Optional) The PBKDF2 iteration exponent.
+     * @param   extendable          {boolean}   (Optional) Whether to create an extendable backup.
+     * @param   rng                 {function}  (Optional) Random Number Generator to be used.
+     * @return  {string[][]}    Returns the share mnemonics of each group.
+     * @throws  {Error}     On invalid master secret, passphrase or group configuration.
+     */
+    public static createShares(
+        masterSecret: Buffer,
+        groupThreshold: number,
+        groups: Array<[number, number]>,
+        passphrase: string = '',
+        iterationExponent: number = ShamirMnemonic.DEFAULT_ITERATION_EXPONENT,
+        extendable: boolean = true,
+        rng: (size: number) => Buffer = MnemonicPassPhrase.CATAPULT_RNG
+    ): string[][] {
+
+        if (masterSecret.length * 8 < 128) {
+            throw new Error('The length of the master secret must be at least 128 bits.');
+        }
+
+        if (masterSecret.length % 2 !== 0) {
+            throw new Error('The length of the master secret in bytes must be an even number.');
+        }
+
+        if (iterationExponent < 0 || iterationExponent > 15) {
+            throw new Error('Invalid iteration exponent, must be between 0 and 15.');
+        }
+
+        if (groups.length < 1 || groups.length > ShamirMnemonic.MAX_SHARE_COUNT) {
+            throw new Error('The number of groups must be between 1 and ' + ShamirMnemonic.MAX_SHARE_COUNT + '.');
+        }
+
+        if (groupThreshold < 1 || groupThreshold > groups.length) {
+            throw new Error('The group threshold must be positive and not exceed the number of groups.');
+        }
+
+        groups.forEach(([memberThreshold, memberCount]) => {
+            if (memberCount < 1 || memberCount > ShamirMnemonic.MAX_SHARE_COUNT) {
+                throw new Error('The number of members must be between 1 and ' + ShamirMnemonic.MAX_SHARE_COUNT + '.');
+            }
+
+            if (memberThreshold < 1 || memberThreshold > memberCount) {
+                throw new Error('The member threshold must be positive and not exceed the number of members.');
+            }
+
+            if (memberThreshold === 1 && memberCount > 1) {
+                throw new Error('Creating multiple member shares with member threshold 1 is not allowed. '
+                              + 'Use 1-of-1 member sharing instead.');
+            }
+        });
+
+        // 15 bits random identifier
+        const identifier = rng(2).readUInt16BE(0) & 0x7FFF;
+        const encrypted = ShamirMnemonic.encrypt(masterSecret, passphrase, iterationExponent, identifier, extendable);
+
+        // first level: group shares, second level: member shares
+        const groupShares = splitSecret(groupThreshold, groups.length, encrypted, rng);
+        return groupShares.map((groupShare, groupIndex) => {
+            const [memberThreshold, memberCount] = groups[groupIndex];
+            const memberShares = splitSecret(memberThreshold, memberCount, groupShare.data, rng);
+
+            return memberShares.map((memberShare) => new ShamirShare(
+                identifier,
+                extendable,
+                iterationExponent,
+                groupShare.x,
+                groupThreshold,
+                groups.length,
+                memberShare.x,
+                memberThreshold,
+                memberShare.data
+            ).toMnemonic());
+        });
+    }
+
+    /**
+     * Combine SLIP-39 share mnemonics to recover the master secret.
+     *
+     * Exactly `groupThreshold` groups with each exactly `memberThreshold`
+     * member shares must be provided. Share mnemonics may be given in any
+     * order.
+     *
+     * @param   mnemonics   {string[]}  The share mnemonics.
+     * @param   passphrase  {string}    (Optional) The passphrase used to encrypt the secret.
+     * @return  {Buffer}    Returns the master secret.
+     * @throws  {Error}     On invalid or insufficient share mnemonics.
+     */
+    public static recoverMasterSecret(
+        mnemonics: string[],
+        passphrase: string = ''
+    ): Buffer {
+
+        if (! mnemonics.length) {
+            throw new Error('The list of mnemonics is empty.');
+        }
+
+        // decode shares (and drop duplicate mnemonics)
+        const shares: ShamirShare[] = [];
+        mnemonics.map((mnemonic) => ShamirShare.fromMnemonic(mnemonic)).forEach((share) => {
+            const duplicate = shares.find((other) => other.groupIndex === share.groupIndex
+                                                  && other.memberIndex === share.memberIndex
+                                                  && other.value.equals(share.value));
+            if (duplicate === undefined) {
+                shares.push(share);
+            }
+        });
+
+        const first = shares[0];
+        if (shares.some((share) => share.identifier !== first.identifier
+                                || share.extendable !== first.extendable
+                                || share.iterationExponent !== first.iterationExponent)) {
+            throw new Error('Invalid set of mnemonics. All mnemonics must begin with the same 2 words.');
+        }
+
+        if (shares.some((share) => share.groupThreshold !== first.groupThreshold)) {
+            throw new Error('Invalid set of mnemonics. All mnemonics must have the same group threshold.');
+        }
+
+        if (shares.some((share) => share.groupCount !== first.groupCount)) {
+            throw new Error('Invalid set of mnemonics. All mnemonics must have the same group count.');
+        }
+
+        // sort member shares by group index
+        const groups = new Map<number, ShamirShare[]>();
+        shares.forEach((share) => {
+            const group = groups.get(share.groupIndex) || [];
+            groups.set(share.groupIndex, group.concat([share]));
+        });
+
+        if (groups.size < first.groupThreshold) {
+            throw new Error('Insufficient number of mnemonic groups. The required number of groups is '
+                          + first.groupThreshold + '.');
+        }
+
+        if (groups.size !== first.groupThreshold) {
+            throw new Error('Wrong number of mnemonic groups. Expected ' + first.groupThreshold
+                          + ' groups, but ' + groups.size + ' were provided.');
+        }
+
+        // first level: recover each group share
+        const groupShares: RawShare[] = [];
+        groups.forEach((members, groupIndex) => {
+            const memberThreshold = members[0].memberThreshold;
+            if (members.some((member) => member.memberThreshold !== memberThreshold)) {
+                throw new Error('Invalid set of mnemonics. All mnemonics in a group must have the same member threshold.');
+            }
+
+            if (members.length !== memberThreshold) {
+                throw new Error('Wrong number of mnemonics. Expected ' + memberThreshold
+                              + ' mnemonics, but ' + members.length + ' were provided.');
+            }
+
+            const memberShares = members.map((member) => ({x: member.memberIndex, data: member.value}));
+            groupShares.push({x: groupIndex, data: recoverSecret(memberThreshold, memberShares)});
+        });
+
+        // second level: recover the encrypted master secret
+        const encrypted = recoverSecret(first.groupThreshold, groupShares);
+        return ShamirMnemonic.decrypt(
+            encrypted,
+            passphrase,
+            first.iterationExponent,
+            first.identifier,
+            first.extendable
+        );
+    }
+
+    /**
+     * Combine SLIP-39 share mnemonics to recover the hexadecimal
+     * seed that can be used with `ExtendedKey.createFromSeed()`.
+     *
+     * @see {ShamirMnemonic}#recoverMasterSecret
+     * @param   mnemonics   {string[]}  The share mnemonics.
+     * @param   passphrase  {string}    (Optional) The passphrase used to encrypt the secret.
+     * @return  {string}    Returns the hexadecimal seed.
+     * @throws  {Error}     On invalid or insufficient share mnemonics.
+     */
+    public static recoverSeed(
+        mnemonics: string[],
+        passphrase: string = ''
+    ): string {
+        return ShamirMnemonic.recoverMasterSecret(mnemonics, passphrase).toString('hex');
+    }
+
+    /**
+     * Encrypt the master secret with a 4 rounds Feistel network
+     * using PBKDF2-HMAC-SHA256 as the round function.
+     *
+     * @internal
+     * @param   masterSecret        {Buffer}
+     * @param   passphrase          {string}
+     * @param   iterationExponent   {number}
+     * @param   identifier          {number}
+     * @param   extendable          {boolean}
+     * @return  {Buffer}
+     */
+    protected static encrypt(
+        masterSecret: Buffer,
+        passphrase: string,
+        iterationExponent: number,
+        identifier: number,
+        extendable: boolean
+    ): Buffer {
+        const rounds = Array.from({length: ShamirMnemonic.ROUND_COUNT}, (_, i) => i);
+        return ShamirMnemonic.feistel(masterSecret, passphrase, iterationExponent, identifier, extendable, rounds);
+    }
+
+    /**
+     * Decrypt the encrypted master secret, rounds are applied
+     * in reverse order.
+     *
+     * @internal
+     * @param   encrypted           {Buffer}
+     * @param   passphrase          {string}
+     * @param   iterationExponent   {number}
+     * @param   identifier          {number}
+     * @param   extendable          {boolean}
+     * @return  {Buffer}
+     */
+    protected static decrypt(
+        encrypted: Buffer,
+        passphrase: string,
+        iterationExponent: number,
+        identifier: number,
+        extendable: boolean
+    ): Buffer {
+        const rounds = Array.from({length: ShamirMnemonic.ROUND_COUNT}, (_, i) => i).reverse();
+        return ShamirMnemonic.feistel(encrypted, passphrase, iterationExponent, identifier, extendable, rounds);
+    }
+
+    /**
+     * Apply the Feistel network `rounds` to `data`.
+     *
+     * @internal
+     * @see https://github.com/satoshilabs/slips/blob/master/slip-0039.md#encryption-of-the-master-secret
+     * @param   data                {Buffer}
+     * @param   passphrase          {string}
+     * @param   iterationExponent   {number}
+     * @param   identifier          {number}
+     * @param   extendable          {boolean}
+     * @param   rounds              {number[]}
+     * @return  {Buffer}
+     * @throws  {Error}     On non-printable passphrase characters.
+     */
+    protected static feistel(
+        data: Buffer,
+        passphrase: string,
+        iterationExponent: number,
+        identifier: number,
+        extendable: boolean,
+        rounds: number[]
+    ): Buffer {
+
+        if (! /^[\x20-\x7E]*$/.test(passphrase)) {
+            throw new Error('The passphrase must contain only printable ASCII characters (code points 32-126).');
+        }
+
+        // salt = "shamir" || id (only for non-extendable backups)
+        const identifierBytes = Buffer.alloc(2);
+        identifierBytes.writeUInt16BE(identifier, 0);
+        const salt = extendable ? Buffer.alloc(0) : Buffer.concat([Buffer.from('shamir', 'ascii'), identifierBytes]);
+        const iterations = (ShamirMnemonic.BASE_ITERATION_COUNT << iterationExponent) / ShamirMnemonic.ROUND_COUNT;
+
+        let L = data.slice(0, data.length / 2);
+        let R = data.slice(data.length / 2);
+        rounds.forEach((i) => {
+            const key = Buffer.concat([Buffer.from([i]), Buffer.from(passphrase, 'ascii')]);
+            const F = pbkdf2Sync(key, Buffer.concat([salt, R]), iterations, R.length, 'sha256');
+            const next = Buffer.alloc(R.length);
+            for (let j = 0; j < R.length; j++) {
+                next[j] = L[j] ^ F[j];
+            }
+
+            L = R;
+            R = next;
+        });
+
+        return Buffer.concat([R, L]);
+    }
+}
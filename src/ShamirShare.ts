@@ -0,0 +1,340 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import { SLIP39_WORDLIST } from './Wordlists/SLIP39';
+
+/**
+ * Number of bits encoded by one SLIP-39 word.
+ * @var {number}
+ */
+const RADIX_BITS = 10;
+
+/**
+ * Number of words used for the share metadata (identifier,
+ * extendable flag, iteration exponent, group and member
+ * parameters) and the RS1024 checksum.
+ * @var {number}
+ */
+const METADATA_LENGTH_WORDS = 7;
+
+/**
+ * Minimum number of words of a share mnemonic (128 bits secret).
+ * @var {number}
+ */
+const MIN_MNEMONIC_LENGTH_WORDS = METADATA_LENGTH_WORDS + Math.ceil(128 / RADIX_BITS);
+
+/**
+ * Generator of the RS1024 Reed-Solomon code over GF(1024).
+ * @var {number[]}
+ */
+const RS1024_GEN = [
+    0xE0E040, 0x1C1C080, 0x3838100, 0x7070200, 0xE0E0009,
+    0x1C0C2412, 0x38086C24, 0x3090FC48, 0x21B1F890, 0x3F3F120,
+];
+
+/**
+ * Compute the RS1024 polynomial modulus of `values`.
+ *
+ * @see https://github.com/satoshilabs/slips/blob/master/slip-0039.md#checksum
+ * @param   values  {number[]}
+ * @return  {number}
+ */
+const rs1024Polymod = (
+    values: number[]
+): number => {
+    let chk = 1;
+    values.forEach((v) => {
+        const b = chk >> 20;
+        chk = ((chk & 0xFFFFF) << 10) ^ v;
+        for (let i = 0; i < 10; i++) {
+            chk ^= ((b >> i) & 1) ? RS1024_GEN[i] : 0;
+        }
+    });
+
+    return chk;
+};
+
+/**
+ * Get the RS1024 customization string values for said
+ * `extendable` backup flag.
+ *
+ * @param   extendable  {boolean}
+ * @return  {number[]}
+ */
+const customizationString = (
+    extendable: boolean
+): number[] => {
+    const customization = extendable ? 'shamir_extendable' : 'shamir';
+    return Array.from(Buffer.from(customization, 'ascii'));
+};
+
+/**
+ * Push the `count` least significant bits of `value` to `bits`.
+ *
+ * @param   bits    {number[]}
+ * @param   value   {number}
+ * @param   count   {number}
+ * @return  {void}
+ */
+const pushBits = (
+    bits: number[],
+    value: number,
+    count: number
+): void => {
+    for (let i = count - 1; i >= 0; i--) {
+        bits.push((value >> i) & 1);
+    }
+};
+
+/**
+ * Read `count` bits of `bits` starting at `offset` as an unsigned integer.
+ *
+ * @param   bits    {number[]}
+ * @param   offset  {number}
+ * @param   count   {number}
+ * @return  {number}
+ */
+const readBits = (
+    bits: number[],
+    offset: number,
+    count: number
+): number => {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+        value = (value << 1) | bits[offset + i];
+    }
+
+    return value;
+};
+
+/**
+ * Class `ShamirShare` describes one share of a SLIP-39 Shamir backup
+ * and its' mnemonic encoding as defined in following document:
+ *
+ *     https://github.com/satoshilabs/slips/blob/master/slip-0039.md
+ *
+ * Mnemonics are laid out with following fields (with `||` concatenation
+ * operator), each word encoding 10 bits:
+ *
+ * `id || ext || e || GI || Gt || g || I || t || ps || C`
+ *
+ * @see https://github.com/satoshilabs/slips/blob/master/slip-0039.md#format-of-the-share-mnemonic
+ * @since 0.5.0
+ */
+export class ShamirShare {
+
+    /**
+     * Construct a `ShamirShare` object.
+     *
+     * @param   identifier          {number}
+     * @param   extendable          {boolean}
+     * @param   iterationExponent   {number}
+     * @param   groupIndex          {number}
+     * @param   groupThreshold      {number}
+     * @param   groupCount          {number}
+     * @param   memberIndex         {number}
+     * @param   memberThreshold     {number}
+     * @param   value               {Buffer}
+     */
+    constructor(/**
+                 * The random identifier (15 bits) common to all shares.
+                 * @var {number}
+                 */
+                public readonly identifier: number,
+                /**
+                 * Whether the identifier is excluded from the encryption salt.
+                 * @var {boolean}
+                 */
+                public readonly extendable: boolean,
+                /**
+                 * The PBKDF2 iteration exponent (4 bits).
+                 * @var {number}
+                 */
+                public readonly iterationExponent: number,
+                /**
+                 * The x-coordinate of the group share (4 bits).
+                 * @var {number}
+                 */
+                public readonly groupIndex: number,
+                /**
+                 * The number of group shares needed to recover the secret.
+                 * @var {number}
+                 */
+                public readonly groupThreshold: number,
+                /**
+                 * The total number of groups.
+                 * @var {number}
+                 */
+                public readonly groupCount: number,
+                /**
+                 * The x-coordinate of the member share in its' group (4 bits).
+                 * @var {number}
+                 */
+                public readonly memberIndex: number,
+                /**
+                 * The number of member shares needed to recover the group share.
+                 * @var {number}
+                 */
+                public readonly memberThreshold: number,
+                /**
+                 * The share value (y-coordinates).
+                 * @var {Buffer}
+                 */
+                public readonly value: Buffer
+    ) {
+
+    }
+
+    /**
+     * Decode a share mnemonic into its' `ShamirShare` object
+     * representation.
+     *
+     * This method validates the mnemonic length, the words, the RS1024
+     * checksum and the padding of the share value.
+     *
+     * @param   mnemonic    {string}    The share mnemonic (plain text).
+     * @return  {ShamirShare}
+     * @throws  {Error}     On invalid mnemonic.
+     */
+    public static fromMnemonic(
+        mnemonic: string
+    ): ShamirShare {
+
+        const words = mnemonic.trim().toLowerCase().split(/\s+/);
+        if (words.length < MIN_MNEMONIC_LENGTH_WORDS) {
+            throw new Error('Invalid mnemonic length. The length of each mnemonic must be at least '
+                          + MIN_MNEMONIC_LENGTH_WORDS + ' words.');
+        }
+
+        // share values are encoded on a whole number of bytes
+        const paddingLength = (RADIX_BITS * (words.length - METADATA_LENGTH_WORDS)) % 16;
+        if (paddingLength > 8) {
+            throw new Error('Invalid mnemonic length.');
+        }
+
+        const indices = words.map((word) => {
+            const index = SLIP39_WORDLIST.indexOf(word);
+            if (index === -1) {
+                throw new Error('Invalid mnemonic word "' + word + '".');
+            }
+
+            return index;
+        });
+
+        const bits: number[] = [];
+        indices.forEach((index) => pushBits(bits, index, RADIX_BITS));
+
+        // 15 bits: identifier, 1 bit: extendable backup flag
+        const identifier = readBits(bits, 0, 15);
+        const extendable = readBits(bits, 15, 1) === 1;
+
+        if (rs1024Polymod(customizationString(extendable).concat(indices)) !== 1) {
+            throw new Error('Invalid mnemonic checksum.');
+        }
+
+        // 4 bits each: e, GI, Gt - 1, g - 1, I, t - 1
+        const iterationExponent = readBits(bits, 16, 4);
+        const groupIndex = readBits(bits, 20, 4);
+        const groupThreshold = readBits(bits, 24, 4) + 1;
+        const groupCount = readBits(bits, 28, 4) + 1;
+        const memberIndex = readBits(bits, 32, 4);
+        const memberThreshold = readBits(bits, 36, 4) + 1;
+
+        if (groupThreshold > groupCount) {
+            throw new Error('Invalid mnemonic. Group threshold cannot be greater than group count.');
+        }
+
+        // padding bits are left-most in the share value
+        const valueOffset = 40;
+        const valueEnd = bits.length - 3 * RADIX_BITS;
+        if (readBits(bits, valueOffset, paddingLength) !== 0) {
+            throw new Error('Invalid mnemonic padding.');
+        }
+
+        const value = Buffer.alloc((valueEnd - valueOffset - paddingLength) / 8);
+        for (let i = 0; i < value.length; i++) {
+            value[i] = readBits(bits, valueOffset + paddingLength + i * 8, 8);
+        }
+
+        return new ShamirShare(
+            identifier,
+            extendable,
+            iterationExponent,
+            groupIndex,
+            groupThreshold,
+            groupCount,
+            memberIndex,
+            memberThreshold,
+            value
+        );
+    }
+
+    /**
+     * Validate a share mnemonic (words, length, padding and checksum).
+     *
+     * @param   mnemonic    {string}
+     * @return  {boolean}   True for *valid share mnemonic*, False otherwise.
+     */
+    public static isValid(
+        mnemonic: string
+    ): boolean {
+        try {
+            ShamirShare.fromMnemonic(mnemonic);
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Encode the share as a mnemonic sentence using the
+     * SLIP-39 wordlist.
+     *
+     * @return  {string}
+     */
+    public toMnemonic(): string {
+
+        const bits: number[] = [];
+        pushBits(bits, this.identifier, 15);
+        pushBits(bits, this.extendable ? 1 : 0, 1);
+        pushBits(bits, this.iterationExponent, 4);
+        pushBits(bits, this.groupIndex, 4);
+        pushBits(bits, this.groupThreshold - 1, 4);
+        pushBits(bits, this.groupCount - 1, 4);
+        pushBits(bits, this.memberIndex, 4);
+        pushBits(bits, this.memberThreshold - 1, 4);
+
+        // left-pad the share value to a multiple of 10 bits
+        const valueWords = Math.ceil(this.value.length * 8 / RADIX_BITS);
+        pushBits(bits, 0, valueWords * RADIX_BITS - this.value.length * 8);
+        this.value.forEach((byte) => pushBits(bits, byte, 8));
+
+        const indices: number[] = [];
+        for (let i = 0; i < bits.length; i += RADIX_BITS) {
+            indices.push(readBits(bits, i, RADIX_BITS));
+        }
+
+        // 3 words: RS1024 checksum
+        const polymod = rs1024Polymod(customizationString(this.extendable).concat(indices, [0, 0, 0])) ^ 1;
+        indices.push((polymod >> 20) & 1023, (polymod >> 10) & 1023, polymod & 1023);
+
+        return indices.map((index) => SLIP39_WORDLIST[index]).join(' ');
+    }
+}
@@ -0,0 +1,245 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import { createHmac } from 'crypto';
+
+/**
+ * Name of the environment variable which enables `TestDRBG`.
+ * @var {string}
+ */
+const FLAG = 'NEM2_HD_WALLETS_TEST_DRBG';
+
+/**
+ * Maximum number of bytes per request (2^19 bits).
+ * @var {number}
+ */
+const MAX_BYTES_PER_REQUEST = 65536;
+
+/**
+ * Maximum number of requests between reseeds (2^48).
+ * @var {number}
+ */
+const RESEED_INTERVAL = Math.pow(2, 48);
+
+/**
+ * Encode `data` as a Buffer, strings are UTF-8 encoded.
+ *
+ * @param   data    {Buffer|string}
+ * @return  {Buffer}
+ */
+const toBuffer = (
+    data: Buffer | string
+): Buffer => {
+    return typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+};
+
+/**
+ * Class `TestDRBG` describes a deterministic random bit generator,
+ * HMAC_DRBG with SHA-256 as defined by NIST SP 800-90A, to generate
+ * reproducible test fixtures and demos.
+ *
+ * **NOT FOR PRODUCTION USE**: the generated bytes are only as secret as
+ * the seed, which is usually a label in a test file. The generator
+ * refuses to run unless the environment variable
+ * `NEM2_HD_WALLETS_TEST_DRBG` is set to `1`.
+ *
+ * @example Usage of the test DRBG
+ *
+ * ```typescript
+ * // NEM2_HD_WALLETS_TEST_DRBG=1 mocha ...
+ * const drbg = TestDRBG.fromSeed('fixture seed', 'alice wallet');
+ * const mnemonic = MnemonicPassPhrase.createRandom('english', 256, drbg.toRng());
+ * ```
+ *
+ * @see https://csrc.nist.gov/publications/detail/sp/800-90a/rev-1/final
+ * @since 0.5.0
+ */
+export class TestDRBG {
+
+    /**
+     * Name of the environment variable which enables `TestDRBG`.
+     * @var {string}
+     */
+    public static readonly FLAG = FLAG;
+
+    /**
+     * The key of the internal state.
+     * @var {Buffer}
+     */
+    protected key: Buffer;
+
+    /**
+     * The value of the internal state.
+     * @var {Buffer}
+     */
+    protected value: Buffer;
+
+    /**
+     * The number of requests since instantiation or reseeding.
+     * @var {number}
+     */
+    protected reseedCounter: number;
+
+    /**
+     * Instantiate an HMAC_DRBG with `entropy`, `nonce` and
+     * `personalization` string.
+     *
+     * @param   entropy         {Buffer|string}     The entropy input.
+     * @param   nonce           {Buffer|string}     (Optional) The nonce.
+     * @param   personalization {Buffer|string}     (Optional) The personalization string.
+     * @throws  {Error}     When the test flag is not set, or on empty entropy.
+     */
+    constructor(entropy: Buffer | string,
+                nonce: Buffer | string = '',
+                personalization: Buffer | string = '') {
+        TestDRBG.assertEnabled();
+
+        if (!toBuffer(entropy).length) {
+            throw new Error('Entropy input must not be empty.');
+        }
+
+        this.key = Buffer.alloc(32, 0x00);
+        this.value = Buffer.alloc(32, 0x01);
+        this.update(Buffer.concat([toBuffer(entropy), toBuffer(nonce), toBuffer(personalization)]));
+        this.reseedCounter = 1;
+    }
+
+    /**
+     * Return whether the test flag is set.
+     *
+     * @return  {boolean}
+     */
+    public static isEnabled(): boolean {
+        return process.env[FLAG] === '1';
+    }
+
+    /**
+     * Throw if the test flag is not set.
+     *
+     * @return  {void}
+     * @throws  {Error}     When the test flag is not set.
+     */
+    public static assertEnabled(): void {
+        if (!TestDRBG.isEnabled()) {
+            throw new Error('TestDRBG is not for production use, set ' + FLAG + '=1 to enable it in tests.');
+        }
+    }
+
+    /**
+     * Instantiate a generator from a fixture `seed` and `label`, such
+     * that fixtures with different labels are independent.
+     *
+     * @param   seed    {Buffer|string}     The fixture seed.
+     * @param   label   {string}    (Optional) The fixture label (personalization string).
+     * @return  {TestDRBG}
+     * @throws  {Error}     When the test flag is not set.
+     */
+    public static fromSeed(
+        seed: Buffer | string,
+        label: string = ''
+    ): TestDRBG {
+        return new TestDRBG(seed, '', label);
+    }
+
+    /**
+     * Reseed the generator with `entropy`.
+     *
+     * @param   entropy     {Buffer|string}     The entropy input.
+     * @param   additional  {Buffer|string}     (Optional) The additional input.
+     * @return  {void}
+     * @throws  {Error}     When the test flag is not set.
+     */
+    public reseed(
+        entropy: Buffer | string,
+        additional: Buffer | string = ''
+    ): void {
+        TestDRBG.assertEnabled();
+
+        this.update(Buffer.concat([toBuffer(entropy), toBuffer(additional)]));
+        this.reseedCounter = 1;
+    }
+
+    /**
+     * Generate `size` bytes.
+     *
+     * @param   size        {number}    The number of bytes (at most 65536).
+     * @param   additional  {Buffer|string}     (Optional) The additional input.
+     * @return  {Buffer}
+     * @throws  {Error}     When the test flag is not set, on invalid size or when a reseed is required.
+     */
+    public generate(
+        size: number,
+        additional: Buffer | string = ''
+    ): Buffer {
+        TestDRBG.assertEnabled();
+
+        if (!(size >= 0 && size <= MAX_BYTES_PER_REQUEST) || size % 1 !== 0) {
+            throw new Error('Invalid number of bytes: ' + size + '.');
+        }
+
+        if (this.reseedCounter > RESEED_INTERVAL) {
+            throw new Error('Reseed required.');
+        }
+
+        const input = toBuffer(additional);
+        if (input.length) {
+            this.update(input);
+        }
+
+        const blocks: Buffer[] = [];
+        for (let length = 0; length < size; length += this.value.length) {
+            this.value = createHmac('sha256', this.key).update(this.value).digest();
+            blocks.push(this.value);
+        }
+
+        this.update(input);
+        this.reseedCounter++;
+        return Buffer.concat(blocks).slice(0, size);
+    }
+
+    /**
+     * Get a random number generator function reading from this
+     * generator, e.g. for `MnemonicPassPhrase.createRandom`.
+     *
+     * @return  {function}
+     */
+    public toRng(): (size: number) => Buffer {
+        return (size: number) => this.generate(size);
+    }
+
+    /**
+     * HMAC_DRBG update function.
+     *
+     * @internal
+     * @param   data    {Buffer}    The provided data (can be empty).
+     * @return  {void}
+     */
+    protected update(
+        data: Buffer
+    ): void {
+        this.key = createHmac('sha256', this.key).update(Buffer.concat([this.value, Buffer.from([0x00]), data])).digest();
+        this.value = createHmac('sha256', this.key).update(this.value).digest();
+
+        if (data.length) {
+            this.key = createHmac('sha256', this.key).update(Buffer.concat([this.value, Buffer.from([0x01]), data])).digest();
+            this.value = createHmac('sha256', this.key).update(this.value).digest();
+        }
+    }
+}
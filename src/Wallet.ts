@@ -26,9 +26,13 @@ import {
 
 // internal dependencies
 import { 
+    CurveAlgorithm,
     ExtendedKey,
     KeyEncoding,
+    MACType,
+    MnemonicPassPhrase,
     Network,
+    SeedDerivationOptions,
 } from '../index';
 
 /**
@@ -41,7 +45,7 @@ import {
  * @example Usage of hierarchical deterministic wallets
  * 
  * ```typescript
- * const xkey = ExtendedKey.createFromSeed('000102030405060708090a0b0c0d0e0f');
+ * const xkey = ExtendedKey.createFromSeed('000102030405060708090a0b0c0d0e0f', Network.CATAPULT);
  * const wallet = new Wallet(xkey);
  * 
  * // get master account
@@ -96,6 +100,34 @@ export class Wallet {
         this.publicKey = extendedKey.getPublicKey(KeyEncoding.ENC_BIN) as Buffer;
     }
 
+    /**
+     * Create a `Wallet` object from a mnemonic pass phrase, without
+     * blocking the event loop.
+     *
+     * The extended key is created with `ExtendedKey.createFromMnemonic`
+     * for `network`, which defaults to `Network.CATAPULT`.
+     *
+     * @see {ExtendedKey}.createFromMnemonic
+     * @param   mnemonic    {MnemonicPassPhrase}
+     * @param   password    {string}
+     * @param   network     {Network}   (Optional) The CATAPULT network of the wallet.
+     * @param   macType     {MACType}
+     * @param   options     {SeedDerivationOptions}  (Optional) Progress callback and cancellation token.
+     * @return  {Promise<Wallet>}
+     * @since 0.5.0
+     */
+    public static createFromMnemonic(
+        mnemonic: MnemonicPassPhrase,
+        password: string = '',
+        network: Network = Network.CATAPULT,
+        macType: MACType = MACType.HMAC,
+        options: SeedDerivationOptions = {}
+    ): Promise<Wallet> {
+        return ExtendedKey.createFromMnemonic(mnemonic, password, network, macType, options).then(
+            (xkey) => new Wallet(xkey)
+        );
+    }
+
     /**
      * Return whether the current wallet is read-only, or not.
      *
@@ -115,12 +147,14 @@ export class Wallet {
      * No derivation is done in this step. Derivation must be done either before
      * calling this method or using the `getChildAccount` method.
      *
-     * @param   networkType {NetworkType}   Which network type to use, defaults to MIJIN_TEST.
+     * @param   networkType {NetworkType}   Which network type to use, defaults to the network type of the extended key network.
      * @return  {Account}
      * @throws  {Error}     On call of this method with a read-only wallet.
+     * @throws  {Error}     On call of this method with a BIP32-Ed25519 extended key.
+     * @throws  {Error}     On missing network type.
      */
     getAccount(
-        networkType: NetworkType = NetworkType.MIJIN_TEST
+        networkType?: NetworkType
     ): Account {
 
         // in case of read-only wallet, not possible to initiate Account
@@ -129,10 +163,12 @@ export class Wallet {
             throw new Error("Missing private key, please use method getPublicAccount().");
         }
 
+        this.assertAccountPrivateKey();
+
         // note: do not store private key in memory longer than function call
         return Account.createFromPrivateKey(
             this.extendedKey.getPrivateKey(KeyEncoding.ENC_HEX) as string,
-            networkType
+            this.getNetworkType(networkType)
         );
     }
 
@@ -142,15 +178,16 @@ export class Wallet {
      * No derivation is done in this step. Derivation must be done either before
      * calling this method or using the `getChildPublicAccount` method.
      *
-     * @param   networkType {NetworkType}   Which network type to use, defaults to MIJIN_TEST.
+     * @param   networkType {NetworkType}   Which network type to use, defaults to the network type of the extended key network.
      * @return  {PublicAccount}
+     * @throws  {Error}     On missing network type.
      */
     getPublicAccount(
-        networkType: NetworkType = NetworkType.MIJIN_TEST
+        networkType?: NetworkType
     ): PublicAccount {
         return PublicAccount.createFromPublicKey(
             this.publicKey.toString('hex'),
-            networkType
+            this.getNetworkType(networkType)
         );
     }
 
@@ -162,13 +199,15 @@ export class Wallet {
      *
      * @see Wallet.DEFAULT_WALLET_PATH
      * @param   path        {string}        Child derivation path, default to `Wallet.DEFAULT_WALLET_PATH`.
-     * @param   networkType {NetworkType}   Which network type to use, defaults to MIJIN_TEST.
+     * @param   networkType {NetworkType}   Which network type to use, defaults to the network type of the extended key network.
      * @return  {Account | PublicAccount}
      * @throws  {Error}     On call of this method with a read-only wallet.
+     * @throws  {Error}     On call of this method with a BIP32-Ed25519 extended key.
+     * @throws  {Error}     On missing network type.
      */
     getChildAccount(
         path: string = Wallet.DEFAULT_WALLET_PATH,
-        networkType: NetworkType = NetworkType.MIJIN_TEST
+        networkType?: NetworkType
     ): Account {
 
         // in case of read-only wallet, get PublicAccount instance
@@ -176,13 +215,15 @@ export class Wallet {
             throw new Error("Missing private key, please use method getChildPublicAccount().");
         }
 
+        this.assertAccountPrivateKey();
+
         // child key derivation with `ExtendedKeyNode.derivePath()`
         const childKeyNode = this.extendedKey.derivePath(path);
 
         // non-read-only, get Account instance
         return Account.createFromPrivateKey(
             childKeyNode.getPrivateKey(KeyEncoding.ENC_HEX) as string,
-            networkType
+            this.getNetworkType(networkType)
         );
     }
 
@@ -194,20 +235,64 @@ export class Wallet {
      *
      * @see Wallet.DEFAULT_WALLET_PATH
      * @param   path        {string}        Child derivation path, default to `Wallet.DEFAULT_WALLET_PATH`.
-     * @param   networkType {NetworkType}   Which network type to use, defaults to MIJIN_TEST.
+     * @param   networkType {NetworkType}   Which network type to use, defaults to the network type of the extended key network.
      * @return  {Account | PublicAccount}
+     * @throws  {Error}     On missing network type.
      */
     getChildPublicAccount(
         path: string = Wallet.DEFAULT_WALLET_PATH,
-        networkType: NetworkType = NetworkType.MIJIN_TEST
+        networkType?: NetworkType
     ): PublicAccount {
 
         // child key derivation with `ExtendedKeyNode.derivePath()`
         const childKeyNode = this.extendedKey.derivePath(path);
         return PublicAccount.createFromPublicKey(
             childKeyNode.getPublicKey(KeyEncoding.ENC_HEX) as string,
-            networkType
+            this.getNetworkType(networkType)
         );
     }
 
+    /**
+     * Get the nem2-sdk network type of accounts: `networkType` when
+     * given, or the network type of the extended key network (e.g.
+     * `NetworkType.MIJIN_TEST` for `Network.CATAPULT`).
+     *
+     * @internal
+     * @param   networkType {NetworkType}   (Optional) The network type.
+     * @return  {NetworkType}
+     * @throws  {Error}     On missing network type.
+     * @since 0.5.0
+     */
+    protected getNetworkType(
+        networkType?: NetworkType
+    ): NetworkType {
+        if (networkType !== undefined) {
+            return networkType;
+        }
+
+        if (this.extendedKey.network.networkType === undefined) {
+            throw new Error('Network of extended key has no network type, please provide one.');
+        }
+
+        return this.extendedKey.network.networkType;
+    }
+
+    /**
+     * Assert that the extended key holds 32 bytes private keys
+     * as needed by nem2-sdk `Account` objects.
+     *
+     * BIP32-Ed25519 extended keys only hold the expanded private
+     * key `kL || kR`, sign with `ExtendedKey.node` instead.
+     *
+     * @internal
+     * @return  {void}
+     * @throws  {Error}     On BIP32-Ed25519 extended key.
+     * @since 0.5.0
+     */
+    protected assertAccountPrivateKey(): void {
+        if (this.extendedKey.network.curve === CurveAlgorithm.ed25519_bip32) {
+            throw new Error('BIP32-Ed25519 extended keys cannot create accounts, please use public accounts.');
+        }
+    }
+
 }
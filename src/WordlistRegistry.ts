@@ -0,0 +1,169 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import * as bip39 from 'bip39';
+
+/**
+ * Class `WordlistRegistry` holds the wordlists that can be used with
+ * `MnemonicPassPhrase`, indexed by language.
+ *
+ * The registry is initialized with the wordlists provided by the
+ * `bitcoinjs/bip39` package. Custom 2048-words lists can be added
+ * with `WordlistRegistry.register()`.
+ *
+ * Wordlists are always passed explicitly to `bitcoinjs/bip39` such
+ * that its' global default wordlist is never changed.
+ *
+ * @example Usage of custom wordlists
+ *
+ * ```typescript
+ * WordlistRegistry.register('corporate', words);
+ * const mnemonic = MnemonicPassPhrase.createRandom('corporate');
+ * ```
+ *
+ * @see https://github.com/bitcoin/bips/blob/master/bip-0039/bip-0039-wordlists.md
+ * @since 0.5.0
+ */
+export class WordlistRegistry {
+
+    /**
+     * Number of words of a BIP39 wordlist (11 bits per word).
+     * @var {number}
+     */
+    public static readonly WORDLIST_SIZE = 2048;
+
+    /**
+     * The registered wordlists.
+     * @var {Object}
+     */
+    private static readonly wordlists: {[language: string]: string[]} = Object.assign({}, bip39.wordlists);
+
+    /**
+     * The languages of `bitcoinjs/bip39` wordlists, these
+     * cannot be overwritten or unregistered.
+     * @var {string[]}
+     */
+    private static readonly builtins: string[] = Object.keys(bip39.wordlists);
+
+    /**
+     * No-Construct
+     */
+    private constructor() {}
+
+    /**
+     * Register a custom wordlist for `language`.
+     *
+     * The wordlist must contain exactly 2048 distinct words without
+     * white-space characters. Words are stored in NFKD normal form.
+     *
+     * @param   language    {string}    The language name (lower-case letters, digits and underscores).
+     * @param   words       {string[]}  The wordlist.
+     * @return  {void}
+     * @throws  {Error}     On invalid language name, built-in language or invalid wordlist.
+     */
+    public static register(
+        language: string,
+        words: string[]
+    ): void {
+        if (! /^[a-z][a-z0-9_]*$/.test(language)) {
+            throw new Error('Language name must contain only lower-case letters, digits and underscores.');
+        }
+
+        if (WordlistRegistry.builtins.indexOf(language) !== -1) {
+            throw new Error('Language "' + language + '" is built-in and cannot be overwritten.');
+        }
+
+        if (words.length !== WordlistRegistry.WORDLIST_SIZE) {
+            throw new Error('Wordlist must contain exactly ' + WordlistRegistry.WORDLIST_SIZE
+                          + ' words, but got: ' + words.length + ' words.');
+        }
+
+        const normalized = words.map((word) => word.normalize('NFKD'));
+        normalized.forEach((word) => {
+            if (! word.length || /\s/.test(word)) {
+                throw new Error('Wordlist must not contain empty words or white-space characters.');
+            }
+        });
+
+        if (new Set(normalized).size !== normalized.length) {
+            throw new Error('Wordlist must not contain duplicate words.');
+        }
+
+        WordlistRegistry.wordlists[language] = Object.freeze(normalized) as string[];
+    }
+
+    /**
+     * Remove the custom wordlist of `language`.
+     *
+     * @param   language    {string}
+     * @return  {void}
+     * @throws  {Error}     On built-in language.
+     */
+    public static unregister(
+        language: string
+    ): void {
+        if (WordlistRegistry.builtins.indexOf(language) !== -1) {
+            throw new Error('Language "' + language + '" is built-in and cannot be unregistered.');
+        }
+
+        delete WordlistRegistry.wordlists[language];
+    }
+
+    /**
+     * Return whether a wordlist is registered for `language`.
+     *
+     * @param   language    {string}
+     * @return  {boolean}
+     */
+    public static has(
+        language: string
+    ): boolean {
+        return WordlistRegistry.wordlists.hasOwnProperty(language);
+    }
+
+    /**
+     * Get the wordlist of `language`.
+     *
+     * @param   language    {string}
+     * @return  {string[]}
+     * @throws  {Error}     On unsupported `language` argument.
+     */
+    public static get(
+        language: string
+    ): string[] {
+        if (! WordlistRegistry.has(language)) {
+            throw new Error('Language "' + language + '" is not supported.');
+        }
+
+        return WordlistRegistry.wordlists[language];
+    }
+
+    /**
+     * Get the list of registered languages.
+     *
+     * Upper-case aliases of `bitcoinjs/bip39` (e.g. 'EN', 'JA') are
+     * not listed.
+     *
+     * @return  {string[]}
+     */
+    public static getLanguages(): string[] {
+        return Object.keys(WordlistRegistry.wordlists).filter((language) => language === language.toLowerCase());
+    }
+}
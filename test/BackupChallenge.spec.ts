@@ -0,0 +1,132 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    BackupChallenge,
+    MnemonicPassPhrase,
+    Network,
+} from "../index";
+
+describe('BackupChallenge -->', () => {
+
+    const words = [
+        'alpha', 'pattern', 'real', 'admit',
+        'vacuum', 'wall', 'ready', 'code',
+        'correct', 'program', 'depend', 'valid',
+        'focus', 'basket', 'whisper', 'firm',
+        'tray', 'fit', 'rally', 'day',
+        'dance', 'demise', 'engine', 'mango'
+    ];
+    const mnemonic = new MnemonicPassPhrase(words.join(' '));
+
+    // deterministic rng: returns bytes 0x00, 0x01, 0x02, ..
+    const counterRng = () => {
+        let counter = 0;
+        return (size: number) => {
+            const bytes = Buffer.alloc(size);
+            for (let i = 0; i < size; i++) {
+                bytes[i] = counter++ % 256;
+            }
+            return bytes;
+        };
+    };
+
+    describe('create() should', () => {
+        it('pick DEFAULT_SIZE distinct positions given no size', () => {
+            const challenge = BackupChallenge.create(mnemonic);
+
+            expect(challenge.positions.length).to.be.equal(BackupChallenge.DEFAULT_SIZE);
+            challenge.positions.forEach((position, i) => {
+                expect(position).to.be.within(1, 24);
+                expect(challenge.positions.indexOf(position)).to.be.equal(i);
+            });
+        });
+
+        it('pick positions using rng', () => {
+            const challenge = BackupChallenge.create(mnemonic, 4, counterRng());
+
+            // 0x0001, 0x0203, 0x0405, 0x0607
+            expect(challenge.positions).to.be.deep.equal([2, 12, 22, 8]);
+        });
+
+        it('throw given invalid size', () => {
+            expect((function () {
+                BackupChallenge.create(mnemonic, 25);
+            })).to.throw('Invalid challenge size, must be between 1 and 24.');
+
+            expect((function () {
+                BackupChallenge.create(mnemonic, 0);
+            })).to.throw('Invalid challenge size, must be between 1 and 24.');
+        });
+    });
+
+    describe('verify() should', () => {
+        it('return true given correct answers in any order', () => {
+            const challenge = BackupChallenge.create(mnemonic, 4);
+            const answers = challenge.positions.map((position) => ({position, word: words[position - 1]}));
+
+            expect(challenge.verify(answers)).to.be.equal(true);
+            expect(challenge.verify(answers.reverse())).to.be.equal(true);
+        });
+
+        it('ignore case and surrounding white-space', () => {
+            const challenge = BackupChallenge.create(mnemonic, 2);
+            const answers = challenge.positions.map((position) => ({position, word: ' ' + words[position - 1].toUpperCase() + '\n'}));
+
+            expect(challenge.verify(answers)).to.be.equal(true);
+        });
+
+        it('return false given wrong word', () => {
+            const challenge = BackupChallenge.create(mnemonic, 3, counterRng());
+            const answers = challenge.positions.map((position) => ({position, word: words[position - 1]}));
+            answers[1].word = 'zoo';
+
+            expect(challenge.verify(answers)).to.be.equal(false);
+        });
+
+        it('return false given missing or duplicate answers', () => {
+            const challenge = BackupChallenge.create(mnemonic, 3);
+            const answers = challenge.positions.map((position) => ({position, word: words[position - 1]}));
+
+            expect(challenge.verify(answers.slice(1))).to.be.equal(false);
+            expect(challenge.verify(answers.slice(1).concat([answers[1]]))).to.be.equal(false);
+        });
+    });
+
+    describe('verifyFingerprint() should', () => {
+        it('return true given re-entered mnemonic pass phrase', () => {
+            const fingerprint = BackupChallenge.getFingerprint(mnemonic, 'password', Network.CATAPULT);
+            const reentered = new MnemonicPassPhrase(words.join(' '));
+
+            expect(fingerprint).to.match(/^[0-9a-f]{8}$/);
+            expect(BackupChallenge.verifyFingerprint(reentered, fingerprint, 'password', Network.CATAPULT)).to.be.equal(true);
+        });
+
+        it('return false given different mnemonic pass phrase or password', () => {
+            const fingerprint = BackupChallenge.getFingerprint(mnemonic);
+            const swapped = new MnemonicPassPhrase(words.slice(1).concat(words[0]).join(' '));
+
+            expect(BackupChallenge.verifyFingerprint(swapped, fingerprint)).to.be.equal(false);
+            expect(BackupChallenge.verifyFingerprint(mnemonic, fingerprint, 'password')).to.be.equal(false);
+            expect(BackupChallenge.verifyFingerprint(mnemonic, 'abcd')).to.be.equal(false);
+        });
+    });
+});
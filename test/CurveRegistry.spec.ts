@@ -0,0 +1,189 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+
+// internal dependencies
+import {
+    CurveAlgorithm,
+    CurveNode,
+    CurveProviderInterface,
+    CurveRegistry,
+    ExtendedKey,
+    Network,
+    NodeNist256p1,
+} from "../index";
+
+/**
+ * Third-party node implementation used to test
+ * curve provider registration.
+ */
+class NodeCustom extends NodeNist256p1 {}
+
+/**
+ * Convert `node` to a `NodeCustom` node.
+ */
+const toCustom = (node: CurveNode): NodeCustom => {
+    const nist = node as NodeNist256p1;
+    return new NodeCustom(
+        nist.getD(),
+        nist.getD() === undefined ? nist.publicKey : undefined,
+        nist.chainCode,
+        nist.network,
+        nist.getDepth(),
+        nist.getIndex(),
+        nist.getParentFingerprint(),
+        nist.macType
+    );
+};
+
+describe('CurveRegistry -->', () => {
+
+    const customCurve = 100;
+    const customNetwork = new Network(0x0488b21e, 0x0488ade4, customCurve);
+    const seedHex = '000102030405060708090a0b0c0d0e0f';
+
+    const customProvider: CurveProviderInterface = {
+        name: 'NodeCustom',
+        fromSeed: (seed, network, macType) => toCustom(NodeNist256p1.fromSeed(seed, network, macType)),
+        fromBase58: (payload, network, macType) => toCustom(NodeNist256p1.fromBase58(payload, network, macType)),
+        neutered: (node) => toCustom((node as NodeCustom).neutered()),
+        derivePath: (node, path) => toCustom((node as NodeCustom).derivePath(path)),
+        isNode: (node) => node instanceof NodeCustom,
+        getMACType: (node) => (node as NodeCustom).macType,
+    };
+
+    beforeEach(() => {
+        CurveRegistry.register(customCurve, customProvider);
+    });
+
+    afterEach(() => {
+        CurveRegistry.unregister(customCurve);
+    });
+
+    describe('get() should', () => {
+        it('return providers of built-in curves', () => {
+            expect(CurveRegistry.get(CurveAlgorithm.secp256k1).name).to.be.equal('BIP32');
+            expect(CurveRegistry.get(CurveAlgorithm.ed25519).name).to.be.equal('NodeEd25519');
+            expect(CurveRegistry.get(CurveAlgorithm.ed25519_bip32).name).to.be.equal('NodeEd25519BIP32');
+            expect(CurveRegistry.get(CurveAlgorithm.nist256p1).name).to.be.equal('NodeNist256p1');
+        });
+
+        it('throw given unknown curve', () => {
+            expect((function () {
+                CurveRegistry.get(101);
+            })).to.throw('No curve provider registered for curve 101.');
+        });
+    });
+
+    describe('register() should', () => {
+        it('add provider to registered providers', () => {
+            expect(CurveRegistry.has(customCurve)).to.be.equal(true);
+            expect(CurveRegistry.get(customCurve)).to.be.equal(customProvider);
+            expect(CurveRegistry.getCurves()).to.include(customCurve);
+            expect(CurveRegistry.isBuiltIn(customCurve)).to.be.equal(false);
+        });
+
+        it('throw given built-in curve', () => {
+            expect((function () {
+                CurveRegistry.register(CurveAlgorithm.ed25519, customProvider);
+            })).to.throw('Curve 1 is built-in and cannot be overwritten.');
+        });
+
+        it('throw given invalid curve identifier', () => {
+            expect((function () {
+                CurveRegistry.register(-1, customProvider);
+            })).to.throw('Curve identifier must be a non-negative integer.');
+        });
+    });
+
+    describe('unregister() should', () => {
+        it('throw given built-in curve', () => {
+            expect((function () {
+                CurveRegistry.unregister(CurveAlgorithm.secp256k1);
+            })).to.throw('Curve 0 is built-in and cannot be unregistered.');
+        });
+
+        it('remove provider of third-party curve', () => {
+            CurveRegistry.unregister(customCurve);
+
+            expect(CurveRegistry.has(customCurve)).to.be.equal(false);
+            expect((function () {
+                ExtendedKey.createFromSeed(seedHex, customNetwork);
+            })).to.throw('No curve provider registered for curve 100.');
+
+            // re-register for afterEach()
+            CurveRegistry.register(customCurve, customProvider);
+        });
+    });
+
+    describe('findByNode() should', () => {
+        it('find curve of built-in nodes', () => {
+            const ed25519 = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT);
+            const secp256k1 = ExtendedKey.createFromSeed(seedHex, Network.BITCOIN);
+
+            expect(CurveRegistry.findByNode(ed25519.node)).to.be.equal(CurveAlgorithm.ed25519);
+            expect(CurveRegistry.findByNode(secp256k1.node)).to.be.equal(CurveAlgorithm.secp256k1);
+        });
+
+        it('find third-party curves before built-in curves', () => {
+            const node = customProvider.fromSeed(Buffer.from(seedHex, 'hex'), customNetwork, ExtendedKey.DEFAULT_MAC_TYPE);
+
+            expect(CurveRegistry.findByNode(node)).to.be.equal(customCurve);
+        });
+    });
+
+    describe('ExtendedKey should', () => {
+        it('use third-party provider with createFromSeed()', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, customNetwork);
+            const nist = ExtendedKey.createFromSeed(seedHex, Network.NIST256P1);
+
+            expect(xkey.node).to.be.instanceof(NodeCustom);
+            expect(xkey.getPublicKey()).to.be.equal(nist.getPublicKey());
+        });
+
+        it('use third-party provider with derivePath() and getPublicNode()', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, customNetwork);
+            const child = xkey.derivePath('m/0\'/1');
+            const neutered = xkey.derivePath('m/0\'').getPublicNode();
+
+            expect(child.node).to.be.instanceof(NodeCustom);
+            expect(neutered.node).to.be.instanceof(NodeCustom);
+            expect(neutered.isNeutered()).to.be.equal(true);
+            expect(neutered.derivePath('1').getPublicKey()).to.be.equal(child.getPublicKey());
+        });
+
+        it('use third-party provider with createFromBase58()', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, customNetwork).derivePath('m/0\'');
+            const imported = ExtendedKey.createFromBase58(xkey.toBase58(), customNetwork);
+
+            expect(imported.node).to.be.instanceof(NodeCustom);
+            expect(imported.toBase58()).to.be.equal(xkey.toBase58());
+        });
+
+        it('throw given third-party node and different network curve', () => {
+            const node = customProvider.fromSeed(Buffer.from(seedHex, 'hex'), customNetwork, ExtendedKey.DEFAULT_MAC_TYPE);
+
+            expect((function () {
+                new ExtendedKey(node, Network.NIST256P1);
+            })).to.throw('Given node is of type NodeCustom but network curve is not 100.');
+        });
+    });
+});
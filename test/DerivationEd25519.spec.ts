@@ -20,6 +20,7 @@
  */
 import {expect} from "chai";
 import * as bip32 from 'bip32';
+const bs58check = require('bs58check');
 import {
     Account,
     NetworkType,
@@ -30,6 +31,7 @@ import {
     ExtendedKey,
     KeyEncoding,
     Network,
+    NodeEd25519,
 } from "../index";
 
 /**
@@ -213,4 +215,138 @@ describe('BIP32-Ed15519 Extended Keys -->', () => {
         });
     });
 
+    describe('BIP32-Ed25519 child derivation should', () => {
+        const masterKey = ExtendedKey.createFromSeed(extendedKeys[0].seedHex, Network.MAIN_NET);
+
+        it('set depth, index and parent fingerprint of children', () => {
+            const child = masterKey.derivePath('m/0\'');
+            const grandChild = masterKey.derivePath('m/0\'/1\'');
+            const node = grandChild.node as NodeEd25519;
+
+            expect((child.node as NodeEd25519).getDepth()).to.be.equal(1);
+            expect(node.getDepth()).to.be.equal(2);
+            expect(node.getIndex()).to.be.equal(1 + NodeEd25519.HIGHEST_BIT);
+            expect(node.getParentFingerprint()).to.be.equal(child.node.fingerprint.readUInt32BE(0));
+        });
+
+        it('keep network of parent node', () => {
+            const child = masterKey.derivePath('m/44\'/43\'');
+
+            expect(child.network).to.be.equal(Network.MAIN_NET);
+            expect((child.node as NodeEd25519).network).to.be.equal(Network.MAIN_NET);
+        });
+
+        it('not create master keys', () => {
+            const child = masterKey.derivePath('m/0\'');
+
+            expect(masterKey.isMaster()).to.be.equal(true);
+            expect(child.isMaster()).to.be.equal(false);
+            expect(child.getPublicNode().isMaster()).to.be.equal(false);
+        });
+
+        it('serialize child metadata with toBase58()', () => {
+            const child = masterKey.derivePath('m/0\'/1\'');
+            const imported = ExtendedKey.createFromBase58(child.toBase58(), Network.MAIN_NET);
+            const node = imported.node as NodeEd25519;
+            const expected = child.node as NodeEd25519;
+
+            expect(node.getDepth()).to.be.equal(2);
+            expect(node.getIndex()).to.be.equal(expected.getIndex());
+            expect(node.getParentFingerprint()).to.be.equal(expected.getParentFingerprint());
+            expect(imported.toBase58()).to.be.equal(child.toBase58());
+        });
+
+        it('throw given "m" path with child key', () => {
+            expect((function () {
+                masterKey.derivePath('m/0\'').derivePath('m/1\'');
+            })).to.throw('Expected master node with "m" derivation, but got child with parentFingerprint.');
+        });
+    });
+
+    describe('Public key serialization should', () => {
+        const masterKey = ExtendedKey.createFromSeed(extendedKeys[0].seedHex, Network.CATAPULT);
+
+        /**
+         * Replace the key data (33 bytes) of the extended
+         * public key of `masterKey` with `keyData`.
+         */
+        const withKeyData = (keyData: Buffer): string => {
+            const buffer = bs58check.decode(masterKey.getPublicNode().toBase58());
+            keyData.copy(buffer, 45);
+            return bs58check.encode(buffer);
+        };
+
+        it('prepend public keys with 0x00 (SLIP-10)', () => {
+            const buffer = bs58check.decode(masterKey.getPublicNode().toBase58());
+
+            expect(buffer.length).to.be.equal(78);
+            expect(buffer[45]).to.be.equal(0x00);
+            expect(buffer.slice(46).toString('hex')).to.be.equal(extendedKeys[0].catapultPub);
+        });
+
+        it('round trip extended public keys', () => {
+            ['m', 'm/0\'', 'm/0\'/1\'/2\''].map((path) => {
+                const neutered = (path === 'm' ? masterKey : masterKey.derivePath(path)).getPublicNode();
+                const imported = ExtendedKey.createFromBase58(neutered.toBase58());
+
+                expect(imported.node.publicKey.byteLength).to.be.equal(32);
+                expect(imported.getPublicKey()).to.be.equal(neutered.getPublicKey());
+                expect(imported.toBase58()).to.be.equal(neutered.toBase58());
+            });
+        });
+
+        it('migrate legacy extended public keys to SLIP-10 serialization', () => {
+            const legacy = masterKey.getPublicNode().node as NodeEd25519;
+            const buffer = bs58check.decode(legacy.toBase58());
+
+            // before v0.5.0: BITCOIN version bytes and `A || 0x00`
+            buffer.writeUInt32BE(Network.BITCOIN.publicKeyPrefix, 0);
+            legacy.publicKey.copy(buffer, 45);
+            buffer.writeUInt8(0, 77);
+
+            const imported = ExtendedKey.createFromBase58(bs58check.encode(buffer), Network.CATAPULT, undefined, true);
+
+            expect(imported.getPublicKey()).to.be.equal(extendedKeys[0].catapultPub);
+            expect(imported.toBase58()).to.be.equal(legacy.toBase58());
+        });
+
+        it('throw given public key not prepended by 0x00', () => {
+            const keyData = Buffer.concat([Buffer.from('02', 'hex'), Buffer.from(extendedKeys[0].catapultPub, 'hex')]);
+
+            expect((function () {
+                ExtendedKey.createFromBase58(withKeyData(keyData));
+            })).to.throw('Public key must be prepended by 0x00.');
+        });
+
+        it('throw given public key that is not a point', () => {
+            // y = 2 is not the y-coordinate of an ed25519 point
+            const keyData = Buffer.alloc(33);
+            keyData.writeUInt8(2, 1);
+
+            expect((function () {
+                ExtendedKey.createFromBase58(withKeyData(keyData));
+            })).to.throw('Public key must be a valid ed25519 point other than the identity.');
+        });
+
+        it('throw given identity public key', () => {
+            const keyData = Buffer.alloc(33);
+            keyData.writeUInt8(1, 1);
+
+            expect((function () {
+                ExtendedKey.createFromBase58(withKeyData(keyData));
+            })).to.throw('Public key must be a valid ed25519 point other than the identity.');
+        });
+
+        it('throw given public key that does not match private key', () => {
+            const node = masterKey.node as NodeEd25519;
+            const other = masterKey.derivePath('m/0\'').node as NodeEd25519;
+
+            expect(new NodeEd25519(node.privateKey, node.publicKey, node.chainCode).publicKey.toString('hex'))
+                .to.be.equal(extendedKeys[0].catapultPub);
+            expect((function () {
+                new NodeEd25519(node.privateKey, other.publicKey, node.chainCode);
+            })).to.throw('Public key does not match private key.');
+        });
+    });
+
 });
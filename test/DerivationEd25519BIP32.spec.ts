@@ -0,0 +1,234 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    NetworkType,
+} from 'nem2-sdk';
+
+// internal dependencies
+import {
+    CurveAlgorithm,
+    ExtendedKey,
+    MACType,
+    Network,
+    NetworkRegistry,
+    NodeEd25519BIP32,
+    Wallet,
+} from "../index";
+
+/**
+ * BIP32-Ed25519 (Khovratovich-Law) Extended Keys Unit Tests
+ *
+ * The master public key of the BIP32-Ed25519 scheme is equal to the
+ * Catapult master public key of SLIP-10 (first MAC iteration), child
+ * keys are different from SLIP-10 child keys.
+ *
+ * @see https://cardanolaunch.com/assets/Ed25519_BIP.pdf
+ */
+describe('BIP32-Ed25519 public derivation -->', () => {
+
+    const seedHex = '000102030405060708090a0b0c0d0e0f';
+    const masterPub = '398d57dda0faae646097435e648a2c10f0f367b67e9a1e99a3d9170948d85750';
+    const masterPrv = '08c94c6eafa93fc893a7d1234b6c4040b888a0379ffe491790c026b503506248'
+                    + '579b1588ace2714e7513fddc92c8d9f5c92724d93483ce22191351abebb120b5';
+    const chainCode = '90046a93de5380a72b5e45010748567d5ea02bbf6522f979e05c0d8d8ca9fffb';
+
+    const children = [
+        {path: 'm/0\'',
+         key: '31ddffa4e9dffec82aab1916f14288e2a65c41602ba7ea36fb9a821a9c01e710',
+         chain: 'c06ea69cf1f72777c295e46bc351cd2c08b265cec328c816af0537a005120b37'},
+        {path: 'm/0\'/1',
+         key: 'a879ad1cc40d031451c67a69050acc57380f266d493064e416f5734e3ee81d65',
+         chain: '69861827a59c280b4e4b96952892849df3e9befa5a836dae56f20e9869a83691'},
+        {path: 'm/0\'/1/2\'',
+         key: 'a744f50d3c2d55cc29ebd0eb236193b657bd49569df57a98a081329762395996',
+         chain: 'd5ce64c31885171a084548c294a4877002dff858fb68365cce766b9e3e17d037'},
+        {path: 'm/0\'/1/2\'/2',
+         key: '4c5cfb06b3bc48e918229c03bc57f3f054e874efc2842b5a08c6fcfa6d42987d',
+         chain: '492fff9f69220f81c52742096b01be871084b0896dc3343ee148042d97a170d8'},
+    ];
+
+    describe('fromSeed() should', () => {
+        it('use the BIP32-Ed25519 node implementation', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+
+            expect(xkey.node).to.be.instanceof(NodeEd25519BIP32);
+            expect(xkey.network.curve).to.be.equal(CurveAlgorithm.ed25519_bip32);
+        });
+
+        it('create the expected master extended key', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+
+            expect(xkey.getPrivateKey()).to.be.equal(masterPrv);
+            expect(xkey.getPublicKey()).to.be.equal(masterPub);
+            expect(xkey.node.chainCode.toString('hex')).to.be.equal(chainCode);
+        });
+
+        it('keep master public key of SLIP-10 Catapult keys', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+            const slip10 = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT);
+
+            expect(xkey.getPublicKey()).to.be.equal(slip10.getPublicKey());
+        });
+
+        it('keep SLIP-10 Catapult child keys unchanged', () => {
+            const slip10 = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT);
+
+            expect(slip10.derivePath('m/0\'').getPublicKey()).to.be.equal('b133c1d14999199ddefb03e815072f6fb14f1c22b201dab15f3373da8e26b17f');
+            expect((function() {
+                slip10.getPublicNode().derivePath('0');
+            })).to.throw('Missing private key for hardened child key derivation.');
+        });
+    });
+
+    describe('derivePath() should', () => {
+        children.map((child) => {
+            it('derive correct child key for path ' + child.path, () => {
+                const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+                const derived = xkey.derivePath(child.path);
+
+                expect(derived.getPublicKey()).to.be.equal(child.key);
+                expect(derived.node.chainCode.toString('hex')).to.be.equal(child.chain);
+                expect(derived.isMaster()).to.be.equal(false);
+            });
+        });
+
+        it('derive same public keys with neutered parent for non-hardened paths', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+            const account = xkey.derivePath('m/44\'/43\'/0\'');
+            const watchOnly = account.getPublicNode();
+
+            ['0', '1', '0/0', '0/7', '1/2/3'].map((path) => {
+                const prv = account.derivePath(path);
+                const pub = watchOnly.derivePath(path);
+
+                expect(pub.isNeutered()).to.be.equal(true);
+                expect(pub.getPublicKey()).to.be.equal(prv.getPublicKey());
+                expect(pub.toBase58()).to.be.equal(prv.getPublicNode().toBase58());
+            });
+        });
+
+        it('propagate the MAC type to child keys', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32, MACType.KMAC);
+            const derived = xkey.derivePath('m/0\'/1');
+
+            expect(xkey.getPublicKey()).to.be.equal('87665dd336b4c79d5135d37c6e58e93eeae905e675129af1dfbc39f0a8c67890');
+            expect(derived.getPublicKey()).to.be.equal('f324e8343c18d3d64b1ff033ae7d40ec880d52e71bfde2a292365f7be547b08b');
+            expect(derived.getPublicNode().derivePath('3').getPublicKey())
+                .to.be.equal(derived.derivePath('3').getPublicKey());
+        });
+
+        it('set depth, index and parent fingerprint of child keys', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+            const parent = xkey.derivePath('m/0\'');
+            const child = parent.getPublicNode().derivePath('5');
+
+            expect((child.node as NodeEd25519BIP32).getDepth()).to.be.equal(2);
+            expect((child.node as NodeEd25519BIP32).getIndex()).to.be.equal(5);
+            expect((child.node as NodeEd25519BIP32).getParentFingerprint()).to.be.equal(parent.node.fingerprint.readUInt32BE(0));
+        });
+
+        it('throw on hardened derivation with neutered node', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+            const watchOnly = xkey.getPublicNode();
+
+            expect((function() {
+                watchOnly.derivePath('0\'');
+            })).to.throw('Missing private key for hardened child key derivation.');
+        });
+    });
+
+    describe('sign() should', () => {
+        it('create signatures verifiable with neutered child keys', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+            const data = Buffer.from('Catapult watch-only wallet', 'utf8');
+            const signer = xkey.derivePath('m/44\'/43\'/0\'/0/0');
+            const watchOnly = xkey.derivePath('m/44\'/43\'/0\'').getPublicNode().derivePath('0/0');
+
+            const signature = signer.node.sign(data);
+            expect(signature.byteLength).to.be.equal(64);
+            expect(watchOnly.node.verify(data, signature)).to.be.equal(true);
+            expect(watchOnly.node.verify(Buffer.from('Catapult watch-only wallet!', 'utf8'), signature)).to.be.equal(false);
+        });
+    });
+
+    describe('toBase58() should', () => {
+        it('use epub and eprv prefixes', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+
+            expect(xkey.toBase58().substr(0, 4)).to.be.equal('eprv');
+            expect(xkey.getPublicNode().toBase58().substr(0, 4)).to.be.equal('epub');
+        });
+
+        it('round trip extended private and public keys with network detection', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32).derivePath('m/0\'/1');
+            const prv = ExtendedKey.createFromBase58(xkey.toBase58());
+            const pub = ExtendedKey.createFromBase58(xkey.getPublicNode().toBase58());
+
+            expect(prv.network).to.be.equal(Network.CATAPULT_ED25519_BIP32);
+            expect(prv.getPrivateKey()).to.be.equal(xkey.getPrivateKey());
+            expect((prv.node as NodeEd25519BIP32).getDepth()).to.be.equal(2);
+            expect(pub.isNeutered()).to.be.equal(true);
+            expect(pub.getPublicKey()).to.be.equal(xkey.getPublicKey());
+            expect(pub.toBase58()).to.be.equal(xkey.getPublicNode().toBase58());
+        });
+
+        it('not be imported as SLIP-10 Catapult keys', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+
+            expect((function() {
+                ExtendedKey.createFromBase58(xkey.getPublicNode().toBase58(), Network.CATAPULT);
+            })).to.throw('Payload Version must be one of');
+        });
+    });
+
+    describe('NetworkRegistry should', () => {
+        it('register the BIP32-Ed25519 network as built-in', () => {
+            expect(NetworkRegistry.isBuiltIn('CATAPULT_ED25519_BIP32')).to.be.equal(true);
+            expect(NetworkRegistry.findByVersion(Network.CATAPULT_ED25519_BIP32.publicKeyPrefix)).to.be.equal(Network.CATAPULT_ED25519_BIP32);
+            expect(NetworkRegistry.findByNetworkType(NetworkType.MIJIN_TEST)).to.be.equal(Network.CATAPULT);
+        });
+    });
+
+    describe('Wallet should', () => {
+        it('derive child public accounts with read-only wallets', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32).derivePath('m/44\'/43\'/0\'');
+            const wallet = new Wallet(xkey);
+            const readOnly = new Wallet(xkey.getPublicNode());
+
+            expect(readOnly.isReadOnly()).to.be.equal(true);
+            expect(readOnly.getChildPublicAccount('0/0').address.plain())
+                .to.be.equal(wallet.getChildPublicAccount('0/0').address.plain());
+        });
+
+        it('throw when creating accounts', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT_ED25519_BIP32);
+            const wallet = new Wallet(xkey);
+
+            expect((function() {
+                wallet.getAccount();
+            })).to.throw('BIP32-Ed25519 extended keys cannot create accounts, please use public accounts.');
+            expect((function() {
+                wallet.getChildAccount('m/0\'');
+            })).to.throw('BIP32-Ed25519 extended keys cannot create accounts, please use public accounts.');
+        });
+    });
+});
@@ -31,6 +31,7 @@ import {
     KeyEncoding,
     MACType,
     Network,
+    NodeEd25519,
 } from "../index";
 
 /**
@@ -74,20 +75,20 @@ describe('BIP32-Ed15519 KMAC derivation -->', () => {
         neutered: [
             {path: 'm/0\'',
              // Ed25519-compliant SHA3-256 instead of SHA512!! (different from SLIP-10)
-             key: '6d282315ad30a08184f01ec1fa3453f814155b151c09c31de4853ec69d47df40',
-             chain: '1d615993bde463a451d6553f4deac7488a54062a0aebe09ecc35c3d01d47d08a'},
+             key: 'c6e2ea066955bfccc4a5f8affa667ff1e299195bbf6076770bc0f4a64983c051',
+             chain: '0471a4f25dab87834c89951d785461534e022a01318b139e93b3b75e84c5592a'},
             {path: 'm/0\'/1\'',
              // Ed25519-compliant SHA3-256 instead of SHA512!! (different from SLIP-10)
-             key: '888b147936663c7eca406450f69951f190c7c4ca19dede9f5a8493843119c3ab',
-             chain: 'a408fef3c6fd2aac83bbdd6b48eb865dc844793be117a90b86be215d2c163127'}
+             key: 'ffa386de0e409f64950686eb55243aa6f61f10a59aa2f3dcfd1ee0ebab6b68f4',
+             chain: 'a1853a7a05fd2e04bcf1e97ae6af61f0ff2f185854b48b484895aae2359e8675'}
         ],
         nonNeutered: [
             {path: 'm/0\'', 
-             key: 'fc58d8f1989084e76ea3c51acf7f5417f101b0c9b0f91afdb823c3fd2adda695',
-             chain: '1d615993bde463a451d6553f4deac7488a54062a0aebe09ecc35c3d01d47d08a'},
+             key: '09f2093a6bfac9361bbb3fb19f1aca434b19332d8e39255ca3c2e459df006bed',
+             chain: '0471a4f25dab87834c89951d785461534e022a01318b139e93b3b75e84c5592a'},
             {path: 'm/0\'/1\'',
-             key: 'b7eb9fdc76844c3950b8fde3094676193a33aa77aeb4a04cf204af7dd6dc120b',
-             chain: 'a408fef3c6fd2aac83bbdd6b48eb865dc844793be117a90b86be215d2c163127'}
+             key: '27f27154e7e8377c5583ebd5f31267126b685b751383488952355e113db06817',
+             chain: 'a1853a7a05fd2e04bcf1e97ae6af61f0ff2f185854b48b484895aae2359e8675'}
         ]
     };
 
@@ -186,6 +187,23 @@ describe('BIP32-Ed15519 KMAC derivation -->', () => {
                 expect(childDerived.getPrivateKey()).to.be.equal(nonNeuteredKey.key);
             });
         });
+
+        it('use KMAC for child key derivation below the master key', () => {
+            const childDerived = KMAC_masterKey.derivePath('m/0\'');
+            const grandChild = childDerived.derivePath('1\'');
+
+            expect(childDerived.macType).to.be.equal(MACType.KMAC);
+            expect((childDerived.node as NodeEd25519).macType).to.be.equal(MACType.KMAC);
+            expect(grandChild.getPrivateKey()).to.be.equal(KMAC.nonNeutered[1].key);
+            expect(grandChild.node.chainCode.toString('hex')).to.be.equal(KMAC.nonNeutered[1].chain);
+        });
+
+        it('keep KMAC for child key derivation after base58 import', () => {
+            const childDerived = KMAC_masterKey.derivePath('m/0\'');
+            const imported = ExtendedKey.createFromBase58(childDerived.toBase58(), Network.CATAPULT, MACType.KMAC);
+
+            expect(imported.derivePath('1\'').getPrivateKey()).to.be.equal(KMAC.nonNeutered[1].key);
+        });
 /// end-region KMAC key derivation
 
     });
@@ -0,0 +1,271 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+const bs58check = require('bs58check');
+const createHash = require('create-hash');
+
+// internal dependencies
+import {
+    CurveAlgorithm,
+    ExtendedKey,
+    Network,
+    NodeNist256p1,
+} from "../index";
+
+/**
+ * SLIP-10 nist256p1 Extended Keys Unit Tests
+ *
+ * @see Test vector 1: https://github.com/satoshilabs/slips/blob/master/slip-0010.md#test-vector-1-for-nist256p1
+ * @see Test vector 2: https://github.com/satoshilabs/slips/blob/master/slip-0010.md#test-vector-2-for-nist256p1
+ * @see Derivation retry: https://github.com/satoshilabs/slips/blob/master/slip-0010.md#test-derivation-retry-for-nist256p1
+ * @see Seed retry: https://github.com/satoshilabs/slips/blob/master/slip-0010.md#test-seed-retry-for-nist256p1
+ */
+describe('SLIP-10 nist256p1 Extended Keys -->', () => {
+
+    const vectors = [
+    {
+        label: 'Vector #1',
+        seedHex: '000102030405060708090a0b0c0d0e0f',
+        children: [
+            {path: 'm',
+             fingerprint: 0x00000000,
+             chain: 'beeb672fe4621673f722f38529c07392fecaa61015c80c34f29ce8b41b3cb6ea',
+             prv: '612091aaa12e22dd2abef664f8a01a82cae99ad7441b7ef8110424915c268bc2',
+             pub: '0266874dc6ade47b3ecd096745ca09bcd29638dd52c2c12117b11ed3e458cfa9e8'},
+            {path: 'm/0\'',
+             fingerprint: 0xbe6105b5,
+             chain: '3460cea53e6a6bb5fb391eeef3237ffd8724bf0a40e94943c98b83825342ee11',
+             prv: '6939694369114c67917a182c59ddb8cafc3004e63ca5d3b84403ba8613debc0c',
+             pub: '0384610f5ecffe8fda089363a41f56a5c7ffc1d81b59a612d0d649b2d22355590c'},
+            {path: 'm/0\'/1',
+             fingerprint: 0x9b02312f,
+             chain: '4187afff1aafa8445010097fb99d23aee9f599450c7bd140b6826ac22ba21d0c',
+             prv: '284e9d38d07d21e4e281b645089a94f4cf5a5a81369acf151a1c3a57f18b2129',
+             pub: '03526c63f8d0b4bbbf9c80df553fe66742df4676b241dabefdef67733e070f6844'},
+            {path: 'm/0\'/1/2\'',
+             fingerprint: 0xb98005c1,
+             chain: '98c7514f562e64e74170cc3cf304ee1ce54d6b6da4f880f313e8204c2a185318',
+             prv: '694596e8a54f252c960eb771a3c41e7e32496d03b954aeb90f61635b8e092aa7',
+             pub: '0359cf160040778a4b14c5f4d7b76e327ccc8c4a6086dd9451b7482b5a4972dda0'},
+            {path: 'm/0\'/1/2\'/2',
+             fingerprint: 0x0e9f3274,
+             chain: 'ba96f776a5c3907d7fd48bde5620ee374d4acfd540378476019eab70790c63a0',
+             prv: '5996c37fd3dd2679039b23ed6f70b506c6b56b3cb5e424681fb0fa64caf82aaa',
+             pub: '029f871f4cb9e1c97f9f4de9ccd0d4a2f2a171110c61178f84430062230833ff20'},
+            {path: 'm/0\'/1/2\'/2/1000000000',
+             fingerprint: 0x8b2b5c4b,
+             chain: 'b9b7b82d326bb9cb5b5b121066feea4eb93d5241103c9e7a18aad40f1dde8059',
+             prv: '21c4f269ef0a5fd1badf47eeacebeeaa3de22eb8e5b0adcd0f27dd99d34d0119',
+             pub: '02216cd26d31147f72427a453c443ed2cde8a1e53c9cc44e5ddf739725413fe3f4'},
+        ],
+    },
+    {
+        label: 'Vector #2',
+        seedHex: 'fffcf9f6f3f0edeae7e4e1dedbd8d5d2cfccc9c6c3c0bdbab7b4b1aeaba8a5a29f9c999693908d8a8784817e7b7875726f6c696663605d5a5754514e4b484542',
+        children: [
+            {path: 'm',
+             fingerprint: 0x00000000,
+             chain: '96cd4465a9644e31528eda3592aa35eb39a9527769ce1855beafc1b81055e75d',
+             prv: 'eaa31c2e46ca2962227cf21d73a7ef0ce8b31c756897521eb6c7b39796633357',
+             pub: '02c9e16154474b3ed5b38218bb0463e008f89ee03e62d22fdcc8014beab25b48fa'},
+            {path: 'm/0',
+             fingerprint: 0x607f628f,
+             chain: '84e9c258bb8557a40e0d041115b376dd55eda99c0042ce29e81ebe4efed9b86a',
+             prv: 'd7d065f63a62624888500cdb4f88b6d59c2927fee9e6d0cdff9cad555884df6e',
+             pub: '039b6df4bece7b6c81e2adfeea4bcf5c8c8a6e40ea7ffa3cf6e8494c61a1fc82cc'},
+            {path: 'm/0/2147483647\'',
+             fingerprint: 0x946d2a54,
+             chain: 'f235b2bc5c04606ca9c30027a84f353acf4e4683edbd11f635d0dcc1cd106ea6',
+             prv: '96d2ec9316746a75e7793684ed01e3d51194d81a42a3276858a5b7376d4b94b9',
+             pub: '02f89c5deb1cae4fedc9905f98ae6cbf6cbab120d8cb85d5bd9a91a72f4c068c76'},
+            {path: 'm/0/2147483647\'/1',
+             fingerprint: 0x218182d8,
+             chain: '7c0b833106235e452eba79d2bdd58d4086e663bc8cc55e9773d2b5eeda313f3b',
+             prv: '974f9096ea6873a915910e82b29d7c338542ccde39d2064d1cc228f371542bbc',
+             pub: '03abe0ad54c97c1d654c1852dfdc32d6d3e487e75fa16f0fd6304b9ceae4220c64'},
+            {path: 'm/0/2147483647\'/1/2147483646\'',
+             fingerprint: 0x931223e4,
+             chain: '5794e616eadaf33413aa309318a26ee0fd5163b70466de7a4512fd4b1a5c9e6a',
+             prv: 'da29649bbfaff095cd43819eda9a7be74236539a29094cd8336b07ed8d4eff63',
+             pub: '03cb8cb067d248691808cd6b5a5a06b48e34ebac4d965cba33e6dc46fe13d9b933'},
+            {path: 'm/0/2147483647\'/1/2147483646\'/2',
+             fingerprint: 0x956c4629,
+             chain: '3bfb29ee8ac4484f09db09c2079b520ea5616df7820f071a20320366fbe226a7',
+             prv: 'bb0a77ba01cc31d77205d51d08bd313b979a71ef4de9b062f8958297e746bd67',
+             pub: '020ee02e18967237cf62672983b253ee62fa4dd431f8243bfeccdf39dbe181387f'},
+        ],
+    },
+    {
+        label: 'Derivation retry',
+        seedHex: '000102030405060708090a0b0c0d0e0f',
+        children: [
+            {path: 'm/28578\'',
+             fingerprint: 0xbe6105b5,
+             chain: 'e94c8ebe30c2250a14713212f6449b20f3329105ea15b652ca5bdfc68f6c65c2',
+             prv: '06f0db126f023755d0b8d86d4591718a5210dd8d024e3e14b6159d63f53aa669',
+             pub: '02519b5554a4872e8c9c1c847115363051ec43e93400e030ba3c36b52a3e70a5b7'},
+            {path: 'm/28578\'/33941',
+             fingerprint: 0x3e2b7bc6,
+             chain: '9e87fe95031f14736774cd82f25fd885065cb7c358c1edf813c72af535e83071',
+             prv: '092154eed4af83e078ff9b84322015aefe5769e31270f62c3f66c33888335f3a',
+             pub: '0235bfee614c0d5b2cae260000bb1d0d84b270099ad790022c1ae0b2e782efe120'},
+        ],
+    },
+    {
+        label: 'Seed retry',
+        seedHex: 'a7305bc8df8d0951f0cb224c0e95d7707cbdf2c6ce7e8d481fec69c7ff5e9446',
+        children: [
+            {path: 'm',
+             fingerprint: 0x00000000,
+             chain: '7762f9729fed06121fd13f326884c82f59aa95c57ac492ce8c9654e60efd130c',
+             prv: '3b8c18469a4634517d6d0b65448f8e6c62091b45540a1743c5846be55d47d88f',
+             pub: '0383619fadcde31063d8c5cb00dbfe1713f3e6fa169d8541a798752a1c1ca0cb20'},
+        ],
+    },
+    ];
+
+    describe('createFromSeed() should', () => {
+        it('use the nist256p1 node implementation', () => {
+            const xkey = ExtendedKey.createFromSeed(vectors[0].seedHex, Network.NIST256P1);
+
+            expect(xkey.node).to.be.instanceof(NodeNist256p1);
+            expect(xkey.network.curve).to.be.equal(CurveAlgorithm.nist256p1);
+        });
+
+        vectors.map((vector) => {
+            vector.children.map((child) => {
+                it(vector.label + ': derive correct keys for path ' + child.path, () => {
+                    const master = ExtendedKey.createFromSeed(vector.seedHex, Network.NIST256P1);
+                    const xkey = child.path === 'm' ? master : master.derivePath(child.path);
+                    const node = xkey.node as NodeNist256p1;
+
+                    expect(node.getParentFingerprint()).to.be.equal(child.fingerprint);
+                    expect(node.chainCode.toString('hex')).to.be.equal(child.chain);
+                    expect(xkey.getPrivateKey()).to.be.equal(child.prv);
+                    expect(node.publicKey.toString('hex')).to.be.equal(child.pub);
+                });
+            });
+        });
+    });
+
+    describe('getPublicNode() should', () => {
+        it('derive same public keys with neutered parent for non-hardened paths', () => {
+            const xkey = ExtendedKey.createFromSeed(vectors[1].seedHex, Network.NIST256P1);
+            const expected = vectors[1].children[1];
+            const child = xkey.getPublicNode().derivePath('m/0');
+
+            expect(child.isNeutered()).to.be.equal(true);
+            expect(child.node.publicKey.toString('hex')).to.be.equal(expected.pub);
+            expect(child.node.chainCode.toString('hex')).to.be.equal(expected.chain);
+        });
+
+        it('derive same public keys with neutered parent after derivation retry', () => {
+            const xkey = ExtendedKey.createFromSeed(vectors[2].seedHex, Network.NIST256P1);
+            const child = xkey.derivePath('m/28578\'').getPublicNode().derivePath('33941');
+
+            expect(child.node.publicKey.toString('hex')).to.be.equal(vectors[2].children[1].pub);
+        });
+
+        it('throw on hardened derivation with neutered node', () => {
+            const xkey = ExtendedKey.createFromSeed(vectors[0].seedHex, Network.NIST256P1);
+
+            expect((function() {
+                xkey.getPublicNode().derivePath('0\'');
+            })).to.throw('Missing private key for hardened child key derivation.');
+        });
+    });
+
+    describe('createFromBase58() should', () => {
+        it('round trip extended private and public keys', () => {
+            const xkey = ExtendedKey.createFromSeed(vectors[0].seedHex, Network.NIST256P1).derivePath('m/0\'/1');
+            const prv = ExtendedKey.createFromBase58(xkey.toBase58(), Network.NIST256P1);
+            const pub = ExtendedKey.createFromBase58(xkey.getPublicNode().toBase58(), Network.NIST256P1);
+
+            expect(xkey.toBase58().substr(0, 4)).to.be.equal('nprv');
+            expect(xkey.getPublicNode().toBase58().substr(0, 4)).to.be.equal('npub');
+            expect(prv.node).to.be.instanceof(NodeNist256p1);
+            expect(prv.toBase58()).to.be.equal(xkey.toBase58());
+            expect(pub.isNeutered()).to.be.equal(true);
+            expect(pub.toBase58()).to.be.equal(xkey.getPublicNode().toBase58());
+            expect(pub.derivePath('2').getPublicKey()).to.be.equal(xkey.derivePath('2').getPublicKey());
+        });
+
+        it('detect network given no network', () => {
+            const xkey = ExtendedKey.createFromSeed(vectors[0].seedHex, Network.NIST256P1).derivePath('m/0\'/1');
+            const prv = ExtendedKey.createFromBase58(xkey.toBase58());
+            const pub = ExtendedKey.createFromBase58(xkey.getPublicNode().toBase58());
+
+            expect(prv.network).to.be.equal(Network.NIST256P1);
+            expect(prv.node).to.be.instanceof(NodeNist256p1);
+            expect(prv.getPrivateKey()).to.be.equal(xkey.getPrivateKey());
+            expect(pub.network).to.be.equal(Network.NIST256P1);
+            expect(pub.node).to.be.instanceof(NodeNist256p1);
+            expect(pub.getPublicKey()).to.be.equal(xkey.getPublicKey());
+        });
+
+        it('throw given public key that is not a curve point', () => {
+            const xpub = ExtendedKey.createFromSeed(vectors[0].seedHex, Network.NIST256P1).getPublicNode().toBase58();
+            const buffer = bs58check.decode(xpub);
+
+            // x = 1 is not the x-coordinate of a nist256p1 point
+            buffer.fill(0, 46, 78);
+            buffer.writeUInt8(1, 77);
+
+            expect((function() {
+                NodeNist256p1.fromBase58(bs58check.encode(buffer));
+            })).to.throw('Public key must be a point of the nist256p1 curve.');
+        });
+
+        it('throw given private key not smaller than the curve order', () => {
+            const xprv = ExtendedKey.createFromSeed(vectors[0].seedHex, Network.NIST256P1).toBase58();
+            const buffer = bs58check.decode(xprv);
+            buffer.fill(0xff, 46, 78);
+
+            expect((function() {
+                NodeNist256p1.fromBase58(bs58check.encode(buffer));
+            })).to.throw('Private key must be in range [1, n - 1].');
+        });
+    });
+
+    describe('sign() should', () => {
+        it('create signatures verifiable with neutered child keys', () => {
+            const xkey = ExtendedKey.createFromSeed(vectors[0].seedHex, Network.NIST256P1).derivePath('m/0\'/1');
+            const hash = createHash('sha256').update('nist256p1').digest();
+            const signature = xkey.node.sign(hash);
+            const neutered = xkey.getPublicNode().node;
+
+            expect(signature.byteLength).to.be.equal(64);
+            expect(signature.equals(xkey.node.sign(hash))).to.be.equal(true);
+            expect(neutered.verify(hash, signature)).to.be.equal(true);
+            expect(neutered.verify(Buffer.alloc(32, 1), signature)).to.be.equal(false);
+        });
+    });
+
+    describe('constructor() should', () => {
+        it('throw error with inconsistent NodeNist256p1 node given network Network.BITCOIN', () => {
+            const node = NodeNist256p1.fromSeed(Buffer.from(vectors[0].seedHex, 'hex'));
+
+            expect((function() {
+                new ExtendedKey(node, Network.BITCOIN);
+            })).to.throw('Given node is of type NodeNist256p1 but network curve is not nist256p1.');
+        });
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    EntropyMixer,
+    EntropySource,
+    MnemonicPassPhrase,
+} from "../index";
+
+describe('EntropyMixer -->', () => {
+
+    const constant = (name: string, byte: number): EntropySource => ({name, read: (size: number) => Buffer.alloc(size, byte)});
+    const broken: EntropySource = {name: 'broken', read: () => { throw new Error('Device not found.'); }};
+
+    describe('constructor() should', () => {
+        it('use nem2-sdk and Node.js random number generators by default', () => {
+            const mixer = new EntropyMixer();
+            expect(mixer.getSources()).to.be.deep.equal(['nem2-sdk', 'node-crypto']);
+            expect(mixer.minSources).to.be.equal(2);
+        });
+
+        it('throw given duplicate source names', () => {
+            expect((function () {
+                new EntropyMixer([constant('a', 1), constant('a', 2)]);
+            })).to.throw('Entropy source "a" already exists.');
+        });
+    });
+
+    describe('read() should', () => {
+        it('extract with HKDF-HMAC-SHA512 given deterministic sources', () => {
+            const mixer = new EntropyMixer([constant('a', 1), constant('b', 2)]);
+            expect(mixer.read(32).toString('hex')).to.be.equal('b490d03a4be5287a30c44cc82b1761b47db88a18b8f72490c416b5e21523d620');
+            expect(mixer.read(100).length).to.be.equal(100);
+        });
+
+        it('produce different bytes given one good source and compromised sources', () => {
+            const mixer = new EntropyMixer([constant('zero', 0), constant('ones', 255)]);
+            mixer.addSource(EntropyMixer.NODE_SOURCE);
+
+            expect(mixer.read(32).toString('hex')).to.not.be.equal(mixer.read(32).toString('hex'));
+        });
+
+        it('bind each source, its name and the size to the result', () => {
+            const reference = new EntropyMixer([constant('a', 1), constant('b', 2)]).read(32).toString('hex');
+
+            expect(new EntropyMixer([constant('a', 1), constant('b', 3)]).read(32).toString('hex')).to.not.be.equal(reference);
+            expect(new EntropyMixer([constant('a', 1), constant('c', 2)]).read(32).toString('hex')).to.not.be.equal(reference);
+            expect(new EntropyMixer([constant('a', 1), constant('b', 2)]).read(33).slice(0, 32).toString('hex')).to.not.be.equal(reference);
+        });
+
+        it('record contributing sources without the random bytes', () => {
+            const mixer = new EntropyMixer([constant('a', 1), broken], 1);
+            mixer.addEntropy('dice', '3615242');
+            mixer.read(16);
+
+            const records = mixer.getRecords();
+            expect(records.length).to.be.equal(1);
+            expect(records[0].extractor).to.be.equal('hkdf-hmac-sha512');
+            expect(records[0].size).to.be.equal(16);
+            expect(records[0].sources.map((source) => source.name)).to.be.deep.equal(['a', 'broken', 'dice']);
+            expect(records[0].sources.map((source) => source.bytes)).to.be.deep.equal([16, 0, 7]);
+            expect(records[0].sources[0].error).to.be.null;
+            expect(records[0].sources[1].error).to.be.equal('Device not found.');
+            expect(Object.keys(records[0].sources[2])).to.be.deep.equal(['name', 'bytes', 'error']);
+            expect(JSON.stringify(records)).to.not.contain('3615242');
+        });
+
+        it('throw given less than minimum number of contributing sources', () => {
+            const mixer = new EntropyMixer([constant('a', 1), broken]);
+            expect((function () {
+                mixer.read(32);
+            })).to.throw('Not enough entropy sources: 1 of 2 required.');
+            expect(mixer.getRecords().length).to.be.equal(1);
+        });
+
+        it('throw given invalid size', () => {
+            expect((function () {
+                new EntropyMixer().read(0);
+            })).to.throw('Invalid size of entropy: 0.');
+        });
+    });
+
+    describe('addEntropy() should', () => {
+        it('throw given empty entropy', () => {
+            expect((function () {
+                new EntropyMixer().addEntropy('dice', '');
+            })).to.throw('User supplied entropy must not be empty.');
+        });
+    });
+
+    describe('MnemonicPassPhrase.createRandom() should', () => {
+        it('create random mnemonic with mixed entropy sources', () => {
+            const mixer = new EntropyMixer().addEntropy('keyboard', 'correct horse battery staple');
+            const mnemonic = MnemonicPassPhrase.createRandom('english', 128, mixer.toRng());
+
+            expect(mnemonic.isValid()).to.be.equal(true);
+            expect(mnemonic.toArray().length).to.be.equal(12);
+            expect(mixer.getRecords()[0].sources.length).to.be.equal(3);
+        });
+    });
+});
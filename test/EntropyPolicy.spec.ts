@@ -0,0 +1,139 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    EntropyPolicy,
+    MnemonicPassPhrase,
+} from "../index";
+
+describe('EntropyPolicy -->', () => {
+
+    const healthy = '8fd128918b2e29d6dcbfa5b9a118e5c16d60498c7ba107922a8eb6eb1d36c112';
+
+    describe('check() should', () => {
+        it('flag all-zero entropy', () => {
+            const policy = new EntropyPolicy();
+            const tests = policy.check('00'.repeat(16)).map((warning) => warning.test);
+
+            expect(tests).to.include('blocklist');
+            expect(tests).to.include('repetition');
+            expect(tests).to.include('monobit');
+        });
+
+        it('flag patterned entropy', () => {
+            const policy = new EntropyPolicy();
+            const tests = policy.check(Buffer.alloc(32, 0x55)).map((warning) => warning.test);
+
+            expect(tests).to.not.include('blocklist');
+            expect(tests).to.not.include('monobit');
+            expect(tests).to.include('repetition');
+            expect(tests).to.include('runs');
+        });
+
+        it('flag BIP39 reference test vectors', () => {
+            const policy = new EntropyPolicy();
+            const warnings = policy.check('9e885d952ad362caeb4efe34a8e91bd2');
+
+            expect(warnings.length).to.be.equal(1);
+            expect(warnings[0].test).to.be.equal('blocklist');
+        });
+
+        it('return no warnings for healthy entropy', () => {
+            const policy = new EntropyPolicy();
+            expect(policy.check(healthy)).to.be.deep.equal([]);
+            expect(policy.check(MnemonicPassPhrase.CATAPULT_RNG(32))).to.be.deep.equal([]);
+        });
+
+        it('only run enabled tests', () => {
+            const policy = new EntropyPolicy({tests: ['monobit']});
+            const tests = policy.check('00'.repeat(16)).map((warning) => warning.test);
+
+            expect(tests).to.be.deep.equal(['monobit']);
+        });
+
+        it('use custom blocklist', () => {
+            const policy = new EntropyPolicy({blocklist: [healthy.toUpperCase()]});
+            expect(policy.check(healthy)[0].test).to.be.equal('blocklist');
+        });
+    });
+
+    describe('enforce() should', () => {
+        it('return warnings in non-strict mode', () => {
+            const policy = new EntropyPolicy();
+            expect(policy.enforce('00'.repeat(16)).length).to.be.greaterThan(0);
+        });
+
+        it('throw on failed checks in strict mode', () => {
+            expect((function () {
+                const policy = new EntropyPolicy({strict: true});
+                policy.enforce('00'.repeat(16));
+            })).to.throw('Entropy failed health checks');
+        });
+
+        it('not throw for healthy entropy in strict mode', () => {
+            const policy = new EntropyPolicy({strict: true});
+            expect(policy.enforce(healthy)).to.be.deep.equal([]);
+        });
+    });
+
+    describe('MnemonicPassPhrase should', () => {
+        it('attach warnings in createFromEntropy()', () => {
+            const words = MnemonicPassPhrase.createFromEntropy('00'.repeat(16));
+            expect(words.plain).to.be.equal('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+            expect(words.entropyWarnings.length).to.be.greaterThan(0);
+
+            const healthyWords = MnemonicPassPhrase.createFromEntropy(healthy);
+            expect(healthyWords.entropyWarnings).to.be.deep.equal([]);
+        });
+
+        it('throw in createFromEntropy() given strict policy', () => {
+            expect((function () {
+                MnemonicPassPhrase.createFromEntropy('00'.repeat(16), 'english', new EntropyPolicy({strict: true}));
+            })).to.throw('Entropy failed health checks');
+        });
+
+        it('throw in createRandom() given strict policy and broken rng', () => {
+            expect((function () {
+                const zeroRng = (size: number) => Buffer.alloc(size);
+                MnemonicPassPhrase.createRandom('english', 128, zeroRng, new EntropyPolicy({strict: true}));
+            })).to.throw('Entropy failed health checks');
+        });
+
+        it('use frozen DEFAULT_ENTROPY_POLICY by default', () => {
+            const policy = MnemonicPassPhrase.DEFAULT_ENTROPY_POLICY;
+            const mnemonic = MnemonicPassPhrase.createFromEntropy('ff'.repeat(32));
+
+            expect(policy.strict).to.be.equal(false);
+            expect(mnemonic.entropyWarnings.map((warning) => warning.test)).to.include('blocklist');
+            expect(Object.isFrozen(policy)).to.be.equal(true);
+            expect(Object.isFrozen(policy.tests)).to.be.equal(true);
+            expect(Object.isFrozen(policy.blocklist)).to.be.equal(true);
+        });
+
+        it('check imported mnemonics with checkEntropy()', () => {
+            const imported = new MnemonicPassPhrase('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+            const tests = imported.checkEntropy().map((warning) => warning.test);
+
+            expect(tests).to.include('blocklist');
+            expect(MnemonicPassPhrase.createFromEntropy(healthy).checkEntropy()).to.be.deep.equal([]);
+        });
+    });
+});
@@ -27,6 +27,8 @@ import {
     CurveAlgorithm,
     ExtendedKey,
     KeyEncoding,
+    MACType,
+    MnemonicPassPhrase,
     Network,
     NodeInterface,
     NodeEd25519,
@@ -47,6 +49,12 @@ describe('ExtendedKey -->', () => {
             {path: 'm/0\'', key: 'xprv9uHRZZhk6KAJC1avXpDAp4MDc3sQKNxDiPvvkX8Br5ngLNv1TxvUxt4cV1rGL5hj6KCesnDYUhd7oWgT11eZG7XnxHrnYeSvkzY7d2bhkJ7'},
             {path: 'm/0\'/1', key: 'xprv9wTYmMFdV23N2TdNG573QoEsfRrWKQgWeibmLntzniatZvR9BmLnvSxqu53Kw1UmYPxLgboyZQaXwTCg8MSY3H2EU4pWcQDnRnrVA1xe8fs'},
         ],
+        // CATAPULT master public key of `seedHex` exported before v0.5.0 (`A || 0x00`)
+        legacyNeutered: {
+            path: 'm',
+            key: 'xpub661MyMwAqRbcFybaNRzmKwjLEeQdU4ciWTZ1zPxvvN683xNT57Gr2k7YdYi1qxfU38PRREVj4GvxXFVDzM1vHxa3TUQPWmAxpBh4hvoXXmC',
+            publicKey: '398d57dda0faae646097435e648a2c10f0f367b67e9a1e99a3d9170948d85750',
+        },
     };
 
     describe('constructor should', () => {
@@ -74,7 +82,7 @@ describe('ExtendedKey -->', () => {
         });
 
         it('should create NodeEd25519 node object given Network.CATAPULT', () => {
-            const node = NodeEd25519.fromBase58(extendedKeys.neutered[0].key);
+            const node = NodeEd25519.fromBase58(extendedKeys.legacyNeutered.key, Network.CATAPULT, true);
             const neuteredMaster = new ExtendedKey(node, Network.CATAPULT);
             const nodeEd25519 = neuteredMaster.node as NodeEd25519;
 
@@ -87,14 +95,21 @@ describe('ExtendedKey -->', () => {
             expect((function () {
                 const node = bip32.fromBase58(extendedKeys.neutered[1].key);
                 const neuteredMaster = new ExtendedKey(node, Network.CATAPULT);
-            })).to.throw('Given node is of type BIP32 but network does not match Network.BITCOIN.');
+            })).to.throw('Given node is of type BIP32 but network curve is not secp256k1.');
         });
 
         it('should throw error with inconsistent NodeEd25519 node given network Network.BITCOIN', () => {
             expect((function () {
-                const node = NodeEd25519.fromBase58(extendedKeys.neutered[1].key);
+                const node = NodeEd25519.fromBase58(extendedKeys.neutered[1].key, Network.CATAPULT, true);
                 const neuteredMaster = new ExtendedKey(node, Network.BITCOIN);
-            })).to.throw('Given node is of type NodeEd25519 but network does not match Network.CATAPULT.');
+            })).to.throw('Given node is of type NodeEd25519 but network curve is not ed25519.');
+        });
+
+        it('should throw error with NodeEd25519 node of different MAC type', () => {
+            expect((function () {
+                const node = NodeEd25519.fromSeed(Buffer.from(extendedKeys.seedHex, 'hex'), Network.CATAPULT, MACType.KMAC);
+                const master = new ExtendedKey(node, Network.CATAPULT, MACType.HMAC);
+            })).to.throw('Given node is of type NodeEd25519 but uses a different MAC type.');
         });
 
         it('create master key with payload for "m" path', () => {
@@ -141,8 +156,8 @@ describe('ExtendedKey -->', () => {
             expect(neuteredNode.network.curve).to.be.equal(CurveAlgorithm.secp256k1);
         });
 
-        it('use network given network Network.CATAPULT', () => {
-            const neuteredNode = ExtendedKey.createFromBase58(extendedKeys.neutered[0].key, Network.CATAPULT);
+        it('use network given network Network.CATAPULT and legacy payload', () => {
+            const neuteredNode = ExtendedKey.createFromBase58(extendedKeys.legacyNeutered.key, Network.CATAPULT, MACType.HMAC, true);
 
             // check that Network.CATAPULT was used correctly
             expect(neuteredNode.network.privateKeyPrefix).to.be.equal(Network.CATAPULT.privateKeyPrefix);
@@ -153,6 +168,45 @@ describe('ExtendedKey -->', () => {
             expect(neuteredNode.node).to.be.instanceof(NodeEd25519);
         });
 
+        it('detect network Network.CATAPULT given cprv and cpub payloads', () => {
+            const master = ExtendedKey.createFromSeed(extendedKeys.seedHex, Network.CATAPULT);
+            const privateNode = ExtendedKey.createFromBase58(master.toBase58());
+            const publicNode = ExtendedKey.createFromBase58(master.getPublicNode().toBase58());
+
+            expect(master.toBase58().substr(0, 4)).to.be.equal('cprv');
+            expect(master.getPublicNode().toBase58().substr(0, 4)).to.be.equal('cpub');
+            expect(privateNode.network).to.be.equal(Network.CATAPULT);
+            expect(privateNode.node).to.be.instanceof(NodeEd25519);
+            expect(privateNode.toBase58()).to.be.equal(master.toBase58());
+            expect(publicNode.network).to.be.equal(Network.CATAPULT);
+            expect(publicNode.isNeutered()).to.be.equal(true);
+        });
+
+        it('detect network Network.BITCOIN given xprv and xpub payloads', () => {
+            const privateNode = ExtendedKey.createFromBase58(extendedKeys.nonNeutered[1].key);
+            const publicNode = ExtendedKey.createFromBase58(extendedKeys.neutered[1].key);
+
+            expect(privateNode.network).to.be.equal(Network.BITCOIN);
+            expect(publicNode.network).to.be.equal(Network.BITCOIN);
+            expect(privateNode.node).to.not.be.instanceof(NodeEd25519);
+        });
+
+        it('throw error given legacy payload and Network.CATAPULT without legacy flag', () => {
+            expect((function () {
+                ExtendedKey.createFromBase58(extendedKeys.nonNeutered[0].key, Network.CATAPULT);
+            })).to.throw('Payload Version must be one of: ' + Network.CATAPULT.privateKeyPrefix
+                       + ' or ' + Network.CATAPULT.publicKeyPrefix + '.');
+        });
+
+        it('export legacy payloads with CATAPULT version bytes', () => {
+            const legacy = ExtendedKey.createFromBase58(extendedKeys.nonNeutered[0].key, Network.CATAPULT, MACType.HMAC, true);
+            const migrated = ExtendedKey.createFromBase58(legacy.toBase58());
+
+            expect(legacy.toBase58().substr(0, 4)).to.be.equal('cprv');
+            expect(migrated.network).to.be.equal(Network.CATAPULT);
+            expect(migrated.getPrivateKey()).to.be.equal(legacy.getPrivateKey());
+        });
+
         it('create neutered from extended public key', () => {
             const neuteredNode = ExtendedKey.createFromBase58(extendedKeys.neutered[0].key);
             expect(neuteredNode.isNeutered()).to.be.equal(true);
@@ -164,6 +218,17 @@ describe('ExtendedKey -->', () => {
         });
     });
 
+    describe('detectNetwork() should', () => {
+        it('throw error given unknown version bytes', () => {
+            const unknown = {wif: 0x80, bip32: {public: 0x01020304, private: 0x01020305}};
+            const payload = bip32.fromSeed(Buffer.from(extendedKeys.seedHex, 'hex'), unknown).toBase58();
+
+            expect((function () {
+                ExtendedKey.detectNetwork(payload);
+            })).to.throw('Unknown extended key version bytes: 0x01020305.');
+        });
+    });
+
     describe('createFromSeed should', () => {
         it('create master key with hexadecimal seed notation', () => {
             const masterFromSeed = ExtendedKey.createFromSeed(extendedKeys.seedHex);
@@ -196,6 +261,31 @@ describe('ExtendedKey -->', () => {
         });
     });
 
+    describe('createFromMnemonic should', () => {
+        const mnemonic = new MnemonicPassPhrase('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+
+        it('create same master key as createFromSeed', () => {
+            const seed = mnemonic.toSeed('TREZOR').toString('hex');
+            const expected = ExtendedKey.createFromSeed(seed);
+
+            return ExtendedKey.createFromMnemonic(mnemonic, 'TREZOR').then((xkey) => {
+                expect(xkey.isMaster()).to.be.equal(true);
+                expect(xkey.toBase58()).to.be.equal(expected.toBase58());
+            });
+        });
+
+        it('use network and MAC type given Network.CATAPULT and MACType.KMAC', () => {
+            const seed = mnemonic.toSeed().toString('hex');
+            const expected = ExtendedKey.createFromSeed(seed, Network.CATAPULT, MACType.KMAC);
+
+            return ExtendedKey.createFromMnemonic(mnemonic, '', Network.CATAPULT, MACType.KMAC).then((xkey) => {
+                expect(xkey.node).to.be.instanceof(NodeEd25519);
+                expect(xkey.macType).to.be.equal(MACType.KMAC);
+                expect(xkey.getPrivateKey()).to.be.equal(expected.getPrivateKey());
+            });
+        });
+    });
+
     describe('getPublicNode() should', () => {
         it('create neutered from non-neutered', () => {
             const nonNeuteredMaster = new ExtendedKey(bip32.fromBase58(extendedKeys.nonNeutered[0].key));
@@ -212,7 +302,7 @@ describe('ExtendedKey -->', () => {
         });
 
         it('use correct network after being neutered', () => {
-            const node = NodeEd25519.fromBase58(extendedKeys.neutered[1].key);
+            const node = NodeEd25519.fromBase58(extendedKeys.neutered[1].key, Network.CATAPULT, true);
             const neuteredMaster = new ExtendedKey(node, Network.CATAPULT);
             const publicNode = neuteredMaster.getPublicNode();
 
@@ -0,0 +1,246 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    Keystore,
+    KeystoreFile,
+    KeystoreOptions,
+    MACType,
+    MnemonicPassPhrase,
+    Network,
+    SeedProfile,
+} from "../index";
+
+describe('Keystore -->', () => {
+
+    const mnemonic = new MnemonicPassPhrase('alpha pattern real admit vacuum wall ready code correct program depend valid focus basket whisper firm tray fit rally day dance demise engine mango');
+    const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+    // weak parameters to keep tests fast
+    const scrypt: KeystoreOptions = {kdf: 'scrypt', cost: 1024};
+    const pbkdf2: KeystoreOptions = {kdf: 'pbkdf2', iterations: 1000};
+
+    describe('save() and load() should', () => {
+        it('round-trip mnemonic pass phrase with scrypt', () => {
+            const json = Keystore.save(mnemonic, 'password', scrypt);
+            const contents = Keystore.load(json, 'password');
+
+            expect(contents.type).to.be.equal('mnemonic');
+            expect(contents.mnemonic).to.not.be.undefined;
+            expect(contents.mnemonic!.plain).to.be.equal(mnemonic.plain);
+            expect(contents.mnemonic!.language).to.be.equal('english');
+            expect(contents.seed).to.be.undefined;
+        });
+
+        it('round-trip seed with pbkdf2', () => {
+            const json = Keystore.save(seed, 'password', pbkdf2);
+            const contents = Keystore.load(json, 'password');
+
+            expect(contents.type).to.be.equal('seed');
+            expect(contents.seed!.toString('hex')).to.be.equal(seed.toString('hex'));
+            expect(contents.mnemonic).to.be.undefined;
+        });
+
+        it('store metadata', () => {
+            const options = Object.assign({macType: MACType.KMAC, network: Network.CATAPULT}, scrypt);
+            const json = Keystore.save(mnemonic, 'password', options);
+            const file = Keystore.parse(json);
+            const contents = Keystore.load(json, 'password');
+
+            expect(file.version).to.be.equal(Keystore.VERSION);
+            expect(file.crypto.cipher).to.be.equal('aes-256-gcm');
+            expect(file.crypto.kdf).to.be.equal('scrypt');
+            expect(file.meta.language).to.be.equal('english');
+            expect(file.meta.strength).to.be.equal(256);
+            expect(file.meta.macType).to.be.equal('KMAC');
+            expect(file.meta.network).to.be.equal('CATAPULT');
+            expect(contents.macType).to.be.equal(MACType.KMAC);
+            expect(contents.network).to.be.equal(Network.CATAPULT);
+        });
+
+        it('store seed profile of mnemonic pass phrase', () => {
+            const options = Object.assign({seedProfile: SeedProfile.scrypt(32768)}, pbkdf2);
+            const json = Keystore.save(mnemonic, 'password', options);
+            const contents = Keystore.load(json, 'password');
+
+            expect(Keystore.parse(json).meta.seedProfile).to.be.equal('scrypt(n=32768,r=8,p=1)');
+            expect(contents.seedProfile!.toDescriptor()).to.be.equal('scrypt(n=32768,r=8,p=1)');
+            expect(Keystore.parse(Keystore.save(mnemonic, 'password', pbkdf2)).meta.seedProfile).to.be.equal('bip39');
+            expect(Keystore.parse(Keystore.save(seed, 'password', pbkdf2)).meta.seedProfile).to.be.null;
+        });
+
+        it('not store plain text secret', () => {
+            const json = Keystore.save(mnemonic, 'password', scrypt);
+            expect(json).to.not.contain('alpha');
+        });
+
+        it('throw given wrong password', () => {
+            const json = Keystore.save(mnemonic, 'password', scrypt);
+            expect((function () {
+                Keystore.load(json, 'wrong-password');
+            })).to.throw('Invalid keystore password.');
+        });
+
+        it('throw given tampered metadata', () => {
+            const file = Keystore.encrypt(seed, 'password', pbkdf2);
+            file.meta.network = 'CATAPULT';
+            expect((function () {
+                Keystore.load(file, 'password');
+            })).to.throw('Invalid keystore password.');
+        });
+
+        it('throw given empty password', () => {
+            expect((function () {
+                Keystore.save(seed, '', pbkdf2);
+            })).to.throw('Keystore password must not be empty.');
+        });
+
+        it('throw given invalid mnemonic pass phrase', () => {
+            expect((function () {
+                Keystore.save(new MnemonicPassPhrase('alpha pattern'), 'password', pbkdf2);
+            })).to.throw('Invalid mnemonic pass phrase.');
+        });
+
+        it('throw given KDF parameters out of range', () => {
+            expect((function () {
+                Keystore.save(seed, 'password', {kdf: 'scrypt', cost: 1000});
+            })).to.throw('Keystore KDF parameters are not supported.');
+
+            expect((function () {
+                Keystore.save(seed, 'password', {kdf: 'pbkdf2', iterations: 10000001});
+            })).to.throw('Keystore KDF parameters are not supported.');
+        });
+    });
+
+    describe('parse() should', () => {
+        it('throw given unsupported version', () => {
+            const file = Keystore.encrypt(seed, 'password', pbkdf2);
+            file.version = 2;
+            expect((function () {
+                Keystore.parse(JSON.stringify(file));
+            })).to.throw('Unsupported keystore version 2.');
+        });
+
+        it('throw given malformed keystore', () => {
+            expect((function () {
+                Keystore.parse('{');
+            })).to.throw('Invalid keystore, could not parse JSON.');
+
+            expect((function () {
+                Keystore.parse('{"version": 1}');
+            })).to.throw('Invalid keystore, missing crypto or meta section.');
+
+            const file = Keystore.encrypt(seed, 'password', pbkdf2);
+            file.crypto.cipher = 'aes-128-ctr';
+            expect((function () {
+                Keystore.parse(file);
+            })).to.throw('Invalid keystore, unsupported or malformed parameters.');
+        });
+
+        it('throw given KDF parameters out of range', () => {
+            const malformed = [
+                {kdf: pbkdf2, param: 'c', value: 10000001},
+                {kdf: pbkdf2, param: 'c', value: 1000.5},
+                {kdf: pbkdf2, param: 'c', value: '1000'},
+                {kdf: pbkdf2, param: 'c', value: 0},
+                {kdf: scrypt, param: 'n', value: 1000},
+                {kdf: scrypt, param: 'n', value: 2097152},
+                {kdf: scrypt, param: 'r', value: 17},
+                {kdf: scrypt, param: 'p', value: 17},
+                {kdf: scrypt, param: 'p', value: -1},
+            ];
+
+            malformed.map((entry) => {
+                const file = Keystore.encrypt(seed, 'password', entry.kdf);
+                file.crypto.kdfparams[entry.param] = entry.value;
+                expect((function () {
+                    Keystore.parse(file);
+                })).to.throw('Invalid keystore, unsupported or malformed parameters.');
+            });
+        });
+
+        it('throw given MAC, IV or GCM tag of wrong length', () => {
+            const file = Keystore.encrypt(seed, 'password', pbkdf2);
+            const truncated = [
+                (copy: KeystoreFile) => copy.crypto.mac = copy.crypto.mac.substr(2),
+                (copy: KeystoreFile) => copy.crypto.cipherparams.iv = copy.crypto.cipherparams.iv + '00',
+                (copy: KeystoreFile) => copy.crypto.cipherparams.tag = copy.crypto.cipherparams.tag.substr(2),
+            ];
+
+            truncated.map((truncate) => {
+                const copy: KeystoreFile = JSON.parse(JSON.stringify(file));
+                truncate(copy);
+                expect((function () {
+                    Keystore.load(copy, 'password');
+                })).to.throw('Invalid keystore, unsupported or malformed parameters.');
+            });
+        });
+
+        it('throw given unknown MAC type name', () => {
+            ['0', 'constructor', 'SHA256'].map((macType) => {
+                const file = Keystore.encrypt(seed, 'password', pbkdf2);
+                file.meta.macType = macType;
+                expect((function () {
+                    Keystore.parse(file);
+                })).to.throw('Invalid keystore, unsupported or malformed parameters.');
+            });
+        });
+
+        it('throw given empty salt, IV or ciphertext', () => {
+            const file = Keystore.encrypt(seed, 'password', pbkdf2);
+            const emptied = [
+                (copy: KeystoreFile) => copy.crypto.kdfparams.salt = '',
+                (copy: KeystoreFile) => copy.crypto.cipherparams.iv = '',
+                (copy: KeystoreFile) => copy.crypto.ciphertext = '',
+            ];
+
+            emptied.map((empty) => {
+                const copy: KeystoreFile = JSON.parse(JSON.stringify(file));
+                empty(copy);
+                expect((function () {
+                    Keystore.parse(copy);
+                })).to.throw('Invalid keystore, unsupported or malformed parameters.');
+            });
+        });
+
+        it('throw given unknown mnemonic language', () => {
+            ['klingon', 'constructor', ''].map((language) => {
+                const file = Keystore.encrypt(mnemonic, 'password', pbkdf2);
+                file.meta.language = language;
+                expect((function () {
+                    Keystore.parse(file);
+                })).to.throw('Invalid keystore, unsupported or malformed parameters.');
+            });
+        });
+    });
+
+    describe('verify() should', () => {
+        it('return true given correct password', () => {
+            const json = Keystore.save(mnemonic, 'password', scrypt);
+            expect(Keystore.verify(json, 'password')).to.be.equal(true);
+        });
+
+        it('return false given wrong password', () => {
+            const json = Keystore.save(mnemonic, 'password', scrypt);
+            expect(Keystore.verify(json, 'wrong-password')).to.be.equal(false);
+        });
+    });
+});
@@ -19,7 +19,11 @@
  * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
  */
 import {expect} from "chai";
-import {MnemonicPassPhrase} from "../index";
+import {
+    CancellationToken,
+    MnemonicPassPhrase,
+    SeedProfile,
+} from "../index";
 
 describe('MnemonicPassPhrase -->', () => {
 
@@ -48,6 +52,71 @@ describe('MnemonicPassPhrase -->', () => {
 
             expect(asArray.length).to.be.equal(24);
         });
+
+        it('split words given any white-space characters', () => {
+            const mnemonic = new MnemonicPassPhrase(' ' + words.slice(0, 12).join('  ') + '\n' + words.slice(12).join('\u3000'));
+            expect(mnemonic.toArray()).to.be.deep.equal(words);
+        });
+    });
+
+    describe('parse() should', () => {
+        it('return canonical mnemonic pass phrase given numbered list', () => {
+            const text = words.map((word, i) => (i + 1) + '. ' + word).join(' ');
+            const mnemonic = MnemonicPassPhrase.parse(text);
+
+            expect(mnemonic.plain).to.be.equal(words.join(' '));
+            expect(mnemonic.language).to.be.equal('english');
+        });
+
+        it('split words with any white-space and remove numbering', () => {
+            const text = '  ' + words.slice(0, 12).join('  ') + '\n' + words.slice(12).map((w, i) => '#' + (i + 13) + ') ' + w).join('\t') + '\n';
+            expect(MnemonicPassPhrase.parse(text).plain).to.be.equal(words.join(' '));
+        });
+
+        it('ignore letter case', () => {
+            const text = words.map((word) => word.toUpperCase()).join(', ');
+            expect(MnemonicPassPhrase.parse(text).plain).to.be.equal(words.join(' '));
+        });
+
+        it('expand unambiguous 4 letters abbreviations', () => {
+            const text = words.map((word) => word.slice(0, 4)).join(' ');
+            const mnemonic = MnemonicPassPhrase.parse(text);
+
+            expect(mnemonic.plain).to.be.equal(words.join(' '));
+            expect(mnemonic.toSeed().toString('hex')).to.be.equal(new MnemonicPassPhrase(words.join(' ')).toSeed().toString('hex'));
+        });
+
+        it('parse japanese words separated with ideographic spaces', () => {
+            const japanese = MnemonicPassPhrase.createFromEntropy('0123456789abcdef0123456789abcdef', 'japanese');
+            const text = japanese.plain.split('\u3000').map((word, i) => (i + 1) + '.' + word).join('\u3000\u3000');
+            const mnemonic = MnemonicPassPhrase.parse(text);
+
+            expect(mnemonic.language).to.be.equal('japanese');
+            expect(mnemonic.plain).to.be.equal(japanese.plain);
+            expect(mnemonic.toArray().length).to.be.equal(12);
+            expect(mnemonic.toSeed().toString('hex')).to.be.equal(japanese.toSeed().toString('hex'));
+        });
+
+        it('parse words without accents', () => {
+            const french = MnemonicPassPhrase.createFromEntropy('0123456789abcdef0123456789abcdef', 'french');
+            const mnemonic = MnemonicPassPhrase.parse('ABREUVER barrage espece associer pointe vegetal actif flatteur financer ecorce union socle');
+
+            expect(mnemonic.language).to.be.equal('french');
+            expect(mnemonic.plain).to.be.equal(french.plain);
+            expect(mnemonic.toSeed().toString('hex')).to.be.equal(french.toSeed().toString('hex'));
+        });
+
+        it('throw given unknown or ambiguous words', () => {
+            expect((function () {
+                MnemonicPassPhrase.parse(words.slice(0, 23).join(' ') + ' mangoes ab');
+            })).to.throw('Unknown or ambiguous words in mnemonic pass phrase: mangoes, ab.');
+        });
+
+        it('throw given empty text', () => {
+            expect((function () {
+                MnemonicPassPhrase.parse(' 1. \n');
+            })).to.throw('Mnemonic pass phrase must not be empty.');
+        });
     });
 
     describe('isValid() should', () => {
@@ -91,6 +160,133 @@ describe('MnemonicPassPhrase -->', () => {
             expect(secureSeedPw.byteLength).to.be.equal(64);
             expect(secureSeed.toString('hex')).to.not.be.equal(secureSeedPw.toString('hex'));
         });
+
+        it('use standard BIP39 profile by default', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const secureSeed = mnemonic.toSeed('your-password');
+            const secureSeedBip39 = mnemonic.toSeed('your-password', SeedProfile.BIP39);
+
+            expect(secureSeed.toString('hex')).to.be.equal(secureSeedBip39.toString('hex'));
+        });
+
+        it('use hardened profile when given profile', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const profile = SeedProfile.scrypt(1024);
+            const secureSeed = mnemonic.toSeed('your-password');
+            const secureSeedScrypt = mnemonic.toSeed('your-password', profile);
+
+            expect(secureSeedScrypt.byteLength).to.be.equal(64);
+            expect(secureSeedScrypt.toString('hex')).to.not.be.equal(secureSeed.toString('hex'));
+            expect(secureSeedScrypt.toString('hex')).to.be.equal(profile.deriveSeed(mnemonic.plain, 'your-password').toString('hex'));
+        });
+    });
+
+    describe('toSeedAsync() should', () => {
+        it('resolve same seed as toSeed()', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const expected = mnemonic.toSeed('your-password').toString('hex');
+
+            return mnemonic.toSeedAsync('your-password').then((seed) => {
+                expect(seed).to.be.instanceof(Buffer);
+                expect(seed.toString('hex')).to.be.equal(expected);
+            });
+        });
+
+        it('use empty password when given no password', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const expected = mnemonic.toSeed('').toString('hex');
+
+            return mnemonic.toSeedAsync().then((seed) => {
+                expect(seed.toString('hex')).to.be.equal(expected);
+            });
+        });
+
+        it('report progress and resolve same seed given progress callback', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const expected = mnemonic.toSeed('your-password').toString('hex');
+            const progress: number[] = [];
+
+            return mnemonic.toSeedAsync('your-password', {
+                onProgress: (p: number) => progress.push(p),
+            }).then((seed) => {
+                expect(seed.toString('hex')).to.be.equal(expected);
+                expect(progress.length).to.be.equal(16);
+                expect(progress[0]).to.be.equal(128 / 2048);
+                expect(progress[progress.length - 1]).to.be.equal(1);
+            });
+        });
+
+        it('resolve same seed as toSeed() given hardened profile', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const profile = SeedProfile.kmac(2048);
+            const expected = mnemonic.toSeed('your-password', profile).toString('hex');
+            const progress: number[] = [];
+
+            return mnemonic.toSeedAsync('your-password', {
+                profile: profile,
+                onProgress: (p: number) => progress.push(p),
+            }).then((seed) => {
+                expect(seed.toString('hex')).to.be.equal(expected);
+                expect(progress).to.deep.equal([1]);
+            });
+        });
+
+        it('reject when cancelled', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const token = new CancellationToken();
+            const promise = mnemonic.toSeedAsync('', {cancellation: token});
+            token.cancel();
+
+            return promise.then(
+                () => { throw new Error('Expected rejection.'); },
+                (e: Error) => expect(e.message).to.be.equal('Operation was cancelled.'),
+            );
+        });
+
+        it('reject when cancelled during progress steps', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const token = new CancellationToken();
+            const progress: number[] = [];
+
+            return mnemonic.toSeedAsync('', {
+                cancellation: token,
+                onProgress: (p: number) => {
+                    progress.push(p);
+                    token.cancel();
+                },
+            }).then(
+                () => { throw new Error('Expected rejection.'); },
+                (e: Error) => {
+                    expect(e.message).to.be.equal('Operation was cancelled.');
+                    expect(progress.length).to.be.equal(1);
+                },
+            );
+        });
+
+        it('reject given token cancelled before the call', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const token = new CancellationToken();
+            token.cancel();
+
+            return mnemonic.toSeedAsync('', {cancellation: token, profile: SeedProfile.kmac(2048)}).then(
+                () => { throw new Error('Expected rejection.'); },
+                (e: Error) => expect(e.message).to.be.equal('Operation was cancelled.'),
+            );
+        });
+
+        it('stop computing rounds when cancelled between steps', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const token = new CancellationToken();
+            const promise = mnemonic.toSeedAsync('', {cancellation: token});
+
+            // runs after the first step of 128 rounds
+            setImmediate(() => token.cancel());
+
+            return promise.then(
+                () => { throw new Error('Expected rejection.'); },
+                (e: Error) => expect(e.message).to.be.equal('Operation was cancelled.'),
+            );
+        });
     });
 
     describe('toEntropy() should', () => {
@@ -104,6 +300,159 @@ describe('MnemonicPassPhrase -->', () => {
         });
     });
 
+    describe('MnemonicPassPhrase.detectLanguages() should', () => {
+        it('detect english wordlist', () => {
+            expect(MnemonicPassPhrase.detectLanguages(words.join(' '))).to.deep.equal(['english']);
+        });
+
+        it('detect japanese wordlist with ideographic spaces', () => {
+            const mnemonic = MnemonicPassPhrase.createFromEntropy('00000000000000000000000000000000', 'japanese');
+            expect(mnemonic.plain).to.contain('\u3000');
+            expect(MnemonicPassPhrase.detectLanguages(mnemonic.plain)).to.deep.equal(['japanese']);
+        });
+
+        it('list all wordlists containing shared words', () => {
+            // "animal" and "science" are part of both english and french wordlists
+            const languages = MnemonicPassPhrase.detectLanguages('animal science');
+            expect(languages).to.include('english');
+            expect(languages).to.include('french');
+        });
+
+        it('list chinese wordlists with valid checksum first', () => {
+            const entropy = '07142acb81df09ed6cb16830957cebf865a2267ea2bae7aafac51c037474929c';
+            const simplified = MnemonicPassPhrase.createFromEntropy(entropy, 'chinese_simplified');
+            const languages = MnemonicPassPhrase.detectLanguages(simplified.plain);
+            expect(languages[0]).to.be.equal('chinese_simplified');
+        });
+
+        it('return empty list given unknown words', () => {
+            expect(MnemonicPassPhrase.detectLanguages('belgian waffles').length).to.be.equal(0);
+        });
+    });
+
+    describe('MnemonicPassPhrase.detectLanguage() should', () => {
+        it('detect language of random mnemonics', () => {
+            ['english', 'french', 'spanish', 'italian', 'japanese', 'korean'].forEach((language) => {
+                const mnemonic = MnemonicPassPhrase.createRandom(language);
+                expect(MnemonicPassPhrase.detectLanguage(mnemonic.plain)).to.be.equal(language);
+            });
+        });
+
+        it('use checksum to disambiguate shared words', () => {
+            // all words are part of both english and french wordlists
+            const english = 'badge fortune usage simple volume junior double festival public guide fruit panda';
+            const french = 'talent impact sentence virus virus sentence impact talent correct effort crucial usage';
+
+            expect(MnemonicPassPhrase.detectLanguages(english)).to.deep.equal(['english', 'french']);
+            expect(MnemonicPassPhrase.detectLanguage(english)).to.be.equal('english');
+            expect(MnemonicPassPhrase.detectLanguages(french)).to.deep.equal(['french', 'english']);
+            expect(MnemonicPassPhrase.detectLanguage(french)).to.be.equal('french');
+        });
+
+        it('throw given unknown words', () => {
+            expect((function () {
+                MnemonicPassPhrase.detectLanguage('belgian waffles');
+            })).to.throw('Could not detect language of mnemonic pass phrase.');
+        });
+
+        it('throw given ambiguous language', () => {
+            expect((function () {
+                MnemonicPassPhrase.detectLanguage('animal science');
+            })).to.throw('Ambiguous language of mnemonic pass phrase');
+        });
+    });
+
+    describe('getLanguage() should', () => {
+        it('return language given to constructor', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '), 'english');
+            expect(mnemonic.getLanguage()).to.be.equal('english');
+        });
+
+        it('remember language of random mnemonic', () => {
+            const mnemonic = MnemonicPassPhrase.createRandom('spanish');
+            expect(mnemonic.language).to.be.equal('spanish');
+            expect(mnemonic.isValid()).to.be.equal(true);
+        });
+
+        it('remember language of mnemonic created from entropy', () => {
+            const mnemonic = MnemonicPassPhrase.createFromEntropy('07142acb81df09ed6cb16830957cebf865a2267ea2bae7aafac51c037474929c', 'italian');
+            expect(mnemonic.language).to.be.equal('italian');
+            expect(mnemonic.toEntropy()).to.be.equal('07142acb81df09ed6cb16830957cebf865a2267ea2bae7aafac51c037474929c');
+        });
+
+        it('detect language when none is given', () => {
+            const french = MnemonicPassPhrase.createRandom('french');
+            const mnemonic = new MnemonicPassPhrase(french.plain);
+
+            expect(mnemonic.language).to.be.undefined;
+            expect(mnemonic.getLanguage()).to.be.equal('french');
+            expect(mnemonic.isValid()).to.be.equal(true);
+        });
+
+        it('throw when language cannot be detected', () => {
+            const mnemonic = new MnemonicPassPhrase('belgian waffles');
+
+            expect((function () {
+                mnemonic.getLanguage();
+            })).to.throw('Could not detect language of mnemonic pass phrase.');
+            expect(mnemonic.isValid()).to.be.equal(false);
+        });
+
+        it('accept words shared by wordlists that encode the same entropy', () => {
+            // all words are part of the chinese_simplified and chinese_traditional wordlists
+            const mnemonic = new MnemonicPassPhrase('煤 宣 伏 步 恩 木 拆 氯 陷 痛 朝 勇');
+
+            expect(MnemonicPassPhrase.detectLanguages(mnemonic.plain)).to.deep.equal(['chinese_simplified', 'chinese_traditional']);
+            expect(mnemonic.getLanguage()).to.be.equal('chinese_simplified');
+            expect(mnemonic.isValid()).to.be.equal(true);
+            expect(mnemonic.toEntropy()).to.be.equal('692a828696b958867c0428a611a520cf');
+            expect(mnemonic.toEntropy('chinese_traditional')).to.be.equal(mnemonic.toEntropy());
+        });
+
+        it('throw given language not supported by BIP39', () => {
+            expect((function () {
+                new MnemonicPassPhrase(words.join(' '), 'belgian');
+            })).to.throw('Language "belgian" is not supported.');
+        });
+    });
+
+    describe('translate() should', () => {
+        it('keep entropy given target language', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const translated = mnemonic.translate('japanese');
+
+            expect(translated.language).to.be.equal('japanese');
+            expect(translated.isValid()).to.be.equal(true);
+            expect(translated.toEntropy()).to.be.equal(mnemonic.toEntropy());
+        });
+
+        it('change seed given target language', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const translated = mnemonic.translate('french');
+
+            expect(translated.toSeed().toString('hex')).to.not.be.equal(mnemonic.toSeed().toString('hex'));
+        });
+
+        it('restore original words when translated back', () => {
+            const mnemonic = new MnemonicPassPhrase(words.join(' '));
+            const translated = mnemonic.translate('korean').translate('english');
+
+            expect(translated.plain).to.be.equal(mnemonic.plain);
+        });
+
+        it('throw given language not supported by BIP39', () => {
+            expect((function () {
+                new MnemonicPassPhrase(words.join(' ')).translate('belgian');
+            })).to.throw('Language "belgian" is not supported.');
+        });
+
+        it('throw given invalid mnemonic pass phrase', () => {
+            expect((function () {
+                new MnemonicPassPhrase(words.slice(1).join(' ')).translate('french');
+            })).to.throw();
+        });
+    });
+
     describe('MnemonicPassPhrase.createRandom() should', () => {
         it('be created randomly without arguments', () => {
             const mnemonic = MnemonicPassPhrase.createRandom();
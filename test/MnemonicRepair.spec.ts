@@ -0,0 +1,192 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    MnemonicPassPhrase,
+    MnemonicRepair,
+} from "../index";
+
+describe('MnemonicRepair -->', () => {
+
+    const words = [
+        'alpha', 'pattern', 'real', 'admit',
+        'vacuum', 'wall', 'ready', 'code',
+        'correct', 'program', 'depend', 'valid',
+        'focus', 'basket', 'whisper', 'firm',
+        'tray', 'fit', 'rally', 'day',
+        'dance', 'demise', 'engine', 'mango'
+    ];
+    const expected = words.join(' ');
+
+    const replace = (position: number, word: string) => {
+        const copy = words.slice();
+        copy[position] = word;
+        return new MnemonicPassPhrase(copy.join(' '));
+    };
+
+    describe('suggestWords() should', () => {
+        it('return words within edit distance', () => {
+            const candidates = MnemonicRepair.suggestWords('patern');
+            expect(candidates[0]).to.be.equal('pattern');
+        });
+
+        it('return words sharing the 4-letters prefix first', () => {
+            const candidates = MnemonicRepair.suggestWords('corr');
+            expect(candidates).to.include('correct');
+        });
+
+        it('return empty list given no close word', () => {
+            expect(MnemonicRepair.suggestWords('xyzxyzxyz').length).to.be.equal(0);
+        });
+
+        it('throw given language not supported by BIP39', () => {
+            expect((function () {
+                MnemonicRepair.suggestWords('alpha', 'belgian');
+            })).to.throw('Language "belgian" is not supported.');
+        });
+    });
+
+    describe('diagnose() should', () => {
+        it('report valid mnemonic pass phrase', () => {
+            const report = MnemonicRepair.diagnose(new MnemonicPassPhrase(expected));
+
+            expect(report.valid).to.be.equal(true);
+            expect(report.checksumValid).to.be.equal(true);
+            expect(report.unknownWords.length).to.be.equal(0);
+        });
+
+        it('report unknown words with position and candidates', () => {
+            const report = MnemonicRepair.diagnose(replace(1, 'patern'));
+
+            expect(report.valid).to.be.equal(false);
+            expect(report.validWordCount).to.be.equal(true);
+            expect(report.unknownWords.length).to.be.equal(1);
+            expect(report.unknownWords[0].position).to.be.equal(1);
+            expect(report.unknownWords[0].word).to.be.equal('patern');
+            expect(report.unknownWords[0].candidates).to.include('pattern');
+        });
+
+        it('report invalid word count', () => {
+            const report = MnemonicRepair.diagnose(new MnemonicPassPhrase(words.slice(1).join(' ')));
+
+            expect(report.wordCount).to.be.equal(23);
+            expect(report.validWordCount).to.be.equal(false);
+            expect(report.checksumValid).to.be.equal(false);
+        });
+
+        it('report invalid checksum', () => {
+            const report = MnemonicRepair.diagnose(replace(23, 'abandon'));
+
+            expect(report.unknownWords.length).to.be.equal(0);
+            expect(report.checksumValid).to.be.equal(false);
+        });
+    });
+
+    describe('repair() should', () => {
+        it('repair typo in unknown word', () => {
+            const candidates = MnemonicRepair.repair(replace(1, 'patern'));
+
+            expect(candidates[0].mnemonic.plain).to.be.equal(expected);
+            expect(candidates[0].operation).to.be.equal('substitute');
+            expect(candidates[0].positions).to.deep.equal([1]);
+        });
+
+        it('bound combinations given many unknown words', () => {
+            // each typo has several suggestions, all combinations would not complete
+            const typos = words.map((word) => word + 'q');
+            const candidates = MnemonicRepair.repair(new MnemonicPassPhrase(typos.join(' '), 'english'));
+
+            expect(candidates.length).to.be.at.most(MnemonicRepair.MAX_CANDIDATES);
+            candidates.forEach((candidate) => expect(candidate.mnemonic.isValid()).to.be.equal(true));
+        });
+
+        it('repair unknown word without close suggestion', () => {
+            const candidates = MnemonicRepair.repair(replace(4, 'xyzxyzxyz'));
+            const plains = candidates.map((candidate) => candidate.mnemonic.plain);
+
+            expect(plains).to.include(expected);
+            candidates.forEach((candidate) => expect(candidate.mnemonic.isValid()).to.be.equal(true));
+        });
+
+        it('rank close wrong word first', () => {
+            const candidates = MnemonicRepair.repair(replace(5, 'walk'));
+            const closest = candidates.filter((candidate) => candidate.cost === 1);
+
+            expect(candidates[0].cost).to.be.equal(1);
+            expect(closest.map((candidate) => candidate.mnemonic.plain)).to.include(expected);
+        });
+
+        it('repair swapped words', () => {
+            const swapped = words.slice();
+            swapped[2] = words[7];
+            swapped[7] = words[2];
+            const candidates = MnemonicRepair.repair(new MnemonicPassPhrase(swapped.join(' ')));
+            const repaired = candidates.filter((candidate) => candidate.operation === 'swap');
+
+            expect(repaired.map((candidate) => candidate.mnemonic.plain)).to.include(expected);
+        });
+
+        it('repair missing word', () => {
+            const missing = words.slice(0, 5).concat(words.slice(6));
+            const candidates = MnemonicRepair.repair(new MnemonicPassPhrase(missing.join(' ')));
+            const repaired = candidates.filter((candidate) => candidate.positions[0] === 5);
+
+            expect(repaired.map((candidate) => candidate.mnemonic.plain)).to.include(expected);
+            candidates.forEach((candidate) => {
+                expect(candidate.operation).to.be.equal('insert');
+                expect(candidate.mnemonic.isValid()).to.be.equal(true);
+            });
+        });
+
+        it('repair extra word', () => {
+            const extra = words.slice(0, 3).concat(['zoo'], words.slice(3));
+            const candidates = MnemonicRepair.repair(new MnemonicPassPhrase(extra.join(' ')));
+
+            expect(candidates.map((candidate) => candidate.mnemonic.plain)).to.include(expected);
+        });
+
+        it('return empty list given valid mnemonic pass phrase', () => {
+            const candidates = MnemonicRepair.repair(new MnemonicPassPhrase(expected));
+            expect(candidates).to.deep.equal([]);
+        });
+
+        it('repair japanese mnemonic pass phrase with language and ideographic spaces', () => {
+            const japanese = MnemonicPassPhrase.createFromEntropy('00000000000000000000000000000000', 'japanese');
+            const broken = japanese.toArray();
+            broken[3] = broken[3].slice(0, -1);
+
+            const candidates = MnemonicRepair.repair(new MnemonicPassPhrase(broken.join('\u3000')));
+            const repaired = candidates.filter((candidate) => candidate.mnemonic.plain === japanese.plain);
+
+            expect(repaired.length).to.be.equal(1);
+            candidates.forEach((candidate) => {
+                expect(candidate.mnemonic.language).to.be.equal('japanese');
+                expect(candidate.mnemonic.toArray().length).to.be.equal(12);
+                expect(candidate.mnemonic.plain.indexOf(' ')).to.be.equal(-1);
+            });
+        });
+
+        it('return empty list given word count not repairable with a single insert or removal', () => {
+            const candidates = MnemonicRepair.repair(new MnemonicPassPhrase(words.slice(2).join(' ')));
+            expect(candidates.length).to.be.equal(0);
+        });
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {NetworkType} from 'nem2-sdk';
+
+// internal dependencies
+import {
+    CurveAlgorithm,
+    ExtendedKey,
+    Keystore,
+    KeystoreOptions,
+    MnemonicPassPhrase,
+    Network,
+    NetworkRegistry,
+    Wallet,
+} from "../index";
+
+describe('NetworkRegistry -->', () => {
+
+    // Litecoin `Ltub` and `Ltpv` prefixes, SLIP-44 coin type 2
+    const litecoin = new Network(0x019da462, 0x019d9cfe, CurveAlgorithm.secp256k1, 2);
+    const seedHex = '000102030405060708090a0b0c0d0e0f';
+
+    beforeEach(() => {
+        NetworkRegistry.register('LITECOIN', litecoin);
+    });
+
+    afterEach(() => {
+        NetworkRegistry.unregister('LITECOIN');
+    });
+
+    describe('register() should', () => {
+        it('add network to registered networks', () => {
+            expect(NetworkRegistry.has('LITECOIN')).to.be.equal(true);
+            expect(NetworkRegistry.get('LITECOIN')).to.be.equal(litecoin);
+            expect(NetworkRegistry.getName(litecoin)).to.be.equal('LITECOIN');
+            expect(NetworkRegistry.getNames()).to.include('LITECOIN');
+        });
+
+        it('throw given built-in network', () => {
+            expect((function () {
+                NetworkRegistry.register('BITCOIN', litecoin);
+            })).to.throw('Network "BITCOIN" is built-in and cannot be overwritten.');
+        });
+
+        it('throw given invalid network name', () => {
+            expect((function () {
+                NetworkRegistry.register('litecoin', litecoin);
+            })).to.throw('Network name must contain only upper-case letters, digits and underscores.');
+        });
+
+        it('throw given network registered with another name', () => {
+            expect((function () {
+                NetworkRegistry.register('LTC', litecoin);
+            })).to.throw('Network is already registered as "LITECOIN".');
+        });
+    });
+
+    describe('unregister() should', () => {
+        it('throw given built-in network', () => {
+            expect((function () {
+                NetworkRegistry.unregister('CATAPULT');
+            })).to.throw('Network "CATAPULT" is built-in and cannot be unregistered.');
+        });
+    });
+
+    describe('get() should', () => {
+        it('return static networks of Network', () => {
+            expect(NetworkRegistry.get('BITCOIN')).to.be.equal(Network.BITCOIN);
+            expect(NetworkRegistry.get('BITCOIN_TESTNET')).to.be.equal(Network.BITCOIN_TESTNET);
+            expect(NetworkRegistry.get('CATAPULT')).to.be.equal(Network.CATAPULT);
+            expect(NetworkRegistry.get('MIJIN')).to.be.equal(Network.MIJIN);
+            expect(NetworkRegistry.get('MIJIN_TEST')).to.be.equal(Network.MIJIN_TEST);
+            expect(NetworkRegistry.get('MAIN_NET')).to.be.equal(Network.MAIN_NET);
+            expect(NetworkRegistry.get('TEST_NET')).to.be.equal(Network.TEST_NET);
+        });
+
+        it('throw given unknown network', () => {
+            expect((function () {
+                NetworkRegistry.get('DOGECOIN');
+            })).to.throw('Network "DOGECOIN" is not registered.');
+        });
+    });
+
+    describe('findByVersion() should', () => {
+        it('find networks by public and private key prefixes', () => {
+            expect(NetworkRegistry.findByVersion(0x04358394)).to.be.equal(Network.BITCOIN_TESTNET);
+            expect(NetworkRegistry.findByVersion(0x019da462)).to.be.equal(litecoin);
+            expect(NetworkRegistry.findByVersion(0x02e8da55)).to.be.equal(Network.CATAPULT);
+            expect(NetworkRegistry.findByVersion(0x00000000)).to.be.undefined;
+        });
+    });
+
+    describe('findByNetworkType() should', () => {
+        it('find CATAPULT networks by nem2-sdk network type', () => {
+            expect(NetworkRegistry.findByNetworkType(NetworkType.MAIN_NET)).to.be.equal(Network.MAIN_NET);
+            expect(NetworkRegistry.findByNetworkType(NetworkType.MIJIN)).to.be.equal(Network.MIJIN);
+            expect(NetworkRegistry.findByNetworkType(NetworkType.TEST_NET)).to.be.equal(Network.TEST_NET);
+            expect(NetworkRegistry.findByNetworkType(NetworkType.MIJIN_TEST)).to.be.equal(Network.CATAPULT);
+        });
+    });
+
+    describe('ExtendedKey should', () => {
+        it('use custom network prefixes', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, litecoin);
+            const detected = ExtendedKey.createFromBase58(xkey.getPublicNode().toBase58());
+
+            expect(xkey.toBase58().substr(0, 4)).to.be.equal('Ltpv');
+            expect(detected.network).to.be.equal(litecoin);
+            expect(detected.getPublicKey()).to.be.equal(xkey.getPublicKey());
+        });
+
+        it('create bitcoin testnet keys with tprv and tpub prefixes', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.BITCOIN_TESTNET);
+            const bitcoin = ExtendedKey.createFromSeed(seedHex, Network.BITCOIN);
+
+            expect(xkey.toBase58().substr(0, 4)).to.be.equal('tprv');
+            expect(xkey.getPublicNode().toBase58().substr(0, 4)).to.be.equal('tpub');
+            expect(xkey.derivePath('m/0\'').getPublicKey()).to.be.equal(bitcoin.derivePath('m/0\'').getPublicKey());
+        });
+
+        it('accept ed25519 keys with CATAPULT networks', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.MAIN_NET);
+            const catapult = ExtendedKey.createFromSeed(seedHex, Network.CATAPULT);
+
+            expect(xkey.network).to.be.equal(Network.MAIN_NET);
+            expect(xkey.getPublicKey()).to.be.equal(catapult.getPublicKey());
+        });
+
+        it('use distinct prefixes for CATAPULT network types', () => {
+            const prefixes = [Network.MIJIN, Network.MIJIN_TEST, Network.MAIN_NET, Network.TEST_NET].map((network) => {
+                const xkey = ExtendedKey.createFromSeed(seedHex, network);
+                return xkey.toBase58().substr(0, 4) + xkey.getPublicNode().toBase58().substr(0, 4);
+            });
+
+            expect(prefixes).to.deep.equal(['mprvmpub', 'cprvcpub', 'CprvCpub', 'TprvTpub']);
+        });
+
+        it('detect network type of CATAPULT keys given no network', () => {
+            const xkey = ExtendedKey.createFromSeed(seedHex, Network.MAIN_NET);
+            const prv = ExtendedKey.createFromBase58(xkey.toBase58());
+            const pub = ExtendedKey.createFromBase58(xkey.getPublicNode().toBase58());
+
+            expect(prv.network).to.be.equal(Network.MAIN_NET);
+            expect(pub.network).to.be.equal(Network.MAIN_NET);
+            expect(new Wallet(prv).getAccount().address.networkType).to.be.equal(NetworkType.MAIN_NET);
+            expect(ExtendedKey.createFromBase58(ExtendedKey.createFromSeed(seedHex, Network.TEST_NET).toBase58()).network)
+                .to.be.equal(Network.TEST_NET);
+            expect(ExtendedKey.createFromBase58(ExtendedKey.createFromSeed(seedHex, Network.MIJIN).toBase58()).network)
+                .to.be.equal(Network.MIJIN);
+        });
+    });
+
+    describe('Keystore should', () => {
+        it('store custom network by name', () => {
+            const mnemonic = new MnemonicPassPhrase('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+            const options: KeystoreOptions = {kdf: 'pbkdf2', iterations: 1000, network: litecoin};
+            const file = Keystore.encrypt(mnemonic, 'password', options);
+
+            expect(file.meta.network).to.be.equal('LITECOIN');
+            expect(Keystore.load(file, 'password').network).to.be.equal(litecoin);
+        });
+    });
+});
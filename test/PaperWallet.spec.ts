@@ -0,0 +1,121 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {NetworkType} from 'nem2-sdk';
+import {
+    ExtendedKey,
+    MnemonicPassPhrase,
+    Network,
+    PaperWallet,
+    SeedProfile,
+    Wallet,
+} from "../index";
+
+describe('PaperWallet -->', () => {
+
+    const mnemonic = new MnemonicPassPhrase('forum undo fragile fade shy sign arrest garment culture tube off merit');
+    const xkey = ExtendedKey.createFromSeed(mnemonic.toSeed().toString('hex'), Network.CATAPULT);
+    const address = new Wallet(xkey).getChildPublicAccount().address.pretty();
+
+    describe('createSheet() should', () => {
+        it('collect words, fingerprint, extended public key and account address', () => {
+            const sheet = PaperWallet.createSheet({mnemonic});
+
+            expect(sheet.words.length).to.be.equal(12);
+            expect(sheet.words[0]).to.be.equal('forum');
+            expect(sheet.seedQR).to.not.be.null;
+            expect(sheet.isMaster).to.be.equal(true);
+            expect(sheet.fingerprint).to.be.equal(xkey.node.fingerprint.toString('hex'));
+            expect(sheet.extendedPublicKey).to.be.equal(xkey.getPublicNode().toBase58());
+            expect(sheet.extendedPrivateKey).to.be.null;
+            expect(sheet.accountPath).to.be.equal(Wallet.DEFAULT_WALLET_PATH);
+            expect(sheet.accountAddress).to.be.equal(address);
+            expect(sheet.seedProfile).to.be.null;
+        });
+
+        it('derive keys and show descriptor given hardened seed profile', () => {
+            const profile = SeedProfile.kmac(2048);
+            const hardened = ExtendedKey.createFromSeed(mnemonic.toSeed('', profile).toString('hex'), Network.CATAPULT);
+            const sheet = PaperWallet.createSheet({mnemonic, seedProfile: profile});
+
+            expect(sheet.seedProfile).to.be.equal('kmac256(c=2048)');
+            expect(sheet.fingerprint).to.be.equal(hardened.node.fingerprint.toString('hex'));
+            expect(PaperWallet.generate({mnemonic, seedProfile: profile})).to.contain('kmac256(c=2048)');
+        });
+
+        it('use network type for account address', () => {
+            const sheet = PaperWallet.createSheet({mnemonic, networkType: NetworkType.MAIN_NET});
+            expect(sheet.accountAddress!.charAt(0)).to.be.equal('N');
+        });
+
+        it('redact secrets given publicOnly', () => {
+            const sheet = PaperWallet.createSheet({mnemonic, publicOnly: true});
+
+            expect(sheet.words).to.be.deep.equal([]);
+            expect(sheet.seedQR).to.be.null;
+            expect(sheet.extendedPrivateKey).to.be.null;
+            expect(sheet.accountAddress).to.be.equal(address);
+        });
+
+        it('show extended private key given extended key only', () => {
+            const sheet = PaperWallet.createSheet({extendedKey: xkey});
+
+            expect(sheet.words).to.be.deep.equal([]);
+            expect(sheet.extendedPrivateKey).to.be.equal(xkey.toBase58());
+        });
+
+        it('omit account address given extended public key', () => {
+            const sheet = PaperWallet.createSheet({extendedKey: xkey.getPublicNode()});
+
+            expect(sheet.extendedPrivateKey).to.be.null;
+            expect(sheet.accountAddress).to.be.null;
+        });
+
+        it('throw given no mnemonic pass phrase and no extended key', () => {
+            expect((function () {
+                PaperWallet.createSheet({});
+            })).to.throw('Paper wallet needs a mnemonic pass phrase or an extended key.');
+        });
+    });
+
+    describe('generate() should', () => {
+        it('generate self-contained HTML with numbered words and QR codes', () => {
+            const html = PaperWallet.generate({mnemonic, title: 'Backup <1>'});
+
+            expect(html).to.match(/^<!DOCTYPE html>/);
+            expect(html).to.contain('<title>Backup &lt;1&gt;</title>');
+            expect(html).to.contain('<ol class="words"><li>forum</li><li>undo</li>');
+            expect(html).to.contain(xkey.getPublicNode().toBase58());
+            expect(html).to.contain(address);
+            expect(html.match(/<svg /g)!.length).to.be.equal(3);
+            expect(html).to.not.match(/(src|href)=/);
+        });
+
+        it('generate public sheet without secrets', () => {
+            const html = PaperWallet.generate({mnemonic, publicOnly: true});
+
+            expect(html).to.contain('Public sheet');
+            expect(html).to.not.contain('forum');
+            expect(html).to.not.contain(xkey.toBase58());
+            expect(html.match(/<svg /g)!.length).to.be.equal(2);
+        });
+    });
+});
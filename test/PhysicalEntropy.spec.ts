@@ -0,0 +1,165 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    MnemonicPassPhrase,
+    PhysicalEntropy,
+} from "../index";
+
+describe('PhysicalEntropy -->', () => {
+
+    // 102 dice rolls
+    const rolls = '123456'.repeat(17);
+    const rollsHash = '8fd128918b2e29d6dcbfa5b9a118e5c16d60498c7ba107922a8eb6eb1d36c112';
+
+    describe('getMinimumDiceRolls() should', () => {
+        it('return ceil(strength / log2(6))', () => {
+            expect(PhysicalEntropy.getMinimumDiceRolls(128)).to.be.equal(50);
+            expect(PhysicalEntropy.getMinimumDiceRolls(256)).to.be.equal(100);
+        });
+    });
+
+    describe('fromDiceRolls() should', () => {
+        it('hash dice rolls with SHA-256', () => {
+            expect(PhysicalEntropy.fromDiceRolls(rolls, 256).toString('hex')).to.be.equal(rollsHash);
+        });
+
+        it('truncate hash given lower strength', () => {
+            expect(PhysicalEntropy.fromDiceRolls(rolls, 128).toString('hex')).to.be.equal(rollsHash.substr(0, 32));
+        });
+
+        it('accept dice rolls as numbers', () => {
+            const numbers = rolls.split('').map((roll) => parseInt(roll, 10));
+            expect(PhysicalEntropy.fromDiceRolls(numbers, 256).toString('hex')).to.be.equal(rollsHash);
+        });
+
+        it('throw given invalid roll', () => {
+            expect((function () {
+                PhysicalEntropy.fromDiceRolls(rolls + '7', 256);
+            })).to.throw('Invalid dice roll, each roll must be a number between 1 and 6.');
+        });
+
+        it('throw given insufficient number of rolls', () => {
+            expect((function () {
+                PhysicalEntropy.fromDiceRolls(rolls.substr(0, 99), 256);
+            })).to.throw('Insufficient number of dice rolls, need at least 100 rolls for 256 bits, but got: 99 rolls.');
+        });
+
+        it('throw given invalid strength', () => {
+            expect((function () {
+                PhysicalEntropy.fromDiceRolls(rolls, 64);
+            })).to.throw('Invalid strength, must be multiple of 32 with: 128 >= strength <= 256.');
+        });
+    });
+
+    describe('fromCoinFlips() should', () => {
+        it('debias coin flips with von Neumann extractor', () => {
+            // HT = 0, TH = 1
+            const entropy = PhysicalEntropy.fromCoinFlips('HTTH'.repeat(64), 128);
+            expect(entropy.toString('hex')).to.be.equal('55'.repeat(16));
+        });
+
+        it('discard equal pairs of flips', () => {
+            const entropy = PhysicalEntropy.fromCoinFlips('HHTTHTTT'.repeat(128), 128);
+            expect(entropy.toString('hex')).to.be.equal('00'.repeat(16));
+        });
+
+        it('accept coin flips as numbers', () => {
+            // TH = 1
+            const flips = Array.from({length: 128}, () => [0, 1]).reduce((a, b) => a.concat(b), []);
+            const entropy = PhysicalEntropy.fromCoinFlips(flips, 128);
+            expect(entropy.toString('hex')).to.be.equal('ff'.repeat(16));
+        });
+
+        it('throw given invalid flip', () => {
+            expect((function () {
+                PhysicalEntropy.fromCoinFlips('HTX', 128);
+            })).to.throw('Invalid coin flip, each flip must be one of H (1) or T (0).');
+        });
+
+        it('throw given insufficient unbiased bits', () => {
+            expect((function () {
+                PhysicalEntropy.fromCoinFlips('HT'.repeat(100) + 'HH'.repeat(100), 128);
+            })).to.throw('Insufficient number of coin flips, got 100 unbiased bits out of 128 bits');
+        });
+    });
+
+    describe('MnemonicPassPhrase should', () => {
+        it('create mnemonic from dice rolls', () => {
+            const mnemonic = MnemonicPassPhrase.createFromDiceRolls(rolls);
+
+            expect(mnemonic.toArray().length).to.be.equal(24);
+            expect(mnemonic.toEntropy()).to.be.equal(rollsHash);
+        });
+
+        it('create mnemonic from coin flips', () => {
+            const mnemonic = MnemonicPassPhrase.createFromCoinFlips('HTTH'.repeat(64), 128, 'french');
+
+            expect(mnemonic.toArray().length).to.be.equal(12);
+            expect(mnemonic.language).to.be.equal('french');
+            expect(mnemonic.toEntropy()).to.be.equal('55'.repeat(16));
+        });
+    });
+
+    describe('MnemonicPassPhrase.getChecksumWords() should', () => {
+        const words = [
+            'alpha', 'pattern', 'real', 'admit',
+            'vacuum', 'wall', 'ready', 'code',
+            'correct', 'program', 'depend', 'valid',
+            'focus', 'basket', 'whisper', 'firm',
+            'tray', 'fit', 'rally', 'day',
+            'dance', 'demise', 'engine', 'mango'
+        ];
+
+        it('list 8 valid final words given 23 words', () => {
+            const candidates = MnemonicPassPhrase.getChecksumWords(words.slice(0, 23));
+
+            expect(candidates.length).to.be.equal(8);
+            expect(candidates).to.include('mango');
+            candidates.forEach((word) => {
+                const mnemonic = new MnemonicPassPhrase(words.slice(0, 23).concat([word]).join(' '));
+                expect(mnemonic.isValid()).to.be.equal(true);
+            });
+        });
+
+        it('list 128 valid final words given 11 words', () => {
+            const candidates = MnemonicPassPhrase.getChecksumWords(words.slice(0, 11));
+
+            expect(candidates.length).to.be.equal(128);
+            candidates.forEach((word) => {
+                const mnemonic = new MnemonicPassPhrase(words.slice(0, 11).concat([word]).join(' '));
+                expect(mnemonic.isValid()).to.be.equal(true);
+            });
+        });
+
+        it('throw given invalid number of words', () => {
+            expect((function () {
+                MnemonicPassPhrase.getChecksumWords(words.slice(0, 12));
+            })).to.throw('Invalid number of words, must be one of: 11, 14, 17, 20 or 23.');
+        });
+
+        it('throw given unknown word', () => {
+            expect((function () {
+                MnemonicPassPhrase.getChecksumWords(['belgian'].concat(words.slice(0, 10)));
+            })).to.throw('Word "belgian" is not part of the english wordlist.');
+        });
+    });
+});
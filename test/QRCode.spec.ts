@@ -0,0 +1,190 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    QRCode,
+    QRRenderer,
+} from "../index";
+
+describe('QRCode -->', () => {
+
+    // read the 15 format bits around the top left finder pattern
+    const readFormat = (qr: QRCode) => {
+        const coordinates = [[8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8],
+                             [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8]];
+        const bits = coordinates.reduce((value, [x, y], i) => value | (qr.getModule(x, y) ? 1 << i : 0), 0) ^ 0x5412;
+        return {level: ['M', 'L', 'H', 'Q'][bits >>> 13], mask: (bits >>> 10) & 7};
+    };
+
+    // check the 7x7 finder pattern with top left corner at x, y
+    const hasFinder = (qr: QRCode, x: number, y: number) => {
+        for (let dy = 0; dy < 7; dy++) {
+            for (let dx = 0; dx < 7; dx++) {
+                const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+                if (qr.getModule(x + dx, y + dy) !== (ring !== 2)) {
+                    return false;
+                }
+            }
+        }
+        return true;
+    };
+
+    // modules in row-major order, 4 per hexadecimal digit padded with zeros
+    const toHex = (qr: QRCode) => {
+        const bits = qr.modules.map((row) => row.map((module) => module ? '1' : '0').join('')).join('');
+        const padded = bits + '0'.repeat((4 - bits.length % 4) % 4);
+        return padded.replace(/[01]{4}/g, (nibble) => parseInt(nibble, 2).toString(16));
+    };
+
+    // symbols of 'nem2-hd' in byte mode, cross-checked with the Nayuki
+    // QR code generator and decoded with jsQR
+    const levels: {[level: string]: {mask: number, modules: string}} = {
+        L: {mask: 7, modules: 'fe5bfc16906eb2bb74a5dba8aec14d07faafe01f00d363b72e18c3c31b2822ade0b9006897fb96d04ba9ba12cdd68cee'
+                            + '8263054d8fef950'},
+        M: {mask: 6, modules: 'fec3fc16506ebebb74a5dbabaec11107faafe008009fb4be88e70fc64fe9dd59b7ec00776bfac3905856bac79dd4732e'
+                            + '973704727fe8c00'},
+        Q: {mask: 3, modules: 'fe6bfc17106eaabb74e5dba52ec12107faafe000007648346bfb5d8a070b35b1f581807953f8e7105b27ba6ebdd490ae'
+                            + 'a281054a9fe6520'},
+        H: {mask: 4, modules: 'fe03fc17106e8ebb7465dba72ec16107faafe017000f0b1160a3bfac6493e7112c50005c6bfb52505d7bba80cdd3b5ee'
+                            + '99b904ed8fe2f88'},
+    };
+
+    const masks = [
+        'fe13fc14906e8ebb7455dbacaec12507faafe00300aa70916718c8da3e5b063ce2b9005adff9dff047a9bab65dd31eae'
+          + 'a26304c4afecb18',
+        'fec3fc12106ebabb74f5dba1aec14d07faafe00900a3212bcdb25d8f6af1ac99b7ec007077fa8ab04d03ba630dd1b42e'
+          + 'b737046e0fe9e48',
+        'fe73fc10506eb6bb7565dbaaaec16907faafe01000be13e74ffb46e2ddd13edf6c818054e7f851d05427bad5d5d7fd2e'
+          + 'ba8104fc4fea890',
+        'fef3fc16906e8cbb7565dba72ec11d07faafe01b00b77a5f4ffb6bd40663e5bf6c81807953fbe7105427ba0ebdd490ae'
+          + 'ba81044a9fec520',
+        'feb3fc12506e98bb7515dbaeaec14907faafe017008bd7ccc1c3a5ece4c94f1870f000776bfab250433bba92cdd1c5ee'
+          + '94b9048d8feef88',
+        'fe43fc16506eb6bb75a5dba2aec10907faafe0180082967688e706e2ddf1bcd9b7ec007467f851d04856ba55d5d1f52e'
+          + '9737047e4fea890',
+        'fec3fc16506ebebb74a5dbabaec11107faafe008009fb4be88e70fc64fe9dd59b7ec00776bfac3905856bac79dd4732e'
+          + '973704727fe8c00',
+        'fe13fc11906e8abb7455dba6aec16d07faafe0070096e5016718da931a1222ace2b9004897f996d057a9ba12cdd78cee'
+          + '8263048d8fed950',
+    ];
+
+    // version 5-Q with two blocks of 15 and two blocks of 16 data codewords
+    const interleaved = 'fe6b5f63fc16daef506e8285dcbb75080b95dbaa1f84aec1019ec107faaaaaafe017cf4c005ef8f886d524bf28e52cb2'
+                      + 'aeffa653aa036e69a2d191b18affec9e63db595be5bb9218304cef24b54f61858dafa947f47a4e9b116355ec8ca7450a'
+                      + 'bdecc3e0a858a8580eef712762746fa3b739f61de67ecdacbcc88206b73023a32d7abf609ffa8047ab044bf913e7abb0'
+                      + '5f319f1abacb6cbfddd65e5273ae95492c7f0521044cffe31d2aec8';
+
+    describe('encodeText() should', () => {
+        it('use smallest version that fits', () => {
+            expect(QRCode.encodeText('HELLO WORLD', 'Q').version).to.be.equal(1);
+            expect(QRCode.encodeBinary(Buffer.alloc(17), 'L').version).to.be.equal(1);
+            expect(QRCode.encodeBinary(Buffer.alloc(18), 'L').version).to.be.equal(2);
+            expect(QRCode.encodeNumeric('1'.repeat(41), 'L').version).to.be.equal(1);
+            expect(QRCode.encodeNumeric('1'.repeat(42), 'L').version).to.be.equal(2);
+            expect(QRCode.encodeBinary(Buffer.alloc(2953), 'L').version).to.be.equal(40);
+        });
+
+        it('draw finder patterns and timing patterns', () => {
+            const qr = QRCode.encodeText('https://github.com/nemtech/NIP/issues/12');
+
+            expect(qr.size).to.be.equal(qr.version * 4 + 17);
+            expect(hasFinder(qr, 0, 0)).to.be.equal(true);
+            expect(hasFinder(qr, qr.size - 7, 0)).to.be.equal(true);
+            expect(hasFinder(qr, 0, qr.size - 7)).to.be.equal(true);
+            for (let i = 8; i < qr.size - 8; i++) {
+                expect(qr.getModule(i, 6)).to.be.equal(i % 2 === 0);
+                expect(qr.getModule(6, i)).to.be.equal(i % 2 === 0);
+            }
+        });
+
+        it('draw format information of level and mask', () => {
+            (['L', 'M', 'Q', 'H'] as Array<'L' | 'M' | 'Q' | 'H'>).forEach((level) => {
+                const qr = QRCode.encodeText('nem2-hd-wallets', level);
+                expect(readFormat(qr)).to.be.deep.equal({level, mask: qr.mask});
+            });
+        });
+
+        it('use given mask pattern', () => {
+            const qr = QRCode.encodeSegments([QRCode.makeNumeric('0123456789')], 'M', 1, 40, 5);
+
+            expect(qr.mask).to.be.equal(5);
+            expect(readFormat(qr).mask).to.be.equal(5);
+        });
+
+        it('match known symbols of each error correction level', () => {
+            Object.keys(levels).forEach((level) => {
+                const qr = QRCode.encodeText('nem2-hd', level as 'L' | 'M' | 'Q' | 'H');
+
+                expect(qr.mask).to.be.equal(levels[level].mask);
+                expect(toHex(qr)).to.be.equal(levels[level].modules);
+            });
+        });
+
+        it('match known symbols of each mask pattern', () => {
+            masks.forEach((modules, mask) => {
+                const qr = QRCode.encodeSegments([QRCode.makeBytes(Buffer.from('nem2-hd'))], 'M', 1, 40, mask);
+                expect(toHex(qr)).to.be.equal(modules);
+            });
+        });
+
+        it('match known symbol with interleaved blocks', () => {
+            const qr = QRCode.encodeText('The quick brown fox jumps over the lazy dog 0123456789', 'Q');
+
+            expect(qr.version).to.be.equal(5);
+            expect(toHex(qr)).to.be.equal(interleaved);
+        });
+
+        it('throw given data too long', () => {
+            expect((function () {
+                QRCode.encodeBinary(Buffer.alloc(2954), 'L');
+            })).to.throw('Data too long to fit in a QR code.');
+        });
+
+        it('throw given invalid numeric data', () => {
+            expect((function () {
+                QRCode.encodeNumeric('12a');
+            })).to.throw('Numeric mode data must only contain digits.');
+        });
+    });
+
+    describe('QRRenderer.toSVG() should', () => {
+        it('render dark modules as path with border', () => {
+            const qr = QRCode.encodeText('HELLO', 'L');
+            const svg = QRRenderer.toSVG(qr, {scale: 2, border: 1});
+
+            expect(svg).to.contain('width="46" height="46" viewBox="0 0 23 23"');
+            expect(svg).to.contain('M1,1h1v1h-1z');
+            expect(svg.match(/h1v1h-1z/g)!.length).to.be.equal(
+                qr.modules.reduce((sum, row) => sum + row.filter((module) => module).length, 0));
+        });
+    });
+
+    describe('QRRenderer.toASCII() should', () => {
+        it('render two characters per module', () => {
+            const qr = QRCode.encodeText('HELLO', 'L');
+            const lines = QRRenderer.toASCII(qr, 2).split('\n');
+
+            expect(lines.length).to.be.equal(25);
+            expect(lines[0]).to.be.equal(' '.repeat(50));
+            expect(lines[2]).to.match(/^    ##############  /);
+        });
+    });
+});
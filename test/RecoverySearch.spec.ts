@@ -0,0 +1,175 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    CancellationToken,
+    CurveAlgorithm,
+    ExtendedKey,
+    MnemonicPassPhrase,
+    Network,
+    RecoveryProgress,
+    RecoverySearch,
+    Wallet,
+} from "../index";
+
+describe('RecoverySearch -->', function () {
+
+    // seed derivation of candidates and worker threads startup
+    this.timeout(30000);
+
+    const words = ['forum', 'undo', 'fragile', 'fade', 'shy', 'sign', 'arrest', 'garment', 'culture', 'tube', 'off', 'merit'];
+    const mnemonic = new MnemonicPassPhrase(words.join(' '));
+    const xkey = ExtendedKey.createFromSeed(mnemonic.toSeed().toString('hex'), Network.CATAPULT);
+    const account = new Wallet(xkey).getChildPublicAccount();
+    const target = {address: account.address.pretty()};
+
+    describe('forMnemonic() should', () => {
+        it('count candidates of word patterns', () => {
+            const unknown = words.slice(0, 4).concat(['?'], words.slice(5));
+            const prefix = words.slice(0, 4).concat(['sh*', 'sign|sing'], words.slice(6));
+
+            expect(RecoverySearch.forMnemonic(unknown, target).space.size).to.be.equal(2048);
+            expect(RecoverySearch.forMnemonic(prefix, target).space.size).to.be.equal(23 * 2);
+            expect(RecoverySearch.forMnemonic(words, target, ['', 'a', 'b']).space.size).to.be.equal(3);
+            expect(RecoverySearch.forMnemonic(words, target, [''], [0, 1, 2]).space.size).to.be.equal(6);
+            expect(RecoverySearch.forMnemonic(words.slice(1), target).space.size).to.be.equal(12 * 2048);
+        });
+
+        it('enumerate all orders of words at permute positions', () => {
+            const space = RecoverySearch.forMnemonic(words, target, [''], [0, 1, 2]).space;
+            const firsts = Array.from({length: space.size}, (_, i) => space.getCandidate(i).mnemonic.split(' ').slice(0, 3).join(' '));
+
+            expect(firsts.filter((first, i) => firsts.indexOf(first) === i).length).to.be.equal(6);
+            expect(firsts[0]).to.be.equal('forum undo fragile');
+            expect(firsts[5]).to.be.equal('fragile undo forum');
+        });
+
+        it('throw given word pattern without matching word', () => {
+            expect((function () {
+                RecoverySearch.forMnemonic(words.slice(0, 11).concat(['xyzzy']), target);
+            })).to.throw('No word of wordlist "english" matches "xyzzy" at position 11.');
+        });
+
+        it('throw given invalid number of words', () => {
+            expect((function () {
+                RecoverySearch.forMnemonic(words.slice(0, 10), target);
+            })).to.throw('Invalid number of words: 10.');
+        });
+
+        it('throw given missing word and permute positions', () => {
+            expect((function () {
+                RecoverySearch.forMnemonic(words.slice(1), target, [''], [0, 1]);
+            })).to.throw('Cannot search a missing word and words in any order at the same time.');
+        });
+
+        it('throw given target without public key and address', () => {
+            expect((function () {
+                RecoverySearch.forMnemonic(words, {});
+            })).to.throw('Recovery target needs a public key or an address.');
+        });
+
+        it('throw given unregistered network', () => {
+            const network = new Network(0x01020304, 0x01020305, CurveAlgorithm.ed25519, 43);
+            expect((function () {
+                RecoverySearch.forMnemonic(words, {address: target.address, network: network});
+            })).to.throw('Network is not supported by recovery searches.');
+        });
+    });
+
+    describe('run() should', () => {
+        it('find unreadable word given address', () => {
+            const pattern = words.slice(0, 7).concat(['?'], words.slice(8));
+            return RecoverySearch.forMnemonic(pattern, target).run({workers: 0}).then((found) => {
+                expect(found.length).to.be.equal(1);
+                expect(found[0].mnemonic).to.be.equal(mnemonic.plain);
+                expect(found[0].password).to.be.equal('');
+            });
+        });
+
+        it('find missing word at unknown position given public key', () => {
+            const search = RecoverySearch.forMnemonic(words.slice(1), {publicKey: account.publicKey});
+            return search.run({workers: 0}).then((found) => {
+                expect(found.length).to.be.equal(1);
+                expect(found[0].mnemonic).to.be.equal(mnemonic.plain);
+            });
+        });
+
+        it('find words in wrong order', () => {
+            const swapped = [words[2], words[0], words[1]].concat(words.slice(3));
+            return RecoverySearch.forMnemonic(swapped, target, [''], [0, 1, 2]).run({workers: 0}).then((found) => {
+                expect(found.map((candidate) => candidate.mnemonic)).to.be.deep.equal([mnemonic.plain]);
+            });
+        });
+
+        it('find password given password parts', () => {
+            const protectedKey = ExtendedKey.createFromSeed(mnemonic.toSeed('Mysecret!').toString('hex'), Network.CATAPULT);
+            const address = new Wallet(protectedKey).getChildPublicAccount().address.plain();
+            const search = RecoverySearch.forPassword(mnemonic, [['my', 'My'], ['secret'], ['', '1', '!']], {address});
+
+            return search.run({workers: 0, findAll: true}).then((found) => {
+                expect(search.space.size).to.be.equal(6);
+                expect(found.map((candidate) => candidate.password)).to.be.deep.equal(['Mysecret!']);
+            });
+        });
+
+        it('return empty list given no matching candidate', () => {
+            const search = RecoverySearch.forPassword(mnemonic, [['a', 'b']], target);
+            return search.run({workers: 0}).then((found) => {
+                expect(found).to.be.deep.equal([]);
+            });
+        });
+
+        it('find unreadable word on worker threads and report progress', () => {
+            const pattern = words.slice(0, 10).concat(['?', 'merit']);
+            const progress: RecoveryProgress[] = [];
+
+            return RecoverySearch.forMnemonic(pattern, target).run({
+                workers: 2,
+                chunkSize: 256,
+                findAll: true,
+                onProgress: (p: RecoveryProgress) => progress.push(p),
+            }).then((found) => {
+                expect(found.length).to.be.equal(1);
+                expect(found[0].mnemonic).to.be.equal(mnemonic.plain);
+                expect(progress.length).to.be.equal(8);
+                expect(progress[progress.length - 1].checked).to.be.equal(2048);
+                expect(progress[progress.length - 1].total).to.be.equal(2048);
+                expect(progress[progress.length - 1].eta).to.be.equal(0);
+                expect(progress[0].rate).to.be.above(0);
+            });
+        });
+
+        it('reject when cancelled', () => {
+            const token = new CancellationToken();
+            const pattern = words.slice(0, 10).concat(['?', 'merit']);
+            const promise = RecoverySearch.forMnemonic(pattern, target).run({
+                workers: 1,
+                cancellation: token,
+                onProgress: () => token.cancel(),
+            });
+
+            return promise.then(
+                () => { throw new Error('Expected rejection.'); },
+                (e: Error) => expect(e.message).to.be.equal('Operation was cancelled.'),
+            );
+        });
+    });
+});
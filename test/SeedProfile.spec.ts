@@ -0,0 +1,211 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    pbkdf2Sync,
+    scryptSync,
+} from 'crypto';
+import {
+    CancellationToken,
+    Cryptography,
+    MnemonicPassPhrase,
+    SeedProfile,
+} from "../index";
+
+describe('SeedProfile -->', () => {
+
+    const mnemonic = new MnemonicPassPhrase('alpha pattern real admit vacuum wall ready code correct program depend valid focus basket whisper firm tray fit rally day dance demise engine mango');
+    const secret = Buffer.from(mnemonic.plain, 'utf8');
+    const salt = Buffer.from('mnemonicpassword', 'utf8');
+    const customization = Buffer.from('nem2-hd-wallets seed', 'utf8');
+
+    describe('constructor should', () => {
+        it('throw given unsupported key derivation function', () => {
+            expect((function () {
+                new SeedProfile('argon2' as any, {});
+            })).to.throw('Seed key derivation function "argon2" is not supported.');
+        });
+
+        it('throw given missing or invalid parameters', () => {
+            expect((function () {
+                new SeedProfile('scrypt', {n: 1024});
+            })).to.throw('Invalid parameters for seed key derivation function "scrypt".');
+
+            expect((function () {
+                SeedProfile.kmac(1.5);
+            })).to.throw('Invalid parameters for seed key derivation function "kmac".');
+        });
+
+        it('throw given less PBKDF2 rounds than BIP39', () => {
+            expect((function () {
+                SeedProfile.pbkdf2(1000);
+            })).to.throw('PBKDF2 rounds must be at least 2048.');
+        });
+
+        it('throw given less KMAC rounds than BIP39', () => {
+            expect((function () {
+                SeedProfile.kmac(2047);
+            })).to.throw('KMAC rounds must be at least 2048.');
+
+            expect((function () {
+                SeedProfile.fromDescriptor('kmac256(c=1)');
+            })).to.throw('KMAC rounds must be at least 2048.');
+        });
+
+        it('throw given scrypt cost not a power of 2', () => {
+            expect((function () {
+                SeedProfile.scrypt(1000);
+            })).to.throw('Scrypt cost must be a power of 2.');
+        });
+    });
+
+    describe('toDescriptor() should', () => {
+        it('describe the key derivation function and parameters', () => {
+            expect(SeedProfile.BIP39.toDescriptor()).to.be.equal('bip39');
+            expect(SeedProfile.pbkdf2(100000).toDescriptor()).to.be.equal('pbkdf2-hmac-sha512(c=100000)');
+            expect(SeedProfile.scrypt(32768).toDescriptor()).to.be.equal('scrypt(n=32768,r=8,p=1)');
+            expect(SeedProfile.kmac(4096).toDescriptor()).to.be.equal('kmac256(c=4096)');
+        });
+    });
+
+    describe('fromDescriptor() should', () => {
+        it('round-trip descriptors', () => {
+            [
+                SeedProfile.BIP39,
+                SeedProfile.pbkdf2(100000),
+                SeedProfile.scrypt(16384, 16, 2),
+                SeedProfile.kmac(4096),
+            ].forEach((profile) => {
+                const parsed = SeedProfile.fromDescriptor(profile.toDescriptor());
+                expect(parsed.kdf).to.be.equal(profile.kdf);
+                expect(parsed.params).to.deep.equal(profile.params);
+            });
+        });
+
+        it('return the standard profile given bip39', () => {
+            expect(SeedProfile.fromDescriptor('bip39')).to.be.equal(SeedProfile.BIP39);
+            expect(SeedProfile.fromDescriptor('bip39').isStandard()).to.be.equal(true);
+        });
+
+        it('throw given invalid descriptor', () => {
+            expect((function () {
+                SeedProfile.fromDescriptor('argon2id(t=3)');
+            })).to.throw('Invalid seed profile descriptor "argon2id(t=3)".');
+
+            expect((function () {
+                SeedProfile.fromDescriptor('scrypt(n=abc)');
+            })).to.throw('Invalid seed profile descriptor "scrypt(n=abc)".');
+
+            expect((function () {
+                SeedProfile.fromDescriptor('scrypt(n=1024)');
+            })).to.throw('Invalid parameters for seed key derivation function "scrypt".');
+        });
+    });
+
+    describe('deriveSeed() should', () => {
+        it('derive the BIP39 seed given standard profile', () => {
+            const seed = SeedProfile.BIP39.deriveSeed(mnemonic.plain, 'password');
+            expect(seed.toString('hex')).to.be.equal(mnemonic.toSeed('password').toString('hex'));
+        });
+
+        it('derive the BIP39 seed given PBKDF2 with 2048 rounds', () => {
+            const seed = SeedProfile.pbkdf2(2048).deriveSeed(mnemonic.plain, 'password');
+            expect(seed.toString('hex')).to.be.equal(mnemonic.toSeed('password').toString('hex'));
+        });
+
+        it('derive PBKDF2-HMAC-SHA512 seed with more rounds', () => {
+            const seed = SeedProfile.pbkdf2(4096).deriveSeed(mnemonic.plain, 'password');
+            const expected = pbkdf2Sync(secret, salt, 4096, 64, 'sha512');
+            expect(seed.toString('hex')).to.be.equal(expected.toString('hex'));
+        });
+
+        it('derive scrypt seed', () => {
+            const seed = SeedProfile.scrypt(1024).deriveSeed(mnemonic.plain, 'password');
+            const expected = scryptSync(secret, salt, 64, {N: 1024, r: 8, p: 1});
+            expect(seed.toString('hex')).to.be.equal(expected.toString('hex'));
+        });
+
+        it('derive iterated KMAC256 seed', () => {
+            // U_1 = KMAC(P, S), U_i = KMAC(P, U_i-1) and T = U_1 ^ U_2 ^ ... ^ U_c
+            let last = Cryptography.KMAC(secret, salt, customization);
+            const expected = Buffer.from(last);
+            for (let round = 1; round < 2048; round++) {
+                last = Cryptography.KMAC(secret, last, customization);
+                last.forEach((byte, i) => expected[i] ^= byte);
+            }
+
+            const seed = SeedProfile.kmac(2048).deriveSeed(mnemonic.plain, 'password');
+            expect(seed.toString('hex')).to.be.equal(expected.toString('hex'));
+        });
+
+        it('derive different seeds with different profiles', () => {
+            const seeds = [
+                SeedProfile.BIP39,
+                SeedProfile.pbkdf2(4096),
+                SeedProfile.scrypt(1024),
+                SeedProfile.kmac(2048),
+            ].map((profile) => profile.deriveSeed(mnemonic.plain).toString('hex'));
+
+            expect(seeds.filter((seed, i) => seeds.indexOf(seed) === i).length).to.be.equal(4);
+        });
+    });
+
+    describe('deriveSeedAsync() should', () => {
+        it('derive the same seeds as deriveSeed()', () => {
+            const profiles = [
+                SeedProfile.BIP39,
+                SeedProfile.pbkdf2(4096),
+                SeedProfile.scrypt(1024),
+                SeedProfile.kmac(2500),
+            ];
+
+            return Promise.all(profiles.map((profile) => profile.deriveSeedAsync(mnemonic.plain, 'password'))).then((seeds) => {
+                seeds.forEach((seed, i) => {
+                    const expected = profiles[i].deriveSeed(mnemonic.plain, 'password');
+                    expect(seed.toString('hex')).to.be.equal(expected.toString('hex'));
+                });
+            });
+        });
+
+        it('reject when cancelled between KMAC rounds', () => {
+            const token = new CancellationToken();
+            const promise = SeedProfile.kmac(4096).deriveSeedAsync(mnemonic.plain, 'password', token);
+
+            // runs after the first step of 1024 rounds
+            setImmediate(() => token.cancel());
+
+            return promise.then(
+                () => { throw new Error('Expected rejection.'); },
+                (e: Error) => expect(e.message).to.be.equal('Operation was cancelled.'),
+            );
+        });
+
+        it('reject given cancelled token', () => {
+            const token = new CancellationToken();
+            token.cancel();
+
+            return SeedProfile.scrypt(1024).deriveSeedAsync(mnemonic.plain, 'password', token).then(
+                () => { throw new Error('Expected rejection.'); },
+                (e: Error) => expect(e.message).to.be.equal('Operation was cancelled.'),
+            );
+        });
+    });
+});
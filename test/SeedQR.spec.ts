@@ -0,0 +1,127 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    MnemonicPassPhrase,
+    QRCode,
+    SeedQR,
+} from "../index";
+
+describe('SeedQR -->', () => {
+
+    // https://github.com/SeedSigner/seedsigner/blob/dev/docs/seed_qr/README.md
+    const words12 = 'forum undo fragile fade shy sign arrest garment culture tube off merit';
+    const digits12 = '073318950739065415961602009907670428187212261116';
+    const compact12 = '5bbd9d71a8ec7990831aff359d426545';
+
+    const words24 = 'attack pizza motion avocado network gather crop fresh patrol unusual wild holiday'
+                  + ' candy pony ranch winter theme error hybrid van cereal salon goddess expire';
+    const digits24 = '0115132511540127119007710415074212891906200808700266134314202016'
+                   + '17920614089619290300152408010643';
+
+    // modules in row-major order, 4 per hexadecimal digit padded with zeros
+    const toHex = (qr: QRCode) => {
+        const bits = qr.modules.map((row) => row.map((module) => module ? '1' : '0').join('')).join('');
+        const padded = bits + '0'.repeat((4 - bits.length % 4) % 4);
+        return padded.replace(/[01]{4}/g, (nibble) => parseInt(nibble, 2).toString(16));
+    };
+
+    // symbols of words12, cross-checked with the Nayuki QR code generator and decoded with jsQR
+    const symbol12 = 'fe483fc14c906ebeebb74eb5dba872ec16a507faaafe019500d321bb4e198f6fb93bc13087cd38b8db2dc2d2ef23e4e9'
+                   + 'd99ec3d7ff8071473fa12ab04ab12ba3bfa5d5ef4ae87fa3057beafe929e8';
+    const compactSymbol12 = 'fe0bfc14d06e96bb75b5dba22ec17d07faafe00400fbcd56ec42e7de7a72f433ad1e807c6bfb19d0472cba9cc5d49dae'
+                          + 'b2b9056e0feb790';
+
+    describe('encode() should', () => {
+        it('return 4-digit word indices', () => {
+            expect(SeedQR.encode(new MnemonicPassPhrase(words12))).to.be.equal(digits12);
+            expect(SeedQR.encode(new MnemonicPassPhrase(words24))).to.be.equal(digits24);
+        });
+
+        it('throw given invalid mnemonic pass phrase', () => {
+            expect((function () {
+                SeedQR.encode(new MnemonicPassPhrase('forum undo fragile'));
+            })).to.throw('Invalid mnemonic pass phrase.');
+        });
+    });
+
+    describe('encodeCompact() should', () => {
+        it('return entropy bytes', () => {
+            expect(SeedQR.encodeCompact(new MnemonicPassPhrase(words12)).toString('hex')).to.be.equal(compact12);
+        });
+    });
+
+    describe('decode() should', () => {
+        it('decode standard SeedQR digit stream', () => {
+            expect(SeedQR.decode(digits12).plain).to.be.equal(words12);
+            expect(SeedQR.decode(digits24).plain).to.be.equal(words24);
+        });
+
+        it('decode CompactSeedQR bytes', () => {
+            expect(SeedQR.decode(Buffer.from(compact12, 'hex')).plain).to.be.equal(words12);
+        });
+
+        it('decode in given language', () => {
+            const japanese = new MnemonicPassPhrase(words12).translate('japanese');
+            expect(SeedQR.decode(digits12, 'japanese').plain).to.be.equal(japanese.plain);
+        });
+
+        it('throw given invalid payload', () => {
+            expect((function () {
+                SeedQR.decode(digits12.substr(4));
+            })).to.throw('Invalid SeedQR, must be 4 digits for each of 12, 15, 18, 21 or 24 words.');
+
+            expect((function () {
+                SeedQR.decode('2048' + digits12.substr(4));
+            })).to.throw('Invalid SeedQR word index 2048.');
+
+            expect((function () {
+                SeedQR.decode(Buffer.alloc(15));
+            })).to.throw('Invalid CompactSeedQR length');
+        });
+
+        it('throw given invalid checksum', () => {
+            expect((function () {
+                SeedQR.decode(digits12.substr(0, 44) + '0000');
+            })).to.throw('Invalid SeedQR, mnemonic checksum mismatch.');
+        });
+    });
+
+    describe('toQRCode() should', () => {
+        it('use SeedSigner symbol sizes', () => {
+            const mnemonic12 = new MnemonicPassPhrase(words12);
+            const mnemonic24 = new MnemonicPassPhrase(words24);
+
+            expect(SeedQR.toQRCode(mnemonic12).size).to.be.equal(25);
+            expect(SeedQR.toQRCode(mnemonic24).size).to.be.equal(29);
+            expect(SeedQR.toQRCode(mnemonic12, true).size).to.be.equal(21);
+            expect(SeedQR.toQRCode(mnemonic24, true).size).to.be.equal(25);
+            expect(SeedQR.toQRCode(mnemonic12).errorCorrection).to.be.equal('L');
+        });
+
+        it('match known SeedQR and CompactSeedQR symbols', () => {
+            const mnemonic = new MnemonicPassPhrase(words12);
+
+            expect(toHex(SeedQR.toQRCode(mnemonic))).to.be.equal(symbol12);
+            expect(toHex(SeedQR.toQRCode(mnemonic, true))).to.be.equal(compactSymbol12);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    MnemonicPassPhrase,
+    SeedXOR,
+} from "../index";
+
+/**
+ * Seed XOR Unit Tests
+ *
+ * The 24 words example is taken from the Seed XOR documentation.
+ *
+ * @see https://seedxor.com
+ */
+describe('SeedXOR -->', () => {
+
+    const parts = [
+        'romance wink lottery autumn shop bring dawn tongue range crater truth ability miss spice fitness easy legal release recall obey exchange recycle dragon room',
+        'lion misery divide hurry latin fluid camp advance illegal lab pyramid unaware eager fringe sick camera series noodle toy crowd jeans select depth lounge',
+        'vault nominee cradle silk own frown throw leg cactus recall talent worry gadget surface shy planet purpose coffee drip few seven term squeeze educate',
+    ];
+    const secret = 'silent toe meat possible chair blossom wait occur this worth option bag nurse find fish scene bench asthma bike wage world quit primary indoor';
+
+    describe('combine() should', () => {
+        it('recover mnemonic pass phrase of documentation example', () => {
+            const recovered = SeedXOR.combine(parts.map((part) => new MnemonicPassPhrase(part)));
+            expect(recovered.plain).to.be.equal(secret);
+        });
+
+        it('recover mnemonic pass phrase given parts in any order', () => {
+            const recovered = SeedXOR.combine([parts[2], parts[0], parts[1]].map((part) => new MnemonicPassPhrase(part)));
+            expect(recovered.plain).to.be.equal(secret);
+        });
+
+        it('XOR entropies of parts', () => {
+            const zero = new MnemonicPassPhrase('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+            const ones = new MnemonicPassPhrase('zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong');
+            expect(SeedXOR.combine([zero, ones]).plain).to.be.equal(ones.plain);
+            expect(SeedXOR.combine([ones, ones]).plain).to.be.equal(zero.plain);
+        });
+
+        it('throw given less than 2 parts', () => {
+            expect((function () {
+                SeedXOR.combine([new MnemonicPassPhrase(parts[0])]);
+            })).to.throw('Seed XOR needs at least 2 parts.');
+        });
+
+        it('throw given invalid part', () => {
+            expect((function () {
+                SeedXOR.combine([new MnemonicPassPhrase(parts[0]), new MnemonicPassPhrase(parts[1].replace('lion', 'lamp'))]);
+            })).to.throw('Invalid mnemonic pass phrase.');
+        });
+
+        it('throw given parts with different numbers of words', () => {
+            expect((function () {
+                SeedXOR.combine([new MnemonicPassPhrase(parts[0]), MnemonicPassPhrase.createRandom('english', 128)]);
+            })).to.throw('Seed XOR parts must have the same number of words.');
+        });
+    });
+
+    describe('split() should', () => {
+        it('create valid parts with the same number of words and language', () => {
+            const mnemonic = MnemonicPassPhrase.createRandom('japanese', 128);
+            const split = SeedXOR.split(mnemonic, 4);
+
+            expect(split.length).to.be.equal(4);
+            split.forEach((part) => {
+                expect(part.isValid()).to.be.equal(true);
+                expect(part.getLanguage()).to.be.equal('japanese');
+                expect(part.toEntropy().length).to.be.equal(32);
+                expect(part.plain).to.not.be.equal(mnemonic.plain);
+            });
+        });
+
+        it('create parts which combine to the original mnemonic pass phrase', () => {
+            const mnemonic = new MnemonicPassPhrase(secret);
+            const split = SeedXOR.split(mnemonic);
+
+            expect(split.length).to.be.equal(SeedXOR.DEFAULT_PARTS);
+            expect(SeedXOR.combine(split).plain).to.be.equal(secret);
+            expect(SeedXOR.combine(split.slice(1)).plain).to.not.be.equal(secret);
+        });
+
+        it('use given random number generator', () => {
+            const mnemonic = new MnemonicPassPhrase(secret);
+            const rng = (size: number) => Buffer.alloc(size, 0x5a);
+            const split = SeedXOR.split(mnemonic, 2, rng);
+
+            expect(split[0].toEntropy()).to.be.equal('5a'.repeat(32));
+            expect(SeedXOR.combine(split).plain).to.be.equal(secret);
+        });
+
+        it('throw given invalid number of parts', () => {
+            expect((function () {
+                SeedXOR.split(new MnemonicPassPhrase(secret), 1);
+            })).to.throw('Seed XOR needs at least 2 parts.');
+        });
+
+        it('throw given invalid mnemonic pass phrase', () => {
+            expect((function () {
+                SeedXOR.split(new MnemonicPassPhrase('alpha pattern'));
+            })).to.throw('Invalid mnemonic pass phrase.');
+        });
+    });
+});
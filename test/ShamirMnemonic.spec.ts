@@ -0,0 +1,246 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    ExtendedKey,
+    MnemonicPassPhrase,
+    ShamirMnemonic,
+    ShamirShare,
+} from "../index";
+
+/**
+ * SLIP-39 Unit Tests
+ *
+ * Test vectors are taken from the SLIP-39 reference implementation
+ * and use the passphrase "TREZOR".
+ *
+ * @see https://github.com/trezor/python-shamir-mnemonic/blob/master/vectors.json
+ */
+describe('ShamirMnemonic -->', () => {
+
+    const passphrase = 'TREZOR';
+    const valid = [
+        {description: 'Valid mnemonic without sharing (128 bits)',
+         mnemonics: [
+            'duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision keyboard'],
+         secret: 'bb54aac4b89dc868ba37d9cc21b2cece',
+         xprv: 'xprv9s21ZrQH143K4QViKpwKCpS2zVbz8GrZgpEchMDg6KME9HZtjfL7iThE9w5muQA4YPHKN1u5VM1w8D4pvnjxa2BmpGMfXr7hnRrRHZ93awZ'},
+        {description: 'Basic sharing 2-of-3 (128 bits)',
+         mnemonics: [
+            'shadow pistol academic always adequate wildlife fancy gross oasis cylinder mustang wrist rescue view short owner flip making coding armed',
+            'shadow pistol academic acid actress prayer class unknown daughter sweater depict flip twice unkind craft early superior advocate guest smoking'],
+         secret: 'b43ceb7e57a0ea8766221624d01b0864',
+         xprv: 'xprv9s21ZrQH143K2nNuAbfWPHBtfiSCS14XQgb3otW4pX655q58EEZeC8zmjEUwucBu9dPnxdpbZLCn57yx45RBkwJHnwHFjZK4XPJ8SyeYjYg'},
+        {description: 'Threshold number of groups and members in each group (128 bits)',
+         mnemonics: [
+            'eraser senior decision smug corner ruin rescue cubic angel tackle skin skunk program roster trash rumor slush angel flea amazing',
+            'eraser senior beard romp adorn nuclear spill corner cradle style ancient family general leader ambition exchange unusual garlic promise voice',
+            'eraser senior decision scared cargo theory device idea deliver modify curly include pancake both news skin realize vitamins away join'],
+         secret: '7c3397a292a5941682d7a4ae2d898d11',
+         xprv: 'xprv9s21ZrQH143K3dzDLfeY3cMp23u5vDeFYftu5RPYZPucKc99mNEddU4w99GxdgUGcSfMpVDxhnR1XpJzZNXRN1m6xNgnzFS5MwMP6QyBRKV'},
+        {description: 'Valid mnemonic without sharing (256 bits)',
+         mnemonics: [
+            'theory painting academic academic armed sweater year military elder discuss acne wildlife boring employer fused large satoshi bundle carbon diagnose anatomy hamster leaves tracks paces beyond phantom capital marvel lips brave detect luck'],
+         secret: '989baf9dcaad5b10ca33dfd8cc75e42477025dce88ae83e75a230086a0e00e92',
+         xprv: 'xprv9s21ZrQH143K41mrxxMT2FpiheQ9MFNmWVK4tvX2s28KLZAhuXWskJCKVRQprq9TnjzzzEYePpt764csiCxTt22xwGPiRmUjYUUdjaut8RM'},
+        {description: 'Basic sharing 2-of-3 (256 bits)',
+         mnemonics: [
+            'humidity disease academic always aluminum jewelry energy woman receiver strategy amuse duckling lying evidence network walnut tactics forget hairy rebound impulse brother survive clothes stadium mailman rival ocean reward venture always armed unwrap',
+            'humidity disease academic agency actress jacket gross physics cylinder solution fake mortgage benefit public busy prepare sharp friar change work slow purchase ruler again tricycle involve viral wireless mixture anatomy desert cargo upgrade'],
+         secret: 'c938b319067687e990e05e0da0ecce1278f75ff58d9853f19dcaeed5de104aae',
+         xprv: 'xprv9s21ZrQH143K3a4GRMgK8WnawupkwkP6gyHxRsXnMsYPTPH21fWwNcAytijtfyftqNfiaY8LgQVdBQvHZ9FBvtwdjC7LCYxjYruJFuLzyMQ'},
+        {description: 'Extendable basic sharing 2-of-3 (128 bits)',
+         mnemonics: [
+            'enemy favorite academic acid cowboy phrase havoc level response walnut budget painting inside trash adjust froth kitchen learn tidy punish',
+            'enemy favorite academic always academic sniff script carpet romp kind promise scatter center unfair training emphasis evening belong fake enforce'],
+         secret: '48b1a4b80b8c209ad42c33672bdaa428',
+         xprv: 'xprv9s21ZrQH143K4FS1qQdXYAFVAHiSAnjj21YAKGh2CqUPJ2yQhMmYGT4e5a2tyGLiVsRgTEvajXkxhg92zJ8zmWZas9LguQWz7WZShfJg6RS'},
+    ];
+
+    const invalid = [
+        {description: 'Mnemonic with invalid checksum (128 bits)',
+         mnemonics: [
+            'duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision kidney'],
+         error: 'Invalid mnemonic checksum.'},
+        {description: 'Mnemonic with invalid padding (128 bits)',
+         mnemonics: [
+            'duckling enlarge academic academic email result length solution fridge kidney coal piece deal husband erode duke ajar music cargo fitness'],
+         error: 'Invalid mnemonic padding.'},
+        {description: 'Mnemonics with different identifiers (128 bits)',
+         mnemonics: [
+            'adequate smoking academic acid debut wine petition glen cluster slow rhyme slow simple epidemic rumor junk tracks treat olympic tolerate',
+            'adequate stay academic agency agency formal party ting frequent learn upstairs remember smear leaf damage anatomy ladle market hush corner'],
+         error: 'All mnemonics must begin with the same 2 words.'},
+        {description: 'Mnemonics with duplicate member indices (128 bits)',
+         mnemonics: [
+            'device stay academic always dive coal antenna adult black exceed stadium herald advance soldier busy dryer daughter evaluate minister laser',
+            'device stay academic always dwarf afraid robin gravity crunch adjust soul branch walnut coastal dream costume scholar mortgage mountain pumps'],
+         error: 'Share indices must be unique.'},
+        {description: 'Mnemonics giving an invalid digest (128 bits)',
+         mnemonics: [
+            'guilt walnut academic acid deliver remove equip listen vampire tactics nylon rhythm failure husband fatigue alive blind enemy teaspoon rebound',
+            'guilt walnut academic agency brave hamster hobo declare herd taste alpha slim criminal mild arcade formal romp branch pink ambition'],
+         error: 'Invalid digest of the shared secret.'},
+        {description: 'Insufficient number of groups (128 bits)',
+         mnemonics: [
+            'eraser senior beard romp adorn nuclear spill corner cradle style ancient family general leader ambition exchange unusual garlic promise voice'],
+         error: 'Insufficient number of mnemonic groups.'},
+        {description: 'Mnemonic with insufficient length',
+         mnemonics: [
+            'junk necklace academic academic acne isolate join hesitate lunar roster dough calcium chemical ladybug amount mobile glasses verify cylinder'],
+         error: 'Invalid mnemonic length.'},
+        {description: 'Mnemonic with invalid master secret length',
+         mnemonics: [
+            'fraction necklace academic academic award teammate mouse regular testify coding building member verdict purchase blind camera duration email prepare spirit quarter'],
+         error: 'Invalid mnemonic length.'},
+    ];
+
+    describe('ShamirMnemonic.recoverMasterSecret() should', () => {
+        valid.forEach((vector) => {
+            it('recover master secret given ' + vector.description, () => {
+                const secret = ShamirMnemonic.recoverMasterSecret(vector.mnemonics, passphrase);
+                expect(secret.toString('hex')).to.be.equal(vector.secret);
+            });
+        });
+
+        invalid.forEach((vector) => {
+            it('throw given ' + vector.description, () => {
+                expect((function () {
+                    ShamirMnemonic.recoverMasterSecret(vector.mnemonics, passphrase);
+                })).to.throw(vector.error);
+            });
+        });
+
+        it('throw given empty list of mnemonics', () => {
+            expect((function () {
+                ShamirMnemonic.recoverMasterSecret([]);
+            })).to.throw('The list of mnemonics is empty.');
+        });
+    });
+
+    describe('ShamirMnemonic.recoverSeed() should', () => {
+        valid.forEach((vector) => {
+            it('return seed usable with ExtendedKey.createFromSeed() given ' + vector.description, () => {
+                const seed = ShamirMnemonic.recoverSeed(vector.mnemonics, passphrase);
+                const xkey = ExtendedKey.createFromSeed(seed);
+                expect(xkey.toBase58()).to.be.equal(vector.xprv);
+            });
+        });
+    });
+
+    describe('ShamirMnemonic.createShares() should', () => {
+        const secret = Buffer.from('bb54aac4b89dc868ba37d9cc21b2cece', 'hex');
+
+        it('create valid share mnemonics for each member of each group', () => {
+            const shares = ShamirMnemonic.createShares(secret, 2, [[1, 1], [2, 3], [3, 5]], passphrase);
+
+            expect(shares.length).to.be.equal(3);
+            expect(shares[0].length).to.be.equal(1);
+            expect(shares[1].length).to.be.equal(3);
+            expect(shares[2].length).to.be.equal(5);
+            shares.forEach((group) => group.forEach((mnemonic) => {
+                expect(mnemonic.split(' ').length).to.be.equal(20);
+                expect(ShamirShare.isValid(mnemonic)).to.be.equal(true);
+            }));
+        });
+
+        it('recover master secret given threshold shares in any order', () => {
+            const shares = ShamirMnemonic.createShares(secret, 2, [[1, 1], [2, 3], [3, 5]], passphrase);
+            const mnemonics = [shares[2][4], shares[1][2], shares[2][0], shares[1][0], shares[2][1]];
+            const recovered = ShamirMnemonic.recoverMasterSecret(mnemonics, passphrase);
+
+            expect(recovered.toString('hex')).to.be.equal(secret.toString('hex'));
+        });
+
+        it('recover master secret of non-extendable backups', () => {
+            const shares = ShamirMnemonic.createShares(secret, 1, [[2, 3]], passphrase, 0, false);
+            const recovered = ShamirMnemonic.recoverMasterSecret([shares[0][0], shares[0][2]], passphrase);
+
+            expect(recovered.toString('hex')).to.be.equal(secret.toString('hex'));
+        });
+
+        it('recover different master secret given wrong passphrase', () => {
+            const shares = ShamirMnemonic.createShares(secret, 1, [[2, 3]], passphrase);
+            const recovered = ShamirMnemonic.recoverMasterSecret([shares[0][0], shares[0][1]], 'wrong');
+
+            expect(recovered.toString('hex')).to.not.be.equal(secret.toString('hex'));
+        });
+
+        it('accept 256 bits master secret', () => {
+            const entropy = MnemonicPassPhrase.CATAPULT_RNG(32);
+            const shares = ShamirMnemonic.createShares(entropy, 1, [[3, 5]]);
+            const recovered = ShamirMnemonic.recoverMasterSecret(shares[0].slice(2));
+
+            expect(shares[0][0].split(' ').length).to.be.equal(33);
+            expect(recovered.toString('hex')).to.be.equal(entropy.toString('hex'));
+        });
+
+        it('throw given master secret shorter than 128 bits', () => {
+            expect((function () {
+                ShamirMnemonic.createShares(Buffer.alloc(14), 1, [[1, 1]]);
+            })).to.throw('The length of the master secret must be at least 128 bits.');
+        });
+
+        it('throw given group threshold greater than number of groups', () => {
+            expect((function () {
+                ShamirMnemonic.createShares(secret, 3, [[1, 1], [2, 3]]);
+            })).to.throw('The group threshold must be positive and not exceed the number of groups.');
+        });
+
+        it('throw given multiple member shares with member threshold 1', () => {
+            expect((function () {
+                ShamirMnemonic.createShares(secret, 1, [[1, 3]]);
+            })).to.throw('Creating multiple member shares with member threshold 1 is not allowed.');
+        });
+
+        it('throw given non-printable passphrase characters', () => {
+            expect((function () {
+                ShamirMnemonic.createShares(secret, 1, [[1, 1]], 'pässword');
+            })).to.throw('The passphrase must contain only printable ASCII characters');
+        });
+    });
+
+    describe('ShamirShare.fromMnemonic() should', () => {
+        it('decode share parameters', () => {
+            const share = ShamirShare.fromMnemonic(valid[2].mnemonics[1]);
+
+            expect(share.extendable).to.be.equal(false);
+            expect(share.iterationExponent).to.be.equal(0);
+            expect(share.groupThreshold).to.be.equal(2);
+            expect(share.groupCount).to.be.equal(4);
+            expect(share.value.byteLength).to.be.equal(16);
+        });
+
+        it('encode back to the same mnemonic', () => {
+            valid.forEach((vector) => vector.mnemonics.forEach((mnemonic) => {
+                expect(ShamirShare.fromMnemonic(mnemonic).toMnemonic()).to.be.equal(mnemonic);
+            }));
+        });
+
+        it('throw given word not in SLIP-39 wordlist', () => {
+            const words = valid[0].mnemonics[0].split(' ');
+            words[5] = 'abandon';
+            expect((function () {
+                ShamirShare.fromMnemonic(words.join(' '));
+            })).to.throw('Invalid mnemonic word "abandon".');
+        });
+    });
+});
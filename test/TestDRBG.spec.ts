@@ -0,0 +1,137 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import {
+    MnemonicPassPhrase,
+    TestDRBG,
+} from "../index";
+
+/**
+ * HMAC_DRBG Unit Tests
+ *
+ * Test vectors are taken from the NIST CAVP HMAC_DRBG (SHA-256, no
+ * prediction resistance) test vectors: 1024 bits are requested twice,
+ * the second output is expected.
+ *
+ * @see https://csrc.nist.gov/projects/cryptographic-algorithm-validation-program/random-number-generators
+ */
+describe('TestDRBG -->', () => {
+
+    const previous = process.env[TestDRBG.FLAG];
+    before(() => process.env[TestDRBG.FLAG] = '1');
+    after(() => {
+        if (previous === undefined) {
+            delete process.env[TestDRBG.FLAG];
+        }
+        else {
+            process.env[TestDRBG.FLAG] = previous;
+        }
+    });
+
+    const vectors = [
+        {
+            entropy: 'ca851911349384bffe89de1cbdc46e6831e44d34a4fb935ee285dd14b71a7488',
+            nonce: '659ba96c601dc69fc902940805ec0ca8',
+            additional: ['', ''],
+            expected: 'e528e9abf2dece54d47c7e75e5fe302149f817ea9fb4bee6f4199697d04d5b89d54fbb978a15b5c443c9ec21036d2460b6f73ebad0dc2aba6e624abf07745bc107694bb7547bb0995f70de25d6b29e2d3011bb19d27676c07162c8b5ccde0668961df86803482cb37ed6d5c0bb8d50cf1f50d476aa0458bdaba806f48be9dcb8',
+        },
+        {
+            entropy: 'd3cc4d1acf3dde0c4bd2290d262337042dc632948223d3a2eaab87da44295fbd',
+            nonce: '0109b0e729f457328aa18569a9224921',
+            additional: [
+                '3c311848183c9a212a26f27f8c6647e40375e466a0857cc39c4e47575d53f1f6',
+                'fcb9abd19ccfbccef88c9c39bfb3dd7b1c12266c9808992e305bc3cff566e4e4',
+            ],
+            expected: '9c7b758b212cd0fcecd5daa489821712e3cdea4467b560ef5ddc24ab47749a1f1ffdbbb118f4e62fcfca3371b8fbfc5b0646b83e06bfbbab5fac30ea09ea2bc76f1ea568c9be0444b2cc90517b20ca825f2d0eccd88e7175538b85d90ab390183ca6395535d34473af6b5a5b88f5a59ee7561573337ea819da0dcc3573a22974',
+        },
+    ];
+
+    describe('generate() should', () => {
+        vectors.forEach((vector, i) => {
+            it('generate expected bytes given NIST test vector #' + i, () => {
+                const drbg = new TestDRBG(Buffer.from(vector.entropy, 'hex'), Buffer.from(vector.nonce, 'hex'));
+                drbg.generate(128, Buffer.from(vector.additional[0], 'hex'));
+                expect(drbg.generate(128, Buffer.from(vector.additional[1], 'hex')).toString('hex')).to.be.equal(vector.expected);
+            });
+        });
+
+        it('throw given invalid number of bytes', () => {
+            expect((function () {
+                TestDRBG.fromSeed('seed').generate(65537);
+            })).to.throw('Invalid number of bytes: 65537.');
+        });
+    });
+
+    describe('fromSeed() should', () => {
+        it('reproduce the same bytes given the same seed and label', () => {
+            const first = TestDRBG.fromSeed('fixture seed', 'alice').generate(32).toString('hex');
+            expect(TestDRBG.fromSeed('fixture seed', 'alice').generate(32).toString('hex')).to.be.equal(first);
+            expect(TestDRBG.fromSeed('fixture seed', 'bob').generate(32).toString('hex')).to.not.be.equal(first);
+            expect(TestDRBG.fromSeed('other seed', 'alice').generate(32).toString('hex')).to.not.be.equal(first);
+        });
+
+        it('throw given empty seed', () => {
+            expect((function () {
+                TestDRBG.fromSeed('');
+            })).to.throw('Entropy input must not be empty.');
+        });
+    });
+
+    describe('reseed() should', () => {
+        it('change the generated bytes', () => {
+            const drbg = TestDRBG.fromSeed('fixture seed');
+            const other = TestDRBG.fromSeed('fixture seed');
+            other.reseed('more entropy');
+
+            expect(other.generate(32).toString('hex')).to.not.be.equal(drbg.generate(32).toString('hex'));
+        });
+    });
+
+    describe('MnemonicPassPhrase.createRandom() should', () => {
+        it('create reproducible mnemonic pass phrases', () => {
+            const mnemonic = MnemonicPassPhrase.createRandom('english', 128, TestDRBG.fromSeed('fixture seed', 'wallet').toRng());
+            const again = MnemonicPassPhrase.createRandom('english', 128, TestDRBG.fromSeed('fixture seed', 'wallet').toRng());
+
+            expect(mnemonic.isValid()).to.be.equal(true);
+            expect(again.plain).to.be.equal(mnemonic.plain);
+        });
+    });
+
+    describe('test flag should', () => {
+        it('be required to create and use a generator', () => {
+            const drbg = TestDRBG.fromSeed('fixture seed');
+            delete process.env[TestDRBG.FLAG];
+
+            try {
+                expect(TestDRBG.isEnabled()).to.be.equal(false);
+                expect((function () {
+                    TestDRBG.fromSeed('fixture seed');
+                })).to.throw('TestDRBG is not for production use, set NEM2_HD_WALLETS_TEST_DRBG=1 to enable it in tests.');
+                expect((function () {
+                    MnemonicPassPhrase.createRandom('english', 128, drbg.toRng());
+                })).to.throw('TestDRBG is not for production use');
+            }
+            finally {
+                process.env[TestDRBG.FLAG] = '1';
+            }
+        });
+    });
+});
@@ -30,6 +30,8 @@ import {
     CurveAlgorithm,
     ExtendedKey,
     KeyEncoding,
+    MACType,
+    MnemonicPassPhrase,
     Network,
     NodeInterface,
     NodeEd25519,
@@ -174,4 +176,56 @@ describe('Wallet -->', () => {
             expect(account.publicKey.toLowerCase()).to.be.equal(secondPub);
         });
     });
+
+    describe('network type should', () => {
+        it('default to the network type of the extended key network', () => {
+            const xkey = ExtendedKey.createFromSeed(masterSeed, Network.MAIN_NET);
+            const wallet = new Wallet(xkey);
+
+            expect(wallet.getAccount().address.networkType).to.be.equal(NetworkType.MAIN_NET);
+            expect(wallet.getChildPublicAccount().address.networkType).to.be.equal(NetworkType.MAIN_NET);
+            expect(wallet.getChildAccount().publicKey.toLowerCase()).to.be.equal(defaultPub);
+        });
+
+        it('default to MIJIN_TEST with Network.CATAPULT', () => {
+            const wallet = new Wallet(ExtendedKey.createFromSeed(masterSeed, Network.CATAPULT));
+            expect(wallet.getPublicAccount().address.networkType).to.be.equal(NetworkType.MIJIN_TEST);
+        });
+
+        it('use given network type', () => {
+            const wallet = new Wallet(ExtendedKey.createFromSeed(masterSeed, Network.MAIN_NET));
+            expect(wallet.getPublicAccount(NetworkType.TEST_NET).address.networkType).to.be.equal(NetworkType.TEST_NET);
+        });
+
+        it('throw given network without network type', () => {
+            expect((function () {
+                const wallet = new Wallet(ExtendedKey.createFromSeed(masterSeed, Network.BITCOIN));
+                wallet.getPublicAccount();
+            })).to.throw('Network of extended key has no network type, please provide one.');
+        });
+    });
+
+    describe('Wallet.createFromMnemonic() should', () => {
+        it('create catapult wallet with same accounts as createFromSeed', () => {
+            const mnemonic = new MnemonicPassPhrase('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+            const seed = mnemonic.toSeed('password').toString('hex');
+            const expected = new Wallet(ExtendedKey.createFromSeed(seed, Network.CATAPULT));
+
+            return Wallet.createFromMnemonic(mnemonic, 'password').then((wallet) => {
+                expect(wallet.isReadOnly()).to.be.equal(false);
+                expect(wallet.extendedKey.network).to.be.equal(Network.CATAPULT);
+                expect(wallet.getChildAccount().publicKey).to.be.equal(expected.getChildAccount().publicKey);
+            });
+        });
+
+        it('accept network before MAC type like ExtendedKey.createFromMnemonic', () => {
+            const mnemonic = new MnemonicPassPhrase('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+
+            return Wallet.createFromMnemonic(mnemonic, 'password', Network.MAIN_NET, MACType.KMAC).then((wallet) => {
+                expect(wallet.extendedKey.network).to.be.equal(Network.MAIN_NET);
+                expect((wallet.extendedKey.node as NodeEd25519).macType).to.be.equal(MACType.KMAC);
+                expect(wallet.getAccount().address.networkType).to.be.equal(NetworkType.MAIN_NET);
+            });
+        });
+    });
 });
@@ -0,0 +1,139 @@
+/**
+ * Copyright 2019 NEM
+ *
+ * Licensed under the BSD 2-Clause License (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://opensource.org/licenses/BSD-2-Clause
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+ * AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+ * IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+ * DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+ * FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+ * DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+ * SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+ * CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+ * OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+ * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+import {expect} from "chai";
+import * as bip39 from 'bip39';
+import {
+    MnemonicPassPhrase,
+    MnemonicRepair,
+    WordlistRegistry,
+} from "../index";
+
+describe('WordlistRegistry -->', () => {
+
+    // custom wordlist with reversed english words
+    const custom = bip39.wordlists.english.map((word) => word.split('').reverse().join(''));
+    const entropy = '07142acb81df09ed6cb16830957cebf865a2267ea2bae7aafac51c037474929c';
+
+    beforeEach(() => {
+        WordlistRegistry.register('reversed', custom);
+    });
+
+    afterEach(() => {
+        WordlistRegistry.unregister('reversed');
+    });
+
+    describe('register() should', () => {
+        it('add language to registered languages', () => {
+            expect(WordlistRegistry.has('reversed')).to.be.equal(true);
+            expect(WordlistRegistry.getLanguages()).to.include('reversed');
+            expect(MnemonicPassPhrase.getLanguages()).to.include('reversed');
+        });
+
+        it('throw given wordlist with invalid number of words', () => {
+            expect((function () {
+                WordlistRegistry.register('short', custom.slice(1));
+            })).to.throw('Wordlist must contain exactly 2048 words, but got: 2047 words.');
+        });
+
+        it('throw given wordlist with duplicate words', () => {
+            expect((function () {
+                WordlistRegistry.register('duplicate', custom.slice(1).concat([custom[1]]));
+            })).to.throw('Wordlist must not contain duplicate words.');
+        });
+
+        it('throw given wordlist with white-space characters', () => {
+            expect((function () {
+                WordlistRegistry.register('spaces', custom.slice(1).concat(['two words']));
+            })).to.throw('Wordlist must not contain empty words or white-space characters.');
+        });
+
+        it('throw given built-in language', () => {
+            expect((function () {
+                WordlistRegistry.register('english', custom);
+            })).to.throw('Language "english" is built-in and cannot be overwritten.');
+        });
+
+        it('throw given invalid language name', () => {
+            expect((function () {
+                WordlistRegistry.register('My List', custom);
+            })).to.throw('Language name must contain only lower-case letters, digits and underscores.');
+        });
+    });
+
+    describe('unregister() should', () => {
+        it('throw given built-in language', () => {
+            expect((function () {
+                WordlistRegistry.unregister('english');
+            })).to.throw('Language "english" is built-in and cannot be unregistered.');
+        });
+    });
+
+    describe('get() should', () => {
+        it('return bitcoinjs/bip39 wordlists', () => {
+            expect(WordlistRegistry.get('japanese')).to.be.equal(bip39.wordlists.japanese);
+        });
+
+        it('throw given unsupported language', () => {
+            expect((function () {
+                WordlistRegistry.get('belgian');
+            })).to.throw('Language "belgian" is not supported.');
+        });
+    });
+
+    describe('MnemonicPassPhrase should', () => {
+        it('create random mnemonic with custom wordlist', () => {
+            const mnemonic = MnemonicPassPhrase.createRandom('reversed');
+
+            expect(mnemonic.toArray().length).to.be.equal(24);
+            expect(mnemonic.isValid()).to.be.equal(true);
+            expect(mnemonic.isValid('english')).to.be.equal(false);
+        });
+
+        it('convert entropy with custom wordlist', () => {
+            const mnemonic = MnemonicPassPhrase.createFromEntropy(entropy, 'reversed');
+
+            expect(mnemonic.toArray()[0]).to.be.equal('ahpla');
+            expect(mnemonic.toEntropy()).to.be.equal(entropy);
+            expect(mnemonic.translate('english').toArray()[0]).to.be.equal('alpha');
+        });
+
+        it('detect custom wordlist language', () => {
+            const mnemonic = MnemonicPassPhrase.createFromEntropy(entropy, 'reversed');
+            expect(MnemonicPassPhrase.detectLanguage(mnemonic.plain)).to.be.equal('reversed');
+        });
+
+        it('repair mnemonic with custom wordlist', () => {
+            const words = MnemonicPassPhrase.createFromEntropy(entropy, 'reversed').toArray();
+            const typo = words.slice();
+            typo[1] = 'nretap';
+            const candidates = MnemonicRepair.repair(new MnemonicPassPhrase(typo.join(' ')), 'reversed');
+
+            expect(candidates[0].mnemonic.plain).to.be.equal(words.join(' '));
+        });
+
+        it('not change the bitcoinjs/bip39 default wordlist', () => {
+            MnemonicPassPhrase.createRandom('french');
+            MnemonicPassPhrase.createRandom('reversed');
+
+            expect(bip39.getDefaultWordlist()).to.be.equal('english');
+        });
+    });
+});